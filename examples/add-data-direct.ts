@@ -1,13 +1,16 @@
 import { mastra } from '../src/mastra/index.js';
-import { openai } from '@ai-sdk/openai';
-import { embedMany } from 'ai';
 import { MDocument } from '@mastra/rag';
+import { extractChunkEntities, getEntityExtractor } from '../src/mastra/lib/entities.js';
+import { recordEntityGraph } from '../src/mastra/lib/entity-graph.js';
+import { getEmbeddingProvider } from '../src/mastra/lib/embeddings.js';
+import { ensureEmbeddingIndex } from '../src/mastra/lib/index-catalog.js';
+import { getVectorStore } from '../src/mastra/lib/vector-store.js';
 
 async function addDataDirectly() {
   console.log('📚 Adding Data Directly to Vector Store\n');
 
   try {
-    const vectorStore = mastra.getVector('pgVector');
+    const vectorStore = getVectorStore(mastra);
 
     // Sample text to add
     const sampleText = `
@@ -32,27 +35,28 @@ async function addDataDirectly() {
 
     // Generate embeddings
     console.log('🧠 Step 2: Generating embeddings...');
-    const { embeddings } = await embedMany({
-      model: openai.embedding("text-embedding-3-small"),
-      values: chunks.map(chunk => chunk.text),
-    });
+    const embeddingProvider = getEmbeddingProvider();
+    const embeddings = await embeddingProvider.embed(chunks.map(chunk => chunk.text));
 
-    console.log(`✅ Generated ${embeddings.length} embeddings\n`);
+    console.log(`✅ Generated ${embeddings.length} embeddings with ${embeddingProvider.id}\n`);
 
-    // Skip index creation since table already exists
-    console.log('🏗️ Step 3: Skipping index creation (table already exists)...');
+    // Create the index for this model, or verify the existing one was built by it
+    console.log('🏗️ Step 3: Checking index and embedding model...');
+    await ensureEmbeddingIndex(vectorStore, "embeddings", embeddingProvider);
     console.log('✅ Proceeding with data storage...\n');
 
     // Store embeddings with detailed entity logging
     console.log('💾 Step 4: Storing embeddings with entities...');
 
-    const chunksWithEntities = chunks.map(chunk => {
-      const entities = extractSimpleEntities(chunk.text);
-      return {
-        text: chunk.text,
-        entities: entities
-      };
-    });
+    const entityExtractor = getEntityExtractor();
+    console.log(`Entity extractor: ${entityExtractor.name}`);
+
+    const chunkEntities = await extractChunkEntities(entityExtractor, chunks.map(chunk => chunk.text));
+    const chunksWithEntities = chunks.map((chunk, index) => ({
+      text: chunk.text,
+      entities: chunkEntities[index],
+      entityExtractor: entityExtractor.name
+    }));
 
     // Log nodes and relationships being created
     console.log('\n🔗 NODES AND RELATIONSHIPS BEING CREATED:');
@@ -148,13 +152,21 @@ async function addDataDirectly() {
       }
     });
 
-    await vectorStore.upsert({
+    const chunkIds = await vectorStore.upsert({
       indexName: "embeddings",
       vectors: embeddings,
       metadata: chunksWithEntities,
     });
 
-    console.log('\n✅ Data stored successfully with entity metadata!\n');
+    // Persist the nodes and relationships shown above
+    const graph = await recordEntityGraph(
+      vectorStore,
+      "embeddings",
+      chunkIds.map((id, i) => ({ id, entities: chunksWithEntities[i].entities }))
+    );
+
+    console.log('\n✅ Data stored successfully with entity metadata!');
+    console.log(`✅ Entity graph updated: ${graph.entities} entities, ${graph.mentions} mentions, ${graph.edges} relationships\n`);
 
       // Test retrieval with Entity-Enhanced Vector RAG analysis
   console.log('🔍 Step 5: Testing Entity-Enhanced Vector RAG retrieval...');
@@ -165,13 +177,10 @@ async function addDataDirectly() {
     console.log(`Query: "${testQuery}"`);
 
     // Extract entities from query
-    const queryEntities = extractSimpleEntities(testQuery);
+    const queryEntities = await entityExtractor.extract(testQuery);
     console.log(`Query Entities: [${queryEntities.join(', ')}]`);
 
-    const { embeddings: queryEmbeddings } = await embedMany({
-      model: openai.embedding("text-embedding-3-small"),
-      values: [testQuery],
-    });
+    const queryEmbeddings = await embeddingProvider.embed([testQuery]);
 
     const results = await vectorStore.query({
       indexName: "embeddings",
@@ -286,28 +295,6 @@ async function addDataDirectly() {
   }
 }
 
-// Simple entity extraction
-function extractSimpleEntities(text: string): string[] {
-  const entities: string[] = [];
-
-  // Extract potential entities (simple approach)
-  const words = text.toLowerCase().split(/\s+/);
-  const potentialEntities = words.filter(word =>
-    word.length > 3 && /^[a-zA-Z]+$/.test(word)
-  );
-
-  // Remove duplicates and common words
-  const commonWords = ['the', 'and', 'with', 'that', 'this', 'have', 'from', 'they', 'will', 'would', 'there', 'their', 'what', 'said', 'each', 'which', 'she', 'do', 'how', 'her', 'if', 'will', 'up', 'one', 'about', 'many', 'then', 'them', 'these', 'so', 'some', 'her', 'would', 'make', 'like', 'into', 'him', 'time', 'two', 'more', 'go', 'no', 'way', 'could', 'my', 'than', 'first', 'been', 'call', 'who', 'its', 'now', 'find', 'long', 'down', 'day', 'did', 'get', 'come', 'made', 'may', 'part'];
-
-  potentialEntities.forEach(word => {
-    if (!commonWords.includes(word) && !entities.includes(word)) {
-      entities.push(word);
-    }
-  });
-
-  return entities.slice(0, 10); // Limit to 10 entities
-}
-
 export { addDataDirectly };
 
 if (import.meta.url === `file://${process.argv[1]}`) {
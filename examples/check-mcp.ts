@@ -0,0 +1,26 @@
+import { checkMcpHealth, disconnectMcp } from '../src/mastra/mcp.js';
+
+// Connect to every server in mcp.config.json and report the tools the agent will get.
+//
+//   npx tsx -r dotenv/config examples/check-mcp.ts
+//
+// Exits with 1 when a configured server is unreachable or misses environment variables.
+
+async function checkMcp() {
+  const servers = await checkMcpHealth();
+
+  for (const server of servers.filter(server => server.status === 'available')) {
+    console.log(`\n${server.name}:`);
+    server.tools.forEach(tool => console.log(`   ✅ ${tool}`));
+    server.hiddenTools.forEach(tool => console.log(`   🚫 ${tool}`));
+  }
+
+  await disconnectMcp();
+  // Exits explicitly: a server that timed out can leave the MCP SDK's request timer pending
+  process.exit(servers.some(server => server.status === 'unreachable' || server.status === 'skipped') ? 1 : 0);
+}
+
+checkMcp().catch(error => {
+  console.error('❌ MCP check failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,94 @@
+import { promises as fs } from 'fs';
+import { parseArgs } from 'util';
+import * as path from 'path';
+import {
+  diffEvaluationRuns,
+  evaluateRetrieval,
+  findLatestEvaluationRun,
+  formatEvaluationReport,
+  loadEvaluationRun,
+  loadGoldenSet,
+  saveEvaluationRun,
+  type EvaluationConfig,
+} from '../src/mastra/lib/evaluation.js';
+
+// Evaluate enhancedVectorRag on a golden set under several configurations.
+//
+//   npx tsx examples/evaluate-retrieval.ts \
+//     --golden examples/evaluation/golden.jsonl --corpus examples/evaluation/corpus
+//
+// Runs offline by default: in-memory vector store and local embeddings, with the corpus
+// ingested at startup. Set VECTOR_STORE / EMBEDDING_PROVIDER to evaluate a real deployment.
+
+const { values } = parseArgs({
+  options: {
+    golden: { type: 'string' },
+    corpus: { type: 'string', multiple: true },
+    configs: { type: 'string' },
+    baseline: { type: 'string' },
+    out: { type: 'string', default: 'evaluations' },
+    k: { type: 'string', default: '1,5,10' },
+  },
+});
+
+// Compared side by side when no --configs file is given
+const defaultConfigs: EvaluationConfig[] = [
+  { name: 'default' },
+  { name: 'top-5', topK: 5 },
+  { name: 'no-entities', useEntityEnhancement: false },
+  { name: 'entity-depth-1', entityDepth: 1 },
+  { name: 'vector-only', retrievalMode: 'vector' },
+  { name: 'no-rerank', reranker: 'none' },
+];
+
+async function evaluate() {
+  if (!values.golden) {
+    throw new Error('Usage: evaluate-retrieval --golden <file.jsonl> [--corpus <dir>] [--configs <file.json>] [--baseline <run.json|latest>] [--out <dir>] [--k 1,5,10]');
+  }
+
+  process.env.VECTOR_STORE ??= 'memory';
+  process.env.EMBEDDING_PROVIDER ??= 'local';
+
+  // Imported after the defaults above, which select the backends
+  const { mastra } = await import('../src/mastra/index.js');
+  const { enhancedVectorRagInputSchema, enhancedVectorRagTool } = await import('../src/mastra/tools/enhanced-vector-rag-tool.js');
+  const { syncDirectories } = await import('../src/mastra/lib/directory-sync.js');
+  const { getVectorStore } = await import('../src/mastra/lib/vector-store.js');
+  const { RuntimeContext } = await import('@mastra/core/runtime-context');
+
+  const goldenSet = await loadGoldenSet(values.golden);
+  const configs: EvaluationConfig[] = values.configs
+    ? JSON.parse(await fs.readFile(values.configs, 'utf-8'))
+    : defaultConfigs;
+  const ks = values.k!.split(',').map(Number);
+
+  if (values.corpus?.length) {
+    console.log(`📚 Ingesting ${values.corpus.join(', ')}`);
+    const { summary } = await syncDirectories(getVectorStore(mastra), { roots: values.corpus });
+    console.log(`✅ ${summary.added} added, ${summary.updated} updated, ${summary.unchanged} unchanged, ${summary.failed} failed\n`);
+  }
+
+  const run = await evaluateRetrieval(goldenSet, configs, async (query, { name, ...config }) => {
+    // Web search is off: it would change the index between configurations
+    const result = await enhancedVectorRagTool.execute!({
+      context: enhancedVectorRagInputSchema.parse({ query: query.query, collections: query.collections, ...config, webSearch: false }),
+      mastra,
+      runtimeContext: new RuntimeContext(),
+    });
+    if (result.error) throw new Error(result.error);
+    return result.sources;
+  }, { ks, goldenSetName: path.basename(values.golden) });
+
+  // The baseline is looked up before this run is saved next to it
+  const baselinePath = values.baseline === 'latest' ? await findLatestEvaluationRun(values.out!) : values.baseline;
+  const savedPath = await saveEvaluationRun(run, values.out!);
+  const diff = baselinePath ? diffEvaluationRuns(await loadEvaluationRun(baselinePath), run) : undefined;
+
+  console.log(`\n${formatEvaluationReport(run, diff)}\n`);
+  console.log(`💾 Saved to ${savedPath}`);
+}
+
+evaluate().catch(error => {
+  console.error('❌ Evaluation failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,61 @@
+import { parseArgs } from 'util';
+
+// Serve the knowledge base to MCP clients such as IDE assistants and CI bots.
+//
+//   npx tsx -r dotenv/config examples/serve-mcp.ts                      # stdio
+//   npx tsx -r dotenv/config examples/serve-mcp.ts --client ide         # stdio as a configured client
+//   npx tsx -r dotenv/config examples/serve-mcp.ts --transport http --port 3333
+//
+// Clients, their tokens, collections and access come from mcp-server.config.json. Over
+// stdio the client is --client, KB_MCP_CLIENT or the only configured one; without a config
+// the local user gets full access. HTTP needs clients with tokens.
+
+const { values } = parseArgs({
+  options: {
+    transport: { type: 'string', default: 'stdio' },
+    port: { type: 'string', default: process.env.KB_MCP_PORT || '3333' },
+    host: { type: 'string', default: process.env.KB_MCP_HOST || '127.0.0.1' },
+    client: { type: 'string', default: process.env.KB_MCP_CLIENT },
+  },
+});
+
+async function serveMcp() {
+  if (values.transport === 'stdio') {
+    // stdout carries the protocol; everything else is logged to stderr
+    process.env.MASTRA_LOGGER = 'console';
+    console.log = console.info = console.warn = console.debug = console.error;
+  } else if (values.transport !== 'http') {
+    throw new Error(`Unknown transport "${values.transport}"; use stdio or http`);
+  }
+
+  const { mastra } = await import('../src/mastra/index.js');
+  const { loadMcpClients, localMcpClient } = await import('../src/mastra/lib/mcp-server-config.js');
+  const { startKnowledgeBaseMcpHttp, startKnowledgeBaseMcpStdio } = await import('../src/mastra/mcp-server.js');
+
+  const clients = await loadMcpClients();
+
+  if (values.transport === 'http') {
+    await startKnowledgeBaseMcpHttp(mastra, clients ?? [], { port: Number(values.port), host: values.host });
+    return;
+  }
+
+  let client = localMcpClient;
+  if (clients) {
+    const selected = values.client
+      ? clients.find(candidate => candidate.name === values.client)
+      : clients.length === 1 ? clients[0] : undefined;
+    if (!selected) {
+      throw new Error(values.client
+        ? `No MCP client "${values.client}" in mcp-server.config.json`
+        : `Choose one of the configured MCP clients with --client: ${clients.map(candidate => candidate.name).join(', ')}`);
+    }
+    client = selected;
+  }
+  await startKnowledgeBaseMcpStdio(mastra, client);
+  console.log(`🔌 Knowledge base MCP server on stdio for ${client.name} (${client.access})`);
+}
+
+serveMcp().catch(error => {
+  console.error('❌ MCP server failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
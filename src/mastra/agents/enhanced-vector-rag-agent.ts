@@ -1,9 +1,21 @@
 import { Agent } from "@mastra/core/agent";
 import { openai } from "@ai-sdk/openai";
+import { wrapLanguageModel } from "ai";
 import { enhancedVectorRagTool } from "../tools/enhanced-vector-rag-tool.js";
 import { chatFileUploadTool } from "../tools/chat-file-upload-tool.js";
 import { storeWebResultsTool } from "../tools/store-web-results-tool.js";
-import { buildMcp } from "../mcp.js";
+import { listSourcesTool } from "../tools/list-sources-tool.js";
+import { inspectSourceTool } from "../tools/inspect-source-tool.js";
+import { deleteDocumentsTool } from "../tools/delete-documents-tool.js";
+import { retagDocumentsTool } from "../tools/retag-documents-tool.js";
+import { listCollectionsTool } from "../tools/list-collections-tool.js";
+import { createCollectionTool } from "../tools/create-collection-tool.js";
+import { dropCollectionTool } from "../tools/drop-collection-tool.js";
+import { listQuarantineTool } from "../tools/list-quarantine-tool.js";
+import { reviewQuarantineTool } from "../tools/review-quarantine-tool.js";
+import { resolveCollectionName } from "../lib/collections.js";
+import { citedAnswerMiddleware } from "../lib/citations.js";
+import { getMcpTools } from "../mcp.js";
 import { Memory } from "@mastra/memory";
 
 // Working memory for the agent
@@ -12,7 +24,9 @@ const memory = new Memory();
 export const enhancedVectorRagAgent = new Agent({
   name: "Enhanced Vector RAG Agent",
   memory,
-  instructions: `You are a helpful assistant with working memory and self-learning capabilities.
+  // A function so the current date and the conversation's collection are filled in on every call.
+  // Callers scope a thread to a collection by setting "collection" in the runtime context.
+  instructions: ({ runtimeContext }) => `You are a helpful assistant with working memory and self-learning capabilities.
 
 ## Your Workflow:
 1. **Knowledge Base Search**: First search your local knowledge base using enhancedVectorRag
@@ -25,32 +39,56 @@ export const enhancedVectorRagAgent = new Agent({
 - **Knowledge Search**: Search local knowledge base using enhancedVectorRag
 - **Web Search**: Use Exa Search tools for current information
 - **Store Results**: Add web search results to knowledge base when requested
+- **Manage Knowledge Base**: List sources (listSources), show a source's chunks (inspectSource), delete documents (deleteDocuments) and change their metadata tags (retagDocuments)
+- **Collections**: List (listCollections), create (createCollection) and drop (dropCollection) separate knowledge bases
+- **Quarantine**: Web results found automatically are quarantined, not added to the knowledge base. List them (listQuarantine) and approve or reject them (reviewQuarantine)
 - **Working Memory**: Remember conversation context
 
 ## Response Format:
-1. **LOCAL KNOWLEDGE**: What you found in your knowledge base
+1. **LOCAL KNOWLEDGE**: What you found in your knowledge base, with [n] citations
 2. **WEB SEARCH**: If you searched the web, what you found
 3. **STORAGE STATUS**: If user requested to store web results, confirm storage
 4. **MEMORY CONTEXT**: Use conversation history for better responses
 5. **CONCLUSION**: Summary with actionable insights
 
+A Sources list of the passages you cite is appended to your answer; do not write one yourself.
+
 ## Key Instructions:
 - Always search knowledge base first
 - Use web search only when local knowledge is insufficient
+- Passages in enhancedVectorRag's relevantContext start with [n], the citation number of the matching entry in its sources. Put [n] right after every sentence that uses that passage, and never state something from the knowledge base without a citation
+- For questions about source code such as "where is X defined", pass the symbol (and a path if the user gave one) to enhancedVectorRag
+- When the user limits where answers may come from ("only from the Q3 runbook", "only web results stored this week"), pass a filter to enhancedVectorRag, e.g. { source: { prefix: "<path of the runbook>" } } or { source: "web_search", storedAt: { after: "<ISO date a week ago>" } }. Use listSources to find exact source names first
 - Store web results ONLY when user explicitly requests it
+- When enhancedVectorRag returns quarantinedSources, tell the user which web pages were found and ask whether to add them. Approve them with reviewQuarantine only after the user agrees, and reject them when the user declines
+- Only pass includeQuarantined: true to enhancedVectorRag when the user allows unreviewed web results; say that passages marked "(unreviewed web result)" are not verified
+- This conversation uses the "${resolveCollectionName(undefined, runtimeContext)}" collection; tools use it when no collection is given. Only pass collection (or collections to enhancedVectorRag) when the user names other collections, e.g. "also search project_beta"
+- Call dropCollection and deleteDocuments without confirm first, show the user what would be deleted, and only pass confirm: true after the user explicitly agrees
 - Use conversation memory for context
 - Be helpful and informative
 
-Important: When user says "add this to my knowledge base" or similar, use storeWebResults tool to save web search results.`,
-  model: openai("gpt-4o-mini"),
+Important: When user says "add this to my knowledge base" or similar, use storeWebResults tool to save web search results.
+
+Today's date: ${new Date().toISOString().slice(0, 10)}`,
+  // Answers after a knowledge base search are checked against the passages it returned and renumbered
+  model: wrapLanguageModel({ model: openai("gpt-4o-mini"), middleware: citedAnswerMiddleware() }),
     tools: async () => {
-    const mcp = await buildMcp();
-    const mcpTools = await mcp.getTools();
+    // Allowed tools of the reachable servers in mcp.config.json
+    const mcpTools = await getMcpTools();
 
     return {
       enhancedVectorRag: enhancedVectorRagTool,
       chatFileUpload: chatFileUploadTool,
       storeWebResults: storeWebResultsTool,
+      listSources: listSourcesTool,
+      inspectSource: inspectSourceTool,
+      deleteDocuments: deleteDocumentsTool,
+      retagDocuments: retagDocumentsTool,
+      listCollections: listCollectionsTool,
+      createCollection: createCollectionTool,
+      dropCollection: dropCollectionTool,
+      listQuarantine: listQuarantineTool,
+      reviewQuarantine: reviewQuarantineTool,
       ...mcpTools
     };
   },
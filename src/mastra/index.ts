@@ -1,33 +1,35 @@
 
+import { ConsoleLogger } from '@mastra/core/logger';
 import { Mastra } from '@mastra/core/mastra';
 import { PinoLogger } from '@mastra/loggers';
-import { PostgresStore } from '@mastra/pg';
-import { PgVector } from '@mastra/pg';
-import { enhancedVectorRagWorkflow } from './workflows/enhanced-vector-rag-workflow';
+import { ingestDocumentsWorkflow } from './workflows/ingest-documents-workflow';
+import { answerQueryWorkflow } from './workflows/answer-query-workflow';
+import { directoryIngestionWorkflow } from './workflows/directory-ingestion-workflow';
 import { enhancedVectorRagAgent } from './agents/enhanced-vector-rag-agent';
+import { createStorage, createVectorStore, VECTOR_STORE_KEY } from './lib/vector-store.js';
 
 
-// Initialize PgVector for vector storage
-const pgVector = new PgVector({
-  connectionString: process.env.POSTGRES_CONNECTION_STRING || "postgresql://localhost:5432/mastra_rag",
-});
-
+// Vector store and storage backend selected with VECTOR_STORE (pg, libsql or memory)
 export const mastra = new Mastra({
   workflows: {
-    enhancedVectorRagWorkflow
+    ingestDocumentsWorkflow,
+    answerQueryWorkflow,
+    directoryIngestionWorkflow,
   },
   agents: {
     enhancedVectorRagAgent,
   },
 
   vectors: {
-    pgVector,
+    [VECTOR_STORE_KEY]: createVectorStore(),
   },
-  storage: new PostgresStore({
-    connectionString: process.env.POSTGRES_CONNECTION_STRING || "postgresql://localhost:5432/mastra_rag",
-  }),
-  logger: new PinoLogger({
-    name: 'Mastra',
-    level: 'info',
-  }),
+  storage: createStorage(),
+  // MASTRA_LOGGER=console logs through console instead of straight to stdout, which the
+  // stdio MCP server needs for the protocol
+  logger: process.env.MASTRA_LOGGER === 'console'
+    ? new ConsoleLogger({ name: 'Mastra', level: 'info' })
+    : new PinoLogger({
+        name: 'Mastra',
+        level: 'info',
+      }),
 });
@@ -0,0 +1,115 @@
+// Chunk operations the MastraVector API does not offer: load by id, scan an index
+// and delete with graph cleanup.
+// Implemented per backend so graph expansion and lexical search work everywhere.
+
+import { removeEntityGraphChunks } from "./entity-graph.js";
+import { InMemoryVector, vectorSimilarity } from "./in-memory-vector.js";
+import { getIndexTableName, getSqlClient, placeholders } from "./sql.js";
+
+export interface StoredChunk {
+  id: string;
+  metadata: Record<string, any>;
+}
+
+function parseMetadata(metadata: any): Record<string, any> {
+  return typeof metadata === "string" ? JSON.parse(metadata || "{}") : metadata || {};
+}
+
+// Load chunks by id, scored against the query vector like a regular search
+export async function fetchChunks(
+  vectorStore: any,
+  indexName: string,
+  ids: string[],
+  queryVector: number[]
+): Promise<any[]> {
+  if (ids.length === 0) return [];
+
+  if (vectorStore instanceof InMemoryVector) {
+    const entries = vectorStore.get(indexName, ids);
+    if (entries.length === 0) return [];
+    const { metric } = await vectorStore.describeIndex({ indexName });
+    return entries.map(entry => ({
+      id: entry.id,
+      score: vectorSimilarity(metric ?? "cosine", queryVector, entry.vector),
+      metadata: entry.metadata,
+    }));
+  }
+
+  const sql = getSqlClient(vectorStore);
+  if (!sql) {
+    throw new Error("Chunk lookup by id is not supported by this vector store");
+  }
+
+  const tableName = getIndexTableName(vectorStore, indexName);
+  const vectorLiteral = `[${queryVector.join(",")}]`;
+  const similarity = sql.dialect === "postgres"
+    ? "1 - (embedding <=> ?::vector)"
+    : "1 - vector_distance_cos(embedding, vector32(?))";
+
+  const rows = await sql.query(
+    `SELECT vector_id AS id, metadata, ${similarity} AS score
+     FROM ${tableName}
+     WHERE vector_id IN (${placeholders(ids.length)})`,
+    [vectorLiteral, ...ids]
+  );
+
+  return rows.map((row: any) => ({
+    id: row.id,
+    score: Number(row.score),
+    metadata: parseMetadata(row.metadata),
+  }));
+}
+
+// Load chunks by id (id and metadata only), in no particular order
+export async function loadChunks(vectorStore: any, indexName: string, ids: string[]): Promise<StoredChunk[]> {
+  if (ids.length === 0) return [];
+
+  if (vectorStore instanceof InMemoryVector) {
+    return vectorStore.get(indexName, ids).map(entry => ({ id: entry.id, metadata: entry.metadata }));
+  }
+
+  const sql = getSqlClient(vectorStore);
+  if (!sql) {
+    throw new Error("Chunk lookup by id is not supported by this vector store");
+  }
+
+  const rows = await sql.query(
+    `SELECT vector_id AS id, metadata FROM ${getIndexTableName(vectorStore, indexName)}
+     WHERE vector_id IN (${placeholders(ids.length)})`,
+    ids
+  );
+  return rows.map((row: any) => ({ id: row.id, metadata: parseMetadata(row.metadata) }));
+}
+
+// Every chunk in an index (id and metadata only)
+export async function scanChunks(vectorStore: any, indexName: string): Promise<StoredChunk[]> {
+  if (vectorStore instanceof InMemoryVector) {
+    return vectorStore.scan(indexName).map(entry => ({ id: entry.id, metadata: entry.metadata }));
+  }
+
+  const sql = getSqlClient(vectorStore);
+  if (!sql) {
+    throw new Error("Scanning chunks is not supported by this vector store");
+  }
+
+  const indexes: string[] = await vectorStore.listIndexes();
+  if (!indexes.includes(indexName)) return [];
+
+  const rows = await sql.query(`SELECT vector_id AS id, metadata FROM ${getIndexTableName(vectorStore, indexName)}`);
+  return rows.map((row: any) => ({ id: row.id, metadata: parseMetadata(row.metadata) }));
+}
+
+// Delete chunks from the index together with their entity graph links
+export async function deleteChunks(vectorStore: any, indexName: string, ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+
+  try {
+    await removeEntityGraphChunks(vectorStore, indexName, ids);
+  } catch (error) {
+    console.warn("Entity graph cleanup failed, removed chunks may still be linked:", error);
+  }
+
+  for (const id of ids) {
+    await vectorStore.deleteVector({ indexName, id });
+  }
+}
@@ -0,0 +1,153 @@
+// Composition tests on hand-made source records: numbering, what is left alone, what
+// happens to sentences no source supports, and composition of agent replies.
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { generateText, wrapLanguageModel, type LanguageModelV1 } from "ai";
+import { z } from "zod";
+import { citedAnswerMiddleware, collectToolSources, composeCitedAnswer, type SourceRecord } from "./citations.js";
+
+function source(citationId: string, citation: number, text: string): SourceRecord {
+  return {
+    citation,
+    citationId,
+    chunkId: `${citationId}-chunk`,
+    source: `docs/${citationId}.md`,
+    text,
+    score: 1,
+    provenance: "user-upload",
+    trustScore: 1,
+    metadata: {},
+  };
+}
+
+const keys = source("keys", 1, "Signing keys are rotated every ninety days by the release pipeline.");
+const publish = source("publish", 2, "A new signing key is published one week before verifiers start using it.");
+const backups = source("backups", 1, "Database backups are encrypted and copied to a second region every night.");
+
+// An agent response with one enhancedVectorRag call per step
+function searchResponse(...searches: SourceRecord[][]) {
+  return {
+    steps: searches.map(sources => ({
+      toolResults: [{ toolName: "enhancedVectorRag", result: { relevantContext: "", sources } }],
+    })),
+  };
+}
+
+describe("composeCitedAnswer", () => {
+  it("renumbers the sources of several searches in order of first citation", () => {
+    // Both searches number their first result 1
+    const sources = collectToolSources(searchResponse([keys, publish], [backups, keys]));
+    assert.deepEqual(sources.map(s => s.citationId), ["keys", "publish", "backups"]);
+
+    const draft = "Database backups are encrypted every night [1]. Signing keys are rotated every ninety days [1].";
+    const { answer, citations } = composeCitedAnswer(draft, sources);
+
+    assert.equal(answer, [
+      "Database backups are encrypted every night [1]. Signing keys are rotated every ninety days [2].",
+      "",
+      "Sources:",
+      "[1] docs/backups.md (citation backups)",
+      "[2] docs/keys.md (citation keys)",
+    ].join("\n"));
+    assert.deepEqual(citations.map(c => [c.citation, c.citationId]), [[1, "backups"], [2, "keys"]]);
+  });
+
+  it("composes an answer it composed before the same way", () => {
+    const draft = "Signing keys are rotated every ninety days. The moon is made of green cheese on Tuesdays.";
+    const once = composeCitedAnswer(draft, [keys]).answer;
+    assert.equal(composeCitedAnswer(once, [keys]).answer, once);
+  });
+
+  it("leaves fenced code alone", () => {
+    const draft = [
+      "Signing keys are rotated every ninety days.",
+      "```bash",
+      "rotate-keys --every 90d [1]. The moon is made of green cheese on Tuesdays.",
+      "```",
+    ].join("\n");
+    const { answer, claims } = composeCitedAnswer(draft, [keys], { includeSourceList: false, unsupportedClaims: "drop" });
+
+    assert.equal(answer, [
+      "Signing keys are rotated every ninety days [1].",
+      "```bash",
+      "rotate-keys --every 90d [1]. The moon is made of green cheese on Tuesdays.",
+      "```",
+    ].join("\n"));
+    assert.equal(claims.length, 1);
+  });
+
+  it("removes a list item when all of its sentences are dropped", () => {
+    const draft = [
+      "Key rotation:",
+      "- Signing keys are rotated every ninety days.",
+      "- The moon is made of green cheese on Tuesdays. Penguins migrate across the desert each summer.",
+      "- A new signing key is published one week before use.",
+    ].join("\n");
+    const { answer } = composeCitedAnswer(draft, [keys, publish], { includeSourceList: false, unsupportedClaims: "drop" });
+
+    assert.equal(answer, [
+      "Key rotation:",
+      "- Signing keys are rotated every ninety days [1].",
+      "- A new signing key is published one week before use [2].",
+    ].join("\n"));
+  });
+
+  it("flags or drops unsupported sentences", () => {
+    const draft = "Signing keys are rotated every ninety days. The moon is made of green cheese on Tuesdays.";
+
+    const flagged = composeCitedAnswer(draft, [keys], { includeSourceList: false });
+    assert.equal(flagged.answer, "Signing keys are rotated every ninety days [1]. The moon is made of green cheese on Tuesdays [unsupported].");
+
+    const dropped = composeCitedAnswer(draft, [keys], { includeSourceList: false, unsupportedClaims: "drop" });
+    assert.equal(dropped.answer, "Signing keys are rotated every ninety days [1].");
+
+    // The claims are the same either way
+    for (const { claims } of [flagged, dropped]) {
+      assert.deepEqual(claims.map(claim => [claim.supported, claim.citations]), [[true, [1]], [false, []]]);
+    }
+  });
+});
+
+describe("citedAnswerMiddleware", () => {
+  const answer = "Signing keys are rotated every ninety days [2]. The moon is made of green cheese on Tuesdays.";
+
+  // Searches once, then answers
+  const model: LanguageModelV1 = {
+    specificationVersion: "v1",
+    provider: "fixture",
+    modelId: "fixture",
+    defaultObjectGenerationMode: undefined,
+    doGenerate: async ({ prompt }) => {
+      const searched = prompt.some(message => message.role === "tool");
+      return {
+        ...(searched
+          ? { text: answer, finishReason: "stop" as const }
+          : { toolCalls: [{ toolCallType: "function" as const, toolCallId: "search", toolName: "enhancedVectorRag", args: "{}" }], finishReason: "tool-calls" as const }),
+        usage: { promptTokens: 1, completionTokens: 1 },
+        rawCall: { rawPrompt: prompt, rawSettings: {} },
+      };
+    },
+    doStream: async () => {
+      throw new Error("Not used");
+    },
+  };
+
+  it("composes the final answer of a turn that searched", async () => {
+    const { text } = await generateText({
+      model: wrapLanguageModel({ model, middleware: citedAnswerMiddleware() }),
+      prompt: "How often are signing keys rotated?",
+      maxSteps: 2,
+      tools: {
+        enhancedVectorRag: { parameters: z.object({}), execute: async () => ({ sources: [publish, keys] }) },
+      },
+    });
+
+    assert.equal(text, [
+      "Signing keys are rotated every ninety days [1]. The moon is made of green cheese on Tuesdays [unsupported].",
+      "",
+      "Sources:",
+      "[1] docs/keys.md (citation keys)",
+    ].join("\n"));
+  });
+});
@@ -0,0 +1,322 @@
+// Citation-grounded answers. Retrieved chunks become typed source records, and the
+// answer-composition step attaches inline [n] markers to every sentence that a cited
+// chunk supports. Sentences no retrieved chunk supports are dropped or flagged.
+// Support is checked lexically: most of a claim's content words must appear in the
+// cited chunk, which catches claims made up or taken from elsewhere without an LLM call.
+// The agent's model is wrapped with citedAnswerMiddleware, so every final reply that
+// follows a knowledge base search is composed, in generate, stream and the playground.
+
+import type { LanguageModelV1CallOptions, LanguageModelV1Middleware, LanguageModelV1Prompt, LanguageModelV1StreamPart } from "ai";
+import { z } from "zod";
+import { hashContent } from "./ingestion.js";
+import { getSourceKey } from "./knowledge-base.js";
+import { getProvenance, getTrustScore, provenanceLevels } from "./provenance.js";
+
+export const sourceRecordSchema = z.object({
+  citation: z.number().describe("Number used in inline [n] markers"),
+  citationId: z.string().describe("Stable id of the chunk, the same for every query that retrieves it"),
+  chunkId: z.string(),
+  collection: z.string().optional(),
+  source: z.string().describe("File path, uploaded file name or URL"),
+  title: z.string().optional(),
+  url: z.string().optional(),
+  text: z.string(),
+  startOffset: z.number().optional().describe("Character offset of the chunk in the document text"),
+  endOffset: z.number().optional().describe("End of the chunk in the document text (exclusive)"),
+  score: z.number(),
+  retrievalMethod: z.string().optional(),
+  ranks: z.record(z.number()).optional(),
+  provenance: z.enum(provenanceLevels).describe("How the chunk entered the knowledge base"),
+  trustScore: z.number(),
+  quarantined: z.boolean().optional().describe("An automatically fetched web result nobody has approved"),
+  metadata: z.record(z.any()),
+});
+
+export const claimSchema = z.object({
+  text: z.string(),
+  citations: z.array(z.number()).describe("Source records backing the claim"),
+  supported: z.boolean(),
+  support: z.number().describe("Share of the claim's content words found in the best source"),
+});
+
+export type SourceRecord = z.infer<typeof sourceRecordSchema>;
+export type Claim = z.infer<typeof claimSchema>;
+
+// What happens to sentences no source supports
+export type UnsupportedClaimPolicy = "drop" | "flag";
+
+export interface CitedAnswer {
+  answer: string;
+  // Only the cited records, numbered in order of first citation
+  citations: SourceRecord[];
+  claims: Claim[];
+}
+
+interface ComposeOptions {
+  unsupportedClaims?: UnsupportedClaimPolicy;
+  // Share of a claim's content words that must appear in a source to cite it
+  minSupport?: number;
+  maxCitationsPerClaim?: number;
+  // Append a "Sources:" list of the cited records
+  includeSourceList?: boolean;
+}
+
+export const UNSUPPORTED_MARKER = "[unsupported]";
+
+// Sentences with fewer content words (greetings, labels) are not checked
+const MIN_CLAIM_TERMS = 3;
+
+const stopwords = new Set([
+  "the", "and", "for", "are", "but", "not", "you", "all", "any", "can", "had", "her", "was", "one", "our", "out",
+  "has", "have", "his", "how", "its", "may", "new", "now", "see", "who", "did", "get", "let", "she", "too", "use",
+  "that", "with", "this", "from", "they", "will", "would", "there", "their", "what", "about", "which", "when",
+  "were", "been", "into", "than", "then", "them", "these", "those", "also", "more", "most", "some", "such",
+  "only", "other", "over", "very", "your", "each", "does", "just", "like", "here", "where", "while", "should",
+  "could", "both", "being", "because", "based", "according", "information", "knowledge", "found", "local",
+]);
+
+const markerPattern = /\s*\[(?:\d+(?:\s*,\s*\d+)*|unsupported)\]/g;
+
+function normalizeTerm(term: string): string {
+  return term.length > 4 && term.endsWith("s") && !term.endsWith("ss") ? term.slice(0, -1) : term;
+}
+
+function contentTerms(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+    .filter(term => /\d/.test(term) || (term.length > 2 && !stopwords.has(term)))
+    .map(normalizeTerm);
+}
+
+export function createCitationId(collection: string | undefined, chunkId: string): string {
+  return hashContent(`${collection || ""}\u0000${chunkId}`).slice(0, 12);
+}
+
+// Number retrieved results 1..n in rank order; the same chunk is only listed once
+export function toSourceRecords(results: any[]): SourceRecord[] {
+  const records: SourceRecord[] = [];
+  const seen = new Set<string>();
+
+  for (const result of results) {
+    const metadata = result.metadata || {};
+    const chunkId = String(metadata.id ?? result.id);
+    const collection = result.collection ?? metadata.collection;
+    const citationId = createCitationId(collection, chunkId);
+    if (seen.has(citationId)) continue;
+    seen.add(citationId);
+    const provenance = getProvenance(metadata);
+
+    records.push({
+      citation: records.length + 1,
+      citationId,
+      chunkId,
+      ...(collection ? { collection } : {}),
+      source: getSourceKey(metadata),
+      ...(metadata.title ? { title: String(metadata.title) } : {}),
+      ...(metadata.url ? { url: String(metadata.url) } : {}),
+      text: metadata.text || "",
+      ...(typeof metadata.startOffset === "number" ? { startOffset: metadata.startOffset, endOffset: metadata.endOffset } : {}),
+      score: result.score || 0,
+      retrievalMethod: metadata.entitySearch ? "entity_search" : result.retrievalMethod,
+      ranks: result.ranks || {},
+      provenance,
+      trustScore: getTrustScore(metadata),
+      // Automatic web results are unreviewed, also those stored in a collection before quarantine existed
+      ...(metadata.quarantined || provenance === "auto-web" ? { quarantined: true } : {}),
+      metadata,
+    });
+  }
+
+  return records;
+}
+
+// Split a line into sentences, keeping their trailing whitespace
+function splitSentences(line: string): string[] {
+  // A terminator only ends a sentence before whitespace, so "3.5" and "e.g.x" stay whole
+  return line.match(/.+?(?:[.!?]+["')\]*_]*(?=\s|$)\s*|$)/g) || [line];
+}
+
+// A source list written by the agent; it is rebuilt with the final numbering
+function isSourceListLine(line: string): boolean {
+  return /^\s*(?:[-*]\s+)?\[\d+\]/.test(line) || /^[\s#*_]*sources[\s*_:]*$/i.test(line);
+}
+
+// Markdown structure that carries no claim of its own
+function isStructuralLine(line: string): boolean {
+  return /^\s*(#{1,6}\s|[-*_]{3,}\s*$|\|.*\|\s*$)/.test(line);
+}
+
+// Attach [n] markers to the sentences of a draft answer. Markers already in the draft
+// are replaced, since drafts may number the sources of several tool calls differently;
+// an answer composed before is composed again the same way.
+export function composeCitedAnswer(
+  draft: string,
+  sources: SourceRecord[],
+  { unsupportedClaims = "flag", minSupport = 0.6, maxCitationsPerClaim = 2, includeSourceList = true }: ComposeOptions = {}
+): CitedAnswer {
+  const sourceTerms = sources.map(source => new Set(contentTerms(`${source.title || ""} ${source.text}`)));
+  const numbers = new Map<string, number>();
+  const claims: Claim[] = [];
+  const lines: string[] = [];
+  let inFence = false;
+
+  const cite = (source: SourceRecord) => {
+    if (!numbers.has(source.citationId)) numbers.set(source.citationId, numbers.size + 1);
+    return numbers.get(source.citationId)!;
+  };
+
+  for (const line of draft.split("\n")) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    if (inFence || /^\s*(```|~~~)/.test(line) || isStructuralLine(line)) {
+      lines.push(line);
+      continue;
+    }
+    if (isSourceListLine(line)) continue;
+
+    // List markers and quotes stay in front of the first sentence
+    const [, prefix, body] = /^(\s*(?:(?:[-*+>]|\d+[.)])\s+)?)(.*)$/.exec(line.replace(markerPattern, ""))!;
+    let composed = "";
+
+    for (const sentence of splitSentences(body)) {
+      const terms = contentTerms(sentence);
+      if (terms.length < MIN_CLAIM_TERMS) {
+        composed += sentence;
+        continue;
+      }
+
+      const scored = sources
+        .map((source, i) => ({ source, support: terms.filter(term => sourceTerms[i].has(term)).length / terms.length }))
+        .sort((a, b) => b.support - a.support);
+      const supporting = scored.filter(({ support }) => support >= minSupport).slice(0, maxCitationsPerClaim);
+      const text = sentence.trim();
+      const trailing = sentence.slice(sentence.trimEnd().length);
+
+      if (supporting.length === 0) {
+        claims.push({ text, citations: [], supported: false, support: scored[0]?.support || 0 });
+        if (unsupportedClaims === "flag") {
+          composed += `${insertMarker(text, UNSUPPORTED_MARKER)}${trailing}`;
+        }
+        continue;
+      }
+
+      const citations = supporting.map(({ source }) => cite(source));
+      claims.push({ text, citations, supported: true, support: supporting[0].support });
+      composed += `${insertMarker(text, citations.map(n => `[${n}]`).join(""))}${trailing}`;
+    }
+
+    // A list item whose sentences were all dropped disappears with its marker
+    if (composed.trim() || !body.trim()) {
+      lines.push(`${prefix}${composed.trimEnd()}`);
+    }
+  }
+
+  const citations = sources
+    .filter(source => numbers.has(source.citationId))
+    .map(source => ({ ...source, citation: numbers.get(source.citationId)! }))
+    .sort((a, b) => a.citation - b.citation);
+
+  if (includeSourceList && citations.length > 0) {
+    lines.push("", "Sources:", ...citations.map(source => {
+      const title = source.title && source.title !== source.source ? `${source.title}: ` : "";
+      const location = describeLocation(source.metadata);
+      return `[${source.citation}] ${title}${source.source} (${location ? `${location}, ` : ""}citation ${source.citationId})`;
+    }));
+  }
+
+  return {
+    answer: lines.join("\n").replace(/\n{3,}/g, "\n\n").trim(),
+    citations,
+    claims,
+  };
+}
+
+// Where in the source the chunk is: heading path, page, rows or lines
+function describeLocation(metadata: Record<string, any>): string {
+  if (metadata.startLine) return `lines ${metadata.startLine}-${metadata.endLine}`;
+  if (metadata.page) return `page ${metadata.page}`;
+  if (metadata.rowStart) return `rows ${metadata.rowStart}-${metadata.rowEnd}`;
+  return metadata.section || "";
+}
+
+// "It runs on Postgres." -> "It runs on Postgres [1]."
+function insertMarker(sentence: string, marker: string): string {
+  const [, body, punctuation] = /^(.*?)([.!?:;]*["')\]*_]*)$/s.exec(sentence)!;
+  return `${body} ${marker}${punctuation}`;
+}
+
+// Source records of tool results, each chunk once
+function uniqueSources(toolResults: any[], toolName: string): SourceRecord[] {
+  const sources = new Map<string, SourceRecord>();
+  for (const toolResult of toolResults) {
+    if (toolResult?.toolName !== toolName) continue;
+    for (const source of toolResult.result?.sources || []) {
+      if (source?.citationId && !sources.has(source.citationId)) {
+        sources.set(source.citationId, source);
+      }
+    }
+  }
+  return Array.from(sources.values());
+}
+
+// Source records from every enhancedVectorRag call of an agent response
+export function collectToolSources(response: any, toolName = "enhancedVectorRag"): SourceRecord[] {
+  const steps = response.steps?.length ? response.steps : [response];
+  return uniqueSources(steps.flatMap((step: any) => step.toolResults || []), toolName);
+}
+
+// Source records from the tool calls of the current turn, those after the last user
+// message; searches of earlier turns were cited by earlier answers
+function promptToolSources(prompt: LanguageModelV1Prompt, toolName: string): SourceRecord[] {
+  const lastUser = prompt.map(message => message.role).lastIndexOf("user");
+  const toolResults = prompt
+    .slice(lastUser + 1)
+    .flatMap(message => (message.role === "tool" ? message.content : []));
+  return uniqueSources(toolResults, toolName);
+}
+
+// Model middleware that composes the agent's final answer of a turn from the sources
+// its enhancedVectorRag calls returned. Steps that call tools, structured output and
+// turns without a search pass through unchanged. A streamed answer is held back until
+// the step finishes and then sent as one piece.
+export function citedAnswerMiddleware(
+  composeOptions: ComposeOptions = {},
+  toolName = "enhancedVectorRag"
+): LanguageModelV1Middleware {
+  const sourcesFor = ({ prompt, mode, responseFormat }: LanguageModelV1CallOptions) =>
+    mode.type === "regular" && responseFormat?.type !== "json" ? promptToolSources(prompt, toolName) : [];
+
+  return {
+    wrapGenerate: async ({ doGenerate, params }) => {
+      const result = await doGenerate();
+      const sources = sourcesFor(params);
+      if (!result.text || result.toolCalls?.length || sources.length === 0) return result;
+      return { ...result, text: composeCitedAnswer(result.text, sources, composeOptions).answer };
+    },
+
+    wrapStream: async ({ doStream, params }) => {
+      const result = await doStream();
+      const sources = sourcesFor(params);
+      if (sources.length === 0) return result;
+
+      let draft = "";
+      let composing = true;
+      const stream = result.stream.pipeThrough(new TransformStream<LanguageModelV1StreamPart, LanguageModelV1StreamPart>({
+        transform(part, controller) {
+          if (composing && part.type === "text-delta") {
+            draft += part.textDelta;
+            return;
+          }
+          // A step that calls tools is no final answer: its text goes out as written
+          if (composing && (part.type === "tool-call" || part.type === "tool-call-delta")) {
+            composing = false;
+            if (draft) controller.enqueue({ type: "text-delta", textDelta: draft });
+          }
+          if (composing && part.type === "finish" && draft) {
+            controller.enqueue({ type: "text-delta", textDelta: composeCitedAnswer(draft, sources, composeOptions).answer });
+          }
+          controller.enqueue(part);
+        },
+      }));
+      return { ...result, stream };
+    },
+  };
+}
@@ -0,0 +1,703 @@
+// Syntax-aware chunking for source code: one chunk per function, class, method or
+// type declaration instead of fixed-size windows. Structure is recovered with a
+// light scanner (strings and comments masked out, brackets counted, Python by
+// indentation), which is enough to find declaration boundaries without a parser
+// per language. Methods keep the signature of their class, and code between
+// declarations (imports, top-level statements) is grouped into module chunks.
+
+import * as path from "path";
+
+export const codeLanguages = ["typescript", "javascript", "python", "go"] as const;
+
+export type CodeLanguage = (typeof codeLanguages)[number];
+
+export const codeLanguageExtensions: Record<string, CodeLanguage> = {
+  ".ts": "typescript",
+  ".tsx": "typescript",
+  ".mts": "typescript",
+  ".cts": "typescript",
+  ".js": "javascript",
+  ".jsx": "javascript",
+  ".mjs": "javascript",
+  ".cjs": "javascript",
+  ".py": "python",
+  ".go": "go",
+};
+
+export type CodeSymbolKind =
+  | "function"
+  | "class"
+  | "method"
+  | "interface"
+  | "type"
+  | "enum"
+  | "struct"
+  | "variable"
+  | "module";
+
+export interface CodeChunk {
+  text: string;
+  metadata: {
+    filePath: string;
+    language: CodeLanguage;
+    symbol?: string;
+    // Class-qualified name for methods, e.g. "Parser.parse"
+    qualifiedSymbol?: string;
+    parentSymbol?: string;
+    symbolKind: CodeSymbolKind;
+    // 1-based, inclusive
+    startLine: number;
+    endLine: number;
+    // Set when a declaration was too large for one chunk
+    part?: number;
+    section?: string;
+  };
+}
+
+interface CodeUnit {
+  name?: string;
+  kind: CodeSymbolKind;
+  parent?: string;
+  // Line range of the declaration itself (0-based, inclusive)
+  start: number;
+  end: number;
+  // First line including attached doc comments and decorators
+  leadingStart: number;
+  // Last line of the header, up to and including the body opener
+  headerEnd: number;
+  members: CodeUnit[];
+}
+
+interface ScannedSource {
+  language: CodeLanguage;
+  lines: string[];
+  // Same lines with string and comment contents blanked out
+  masked: string[];
+  // Bracket nesting at the start of each line
+  depthBefore: number[];
+  // Lines that begin inside a multi-line string or comment
+  inLiteral: boolean[];
+}
+
+export function detectCodeLanguage(fileName: string): CodeLanguage | undefined {
+  return codeLanguageExtensions[path.extname(fileName).toLowerCase()];
+}
+
+// Replace string and comment contents with spaces, keeping delimiters and newlines
+// so offsets, line numbers and "is this a division or a regex" checks survive
+function maskCLike(source: string, language: CodeLanguage, literalLineStarts: Set<number>): string {
+  const out = source.split("");
+  const blank = (from: number, to: number) => {
+    for (let k = from; k < to && k < out.length; k++) {
+      if (out[k] !== "\n") out[k] = " ";
+      else literalLineStarts.add(k + 1);
+    }
+  };
+  const isJs = language === "typescript" || language === "javascript";
+
+  const regexAllowedAfter = /[(,=:[!&|?{};+\-*%<>~^]$|^$|\b(return|typeof|case|in|of|new|delete|void|throw|else|yield|await)$/;
+  const precedingCode = (i: number) => out.slice(Math.max(0, i - 20), i).join("").trimEnd();
+
+  // Returns the index just past the closing quote
+  const skipQuoted = (i: number, quote: string, multiline: boolean, escapes: boolean): number => {
+    let j = i + 1;
+    while (j < source.length) {
+      const c = source[j];
+      if (escapes && c === "\\") {
+        j += 2;
+        continue;
+      }
+      if (c === quote) break;
+      if (c === "\n" && !multiline) break;
+      j++;
+    }
+    blank(i + 1, j);
+    return j + 1;
+  };
+
+  // Template literals blank their text but scan `${ ... }` expressions as code
+  const scanTemplate = (i: number): number => {
+    let j = i + 1;
+    while (j < source.length) {
+      const c = source[j];
+      if (c === "\\") {
+        blank(j, j + 2);
+        j += 2;
+      } else if (c === "`") {
+        return j + 1;
+      } else if (c === "$" && source[j + 1] === "{") {
+        j = scanCode(j + 2, true);
+      } else {
+        blank(j, j + 1);
+        j++;
+      }
+    }
+    return j;
+  };
+
+  const scanCode = (i: number, nested: boolean): number => {
+    let depth = 0;
+    while (i < source.length) {
+      const c = source[i];
+      const next = source[i + 1];
+
+      if (c === "/" && next === "/") {
+        const end = source.indexOf("\n", i);
+        const stop = end === -1 ? source.length : end;
+        blank(i, stop);
+        i = stop;
+      } else if (c === "/" && next === "*") {
+        const end = source.indexOf("*/", i + 2);
+        const stop = end === -1 ? source.length : end + 2;
+        blank(i, stop);
+        i = stop;
+      } else if (c === '"' || c === "'") {
+        i = skipQuoted(i, c, false, true);
+      } else if (c === "`") {
+        i = isJs ? scanTemplate(i) : skipQuoted(i, "`", true, false);
+      } else if (isJs && c === "/" && regexAllowedAfter.test(precedingCode(i))) {
+        // Regex literal: runs to the closing slash outside a character class
+        let j = i + 1;
+        let inClass = false;
+        while (j < source.length && source[j] !== "\n") {
+          if (source[j] === "\\") j++;
+          else if (source[j] === "[") inClass = true;
+          else if (source[j] === "]") inClass = false;
+          else if (source[j] === "/" && !inClass) break;
+          j++;
+        }
+        if (source[j] === "/") {
+          blank(i + 1, j);
+          i = j + 1;
+        } else {
+          i++;
+        }
+      } else {
+        if (nested && c === "{") depth++;
+        if (nested && c === "}") {
+          if (depth === 0) return i + 1;
+          depth--;
+        }
+        i++;
+      }
+    }
+    return i;
+  };
+
+  scanCode(0, false);
+  return out.join("");
+}
+
+function maskPython(source: string, literalLineStarts: Set<number>): string {
+  const out = source.split("");
+  const blank = (from: number, to: number) => {
+    for (let k = from; k < to && k < out.length; k++) {
+      if (out[k] !== "\n") out[k] = " ";
+      else literalLineStarts.add(k + 1);
+    }
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const c = source[i];
+    if (c === "#") {
+      const end = source.indexOf("\n", i);
+      const stop = end === -1 ? source.length : end;
+      blank(i, stop);
+      i = stop;
+    } else if (c === '"' || c === "'") {
+      const triple = source.startsWith(c.repeat(3), i);
+      const delimiter = triple ? c.repeat(3) : c;
+      let j = i + delimiter.length;
+      while (j < source.length) {
+        if (source[j] === "\\") {
+          j += 2;
+          continue;
+        }
+        if (source.startsWith(delimiter, j)) break;
+        if (!triple && source[j] === "\n") break;
+        j++;
+      }
+      blank(i + delimiter.length, j);
+      i = j + delimiter.length;
+    } else {
+      i++;
+    }
+  }
+  return out.join("");
+}
+
+function scanSource(source: string, language: CodeLanguage): ScannedSource {
+  const literalLineStarts = new Set<number>();
+  const masked = (language === "python" ? maskPython(source, literalLineStarts) : maskCLike(source, language, literalLineStarts)).split("\n");
+  const lines = source.split("\n").map(line => line.replace(/\r$/, ""));
+
+  const inLiteral: boolean[] = [];
+  let offset = 0;
+  for (const line of masked) {
+    inLiteral.push(literalLineStarts.has(offset));
+    offset += line.length + 1;
+  }
+
+  const depthBefore: number[] = [];
+  let depth = 0;
+  for (const line of masked) {
+    depthBefore.push(depth);
+    for (const c of line) {
+      if (c === "{" || c === "(" || c === "[") depth++;
+      else if (c === "}" || c === ")" || c === "]") depth = Math.max(0, depth - 1);
+    }
+  }
+
+  return { language, lines, masked, depthBefore, inLiteral };
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+function isBlank(line: string): boolean {
+  return line.trim().length === 0;
+}
+
+const continuationEnd = /([=,([{.+\-*/%&|^!?:<>]|=>)$/;
+const continuationStart = /^(\.|\?|:|&|\||\+|\*|\/|=|,|as\s|satisfies\s|extends\s)/;
+
+// Last line of a brace-language declaration starting at `start`. Declarations
+// with a body end where their outermost `{` closes; the rest end at a `;` or at
+// a line break where the statement cannot continue.
+function findStatementEnd(scanned: ScannedSource, start: number, requireBody: boolean): { end: number; headerEnd: number } {
+  const { masked } = scanned;
+  let depth = 0;
+  let headerEnd = -1;
+
+  for (let i = start; i < masked.length; i++) {
+    for (const c of masked[i]) {
+      if (c === "{" && depth === 0 && headerEnd === -1) headerEnd = i;
+      if (c === "{" || c === "(" || c === "[") depth++;
+      else if (c === "}" || c === ")" || c === "]") depth--;
+      else if (c === ";" && depth === 0 && (headerEnd === -1 || !requireBody)) {
+        return { end: i, headerEnd: headerEnd === -1 ? i : headerEnd };
+      }
+      if (depth < 0) return { end: i, headerEnd: headerEnd === -1 ? i : headerEnd };
+    }
+
+    if (depth > 0) continue;
+    if (requireBody) {
+      if (headerEnd !== -1) return { end: i, headerEnd };
+      continue;
+    }
+
+    const line = masked[i].trim();
+    let next = i + 1;
+    while (next < masked.length && isBlank(masked[next])) next++;
+    const nextLine = next < masked.length ? masked[next].trim() : "";
+    if (!continuationEnd.test(line) && !continuationStart.test(nextLine)) {
+      return { end: i, headerEnd: headerEnd === -1 ? i : headerEnd };
+    }
+  }
+
+  return { end: masked.length - 1, headerEnd: headerEnd === -1 ? masked.length - 1 : headerEnd };
+}
+
+// Doc comments, decorators and attributes directly above a declaration belong to it
+function findLeadingStart(scanned: ScannedSource, start: number, floor: number): number {
+  const commentLine = scanned.language === "python"
+    ? /^(#|@)/
+    : /^(\/\/|\/\*|\*|@)/;
+
+  let leading = start;
+  while (leading - 1 > floor && !isBlank(scanned.lines[leading - 1]) && commentLine.test(scanned.lines[leading - 1].trim())) {
+    leading--;
+  }
+  return leading;
+}
+
+const jsModifiers = "(?:export\\s+)?(?:default\\s+)?(?:declare\\s+)?";
+
+const jsDeclarations: Array<{ pattern: RegExp; kind: CodeSymbolKind; requireBody: boolean }> = [
+  { pattern: new RegExp(`^${jsModifiers}(?:async\\s+)?function\\s*\\*?\\s*([A-Za-z_$][\\w$]*)?`), kind: "function", requireBody: true },
+  { pattern: new RegExp(`^${jsModifiers}(?:abstract\\s+)?class\\s+([A-Za-z_$][\\w$]*)?`), kind: "class", requireBody: true },
+  { pattern: new RegExp(`^${jsModifiers}interface\\s+([A-Za-z_$][\\w$]*)`), kind: "interface", requireBody: true },
+  { pattern: new RegExp(`^${jsModifiers}(?:const\\s+)?enum\\s+([A-Za-z_$][\\w$]*)`), kind: "enum", requireBody: true },
+  { pattern: new RegExp(`^${jsModifiers}type\\s+([A-Za-z_$][\\w$]*)\\b[^=]*=`), kind: "type", requireBody: false },
+  { pattern: new RegExp(`^${jsModifiers}(?:const|let|var)\\s+([A-Za-z_$][\\w$]*)\\s*(?::[^=]+)?=\\s*(?:async\\s+)?(?:function\\b|\\([^)]*\\)\\s*(?::[^=]+)?=>|\\(|[A-Za-z_$][\\w$]*\\s*=>)`), kind: "function", requireBody: false },
+  { pattern: new RegExp(`^${jsModifiers}(?:const|let|var)\\s+([A-Za-z_$][\\w$]*)`), kind: "variable", requireBody: false },
+];
+
+const jsMemberModifiers = "(?:(?:public|private|protected|static|readonly|abstract|async|override|declare|accessor|get|set)\\s+)*";
+const jsMethod = new RegExp(`^${jsMemberModifiers}\\*?\\s*(#?[A-Za-z_$][\\w$]*)\\s*[?!]?\\s*(?:<[^>]*>)?\\s*\\(`);
+const jsArrowMember = new RegExp(`^${jsMemberModifiers}(#?[A-Za-z_$][\\w$]*)\\s*[?!]?\\s*(?::[^=]+)?=\\s*(?:async\\s+)?(?:function\\b|\\([^)]*\\)\\s*(?::[^=]+)?=>|[A-Za-z_$][\\w$]*\\s*=>)`);
+const notMethodNames = new Set(["if", "for", "while", "switch", "catch", "return", "function"]);
+
+function findJsMembers(scanned: ScannedSource, owner: CodeUnit): CodeUnit[] {
+  const members: CodeUnit[] = [];
+  const memberDepth = scanned.depthBefore[owner.start] + 1;
+
+  for (let i = owner.headerEnd + 1; i < owner.end; i++) {
+    if (scanned.depthBefore[i] !== memberDepth) continue;
+    const line = scanned.masked[i].trim();
+
+    const method = jsMethod.exec(line);
+    const arrow = !method && jsArrowMember.exec(line);
+    const match = method || arrow;
+    if (!match || notMethodNames.has(match[1])) continue;
+
+    const { end, headerEnd } = findStatementEnd(scanned, i, !!method);
+    const previousEnd = members.length > 0 ? members[members.length - 1].end : owner.headerEnd;
+    members.push({
+      name: match[1],
+      kind: "method",
+      parent: owner.name,
+      start: i,
+      end: Math.min(end, owner.end - 1),
+      leadingStart: findLeadingStart(scanned, i, previousEnd),
+      headerEnd,
+      members: [],
+    });
+    i = Math.min(end, owner.end - 1);
+  }
+
+  return members;
+}
+
+function findJsUnits(scanned: ScannedSource): CodeUnit[] {
+  const units: CodeUnit[] = [];
+
+  for (let i = 0; i < scanned.masked.length; i++) {
+    if (scanned.depthBefore[i] !== 0) continue;
+    const line = scanned.masked[i].trim();
+
+    for (const { pattern, kind, requireBody } of jsDeclarations) {
+      const match = pattern.exec(line);
+      if (!match) continue;
+
+      const { end, headerEnd } = findStatementEnd(scanned, i, requireBody);
+      const previousEnd = units.length > 0 ? units[units.length - 1].end : -1;
+      const unit: CodeUnit = {
+        name: match[1] || (/\bdefault\b/.test(line) ? "default" : undefined),
+        kind,
+        start: i,
+        end,
+        leadingStart: findLeadingStart(scanned, i, previousEnd),
+        headerEnd,
+        members: [],
+      };
+      if (kind === "class" && end > headerEnd) {
+        unit.members = findJsMembers(scanned, unit);
+      }
+      units.push(unit);
+      i = end;
+      break;
+    }
+  }
+
+  return units;
+}
+
+const goDeclarations: Array<{ pattern: RegExp; kind: CodeSymbolKind; requireBody: boolean }> = [
+  { pattern: /^func\s+\(\s*(?:\w+\s+)?\*?\s*(\w+)(?:\[[^\]]*\])?\s*\)\s*(\w+)/, kind: "method", requireBody: true },
+  { pattern: /^func\s+(\w+)/, kind: "function", requireBody: true },
+  { pattern: /^type\s+(\w+)(?:\[[^\]]*\])?\s+struct\b/, kind: "struct", requireBody: true },
+  { pattern: /^type\s+(\w+)(?:\[[^\]]*\])?\s+interface\b/, kind: "interface", requireBody: true },
+  { pattern: /^type\s+(\w+)\b/, kind: "type", requireBody: false },
+  { pattern: /^(?:var|const)\s+(\w+)/, kind: "variable", requireBody: false },
+];
+
+function findGoUnits(scanned: ScannedSource): CodeUnit[] {
+  const units: CodeUnit[] = [];
+
+  for (let i = 0; i < scanned.masked.length; i++) {
+    if (scanned.depthBefore[i] !== 0) continue;
+    const line = scanned.masked[i].trim();
+
+    for (const { pattern, kind, requireBody } of goDeclarations) {
+      const match = pattern.exec(line);
+      if (!match) continue;
+
+      const { end, headerEnd } = findStatementEnd(scanned, i, requireBody);
+      const previousEnd = units.length > 0 ? units[units.length - 1].end : -1;
+      units.push({
+        // Methods are declared at top level in Go; the receiver type is their parent
+        name: kind === "method" ? match[2] : match[1],
+        parent: kind === "method" ? match[1] : undefined,
+        kind,
+        start: i,
+        end,
+        leadingStart: findLeadingStart(scanned, i, previousEnd),
+        headerEnd,
+        members: [],
+      });
+      i = end;
+      break;
+    }
+  }
+
+  return units;
+}
+
+// A Python block ends before the first non-blank line indented no deeper than its header
+function findPythonBlockEnd(scanned: ScannedSource, start: number): { end: number; headerEnd: number } {
+  const { masked, depthBefore } = scanned;
+  const indent = indentOf(masked[start]);
+
+  let headerEnd = start;
+  while (headerEnd + 1 < masked.length && depthBefore[headerEnd + 1] > 0) headerEnd++;
+
+  let end = headerEnd;
+  for (let i = headerEnd + 1; i < masked.length; i++) {
+    if (isBlank(masked[i]) || scanned.inLiteral[i]) continue;
+    if (depthBefore[i] === 0 && indentOf(masked[i]) <= indent) break;
+    end = i;
+  }
+  return { end, headerEnd };
+}
+
+const pythonDefinition = /^(?:async\s+)?def\s+(\w+)|^class\s+(\w+)/;
+const pythonAssignment = /^([A-Za-z_]\w*)\s*(?::[^=]+)?=(?!=)/;
+
+function findPythonUnits(scanned: ScannedSource): CodeUnit[] {
+  const { masked, depthBefore } = scanned;
+  const units: CodeUnit[] = [];
+
+  const findDefinitions = (from: number, to: number, indent: number, parent?: string): CodeUnit[] => {
+    const found: CodeUnit[] = [];
+    for (let i = from; i <= to; i++) {
+      if (depthBefore[i] !== 0 || isBlank(masked[i]) || indentOf(masked[i]) !== indent) continue;
+      const line = masked[i].trim();
+      const definition = pythonDefinition.exec(line);
+      const assignment = !definition && !parent && pythonAssignment.exec(line);
+      if (!definition && !assignment) continue;
+
+      const previousEnd = found.length > 0 ? found[found.length - 1].end : from - 1;
+      const { end, headerEnd } = definition
+        ? findPythonBlockEnd(scanned, i)
+        : findStatementEnd(scanned, i, false);
+      const isClass = !!definition?.[2];
+      const unit: CodeUnit = {
+        name: definition ? definition[1] || definition[2] : (assignment as RegExpExecArray)[1],
+        kind: isClass ? "class" : definition ? (parent ? "method" : "function") : "variable",
+        parent,
+        start: i,
+        end: Math.min(end, to),
+        leadingStart: findLeadingStart(scanned, i, previousEnd),
+        headerEnd,
+        members: [],
+      };
+
+      if (isClass) {
+        const bodyStart = masked.findIndex((candidate, index) => index > headerEnd && !isBlank(candidate));
+        if (bodyStart !== -1 && bodyStart <= unit.end) {
+          unit.members = findDefinitions(bodyStart, unit.end, indentOf(masked[bodyStart]), unit.name);
+        }
+      }
+      found.push(unit);
+      i = unit.end;
+    }
+    return found;
+  };
+
+  units.push(...findDefinitions(0, masked.length - 1, 0));
+  return units;
+}
+
+function findUnits(scanned: ScannedSource): CodeUnit[] {
+  switch (scanned.language) {
+    case "python":
+      return findPythonUnits(scanned);
+    case "go":
+      return findGoUnits(scanned);
+    default:
+      return findJsUnits(scanned);
+  }
+}
+
+// Header of a declaration: its lines up to the body opener, with the body elided.
+// Declarations without a block body are represented by their first line.
+function getSignature(scanned: ScannedSource, unit: CodeUnit): string {
+  if (scanned.language === "python") {
+    return unit.kind === "variable"
+      ? scanned.lines[unit.start]
+      : scanned.lines.slice(unit.start, unit.headerEnd + 1).join("\n");
+  }
+
+  let depth = 0;
+  for (let i = unit.start; i <= unit.headerEnd; i++) {
+    const line = scanned.masked[i];
+    for (let column = 0; column < line.length; column++) {
+      const c = line[column];
+      if (c === "{" && depth === 0) {
+        return [...scanned.lines.slice(unit.start, i), scanned.lines[i].slice(0, column + 1)].join("\n");
+      }
+      if (c === "{" || c === "(" || c === "[") depth++;
+      else if (c === "}" || c === ")" || c === "]") depth--;
+    }
+  }
+  return scanned.lines[unit.start];
+}
+
+function elisionLine(scanned: ScannedSource, indent: string): string {
+  return scanned.language === "python" ? `${indent}# ...` : `${indent}// ...`;
+}
+
+// Group lines into pieces of at most `chunkSize` characters; a single longer line stays whole
+function splitLines(lines: string[], firstLine: number, chunkSize: number): Array<{ text: string; start: number; end: number }> {
+  const parts: Array<{ text: string; start: number; end: number }> = [];
+  let current: string[] = [];
+  let currentStart = firstLine;
+  let length = 0;
+
+  lines.forEach((line, index) => {
+    if (current.length > 0 && length + line.length + 1 > chunkSize) {
+      parts.push({ text: current.join("\n"), start: currentStart, end: firstLine + index - 1 });
+      current = [];
+      currentStart = firstLine + index;
+      length = 0;
+    }
+    current.push(line);
+    length += line.length + 1;
+  });
+  if (current.length > 0) {
+    parts.push({ text: current.join("\n"), start: currentStart, end: firstLine + lines.length - 1 });
+  }
+
+  return parts;
+}
+
+// Metadata filter restricting a search to code chunks of a symbol, path or language.
+// `symbol` matches plain and class-qualified names; `path` is a case-insensitive substring.
+export function buildCodeFilter({
+  symbol,
+  path: filePath,
+  language,
+}: {
+  symbol?: string;
+  path?: string;
+  language?: CodeLanguage;
+}): Record<string, any> | undefined {
+  const conditions: Record<string, any>[] = [];
+  if (symbol) conditions.push({ $or: [{ symbol }, { qualifiedSymbol: symbol }] });
+  if (filePath) conditions.push({ filePath: { $contains: filePath } });
+  if (language) conditions.push({ language });
+
+  if (conditions.length === 0) return undefined;
+  return conditions.length === 1 ? conditions[0] : { $and: conditions };
+}
+
+export function chunkCode(
+  source: string,
+  { filePath, language, chunkSize = 1500 }: { filePath: string; language?: CodeLanguage; chunkSize?: number }
+): CodeChunk[] {
+  const detected = language || detectCodeLanguage(filePath);
+  if (!detected) {
+    throw new Error(`Cannot detect the programming language of ${filePath}; supported extensions: ${Object.keys(codeLanguageExtensions).join(", ")}`);
+  }
+
+  const scanned = scanSource(source, detected);
+  const units = findUnits(scanned);
+  const chunks: CodeChunk[] = [];
+  const covered = new Array<boolean>(scanned.lines.length).fill(false);
+
+  const emit = (
+    unit: CodeUnit,
+    from: number,
+    to: number,
+    context?: { prefix: string; suffix?: string }
+  ) => {
+    const qualifiedSymbol = unit.parent && unit.name ? `${unit.parent}.${unit.name}` : undefined;
+    const signature = getSignature(scanned, unit);
+    const indent = " ".repeat(indentOf(scanned.lines[unit.start]) + (scanned.language === "python" ? 4 : 2));
+    const parts = splitLines(scanned.lines.slice(from, to + 1), from, chunkSize);
+
+    parts.forEach((part, index) => {
+      // Later parts of a long declaration repeat its signature so they stay attributable
+      const body = index === 0 ? part.text : `${signature}\n${elisionLine(scanned, indent)}\n${part.text}`;
+      const text = context ? [context.prefix, body, context.suffix].filter(Boolean).join("\n") : body;
+
+      chunks.push({
+        text,
+        metadata: {
+          filePath,
+          language: detected,
+          ...(unit.name ? { symbol: unit.name } : {}),
+          ...(qualifiedSymbol ? { qualifiedSymbol } : {}),
+          ...(unit.parent ? { parentSymbol: unit.parent } : {}),
+          symbolKind: unit.kind,
+          startLine: part.start + 1,
+          endLine: part.end + 1,
+          ...(parts.length > 1 ? { part: index + 1 } : {}),
+          ...(qualifiedSymbol || unit.name ? { section: qualifiedSymbol || unit.name } : {}),
+        },
+      });
+    });
+  };
+
+  for (const unit of units) {
+    for (let i = unit.leadingStart; i <= unit.end; i++) covered[i] = true;
+
+    if (unit.members.length === 0) {
+      emit(unit, unit.leadingStart, unit.end);
+      continue;
+    }
+
+    // Class outline: fields and member signatures, bodies elided
+    const memberIndent = " ".repeat(indentOf(scanned.lines[unit.members[0].start]));
+    const outline: string[] = [];
+    let line = unit.leadingStart;
+    for (const member of unit.members) {
+      outline.push(...scanned.lines.slice(line, member.leadingStart));
+      const signature = getSignature(scanned, member);
+      outline.push(scanned.language === "python" ? `${signature}\n${memberIndent}    ...` : `${signature} ... }`);
+      line = member.end + 1;
+    }
+    outline.push(...scanned.lines.slice(line, unit.end + 1));
+    splitLines(outline, unit.leadingStart, chunkSize).forEach((part, index, parts) => {
+      chunks.push({
+        text: part.text,
+        metadata: {
+          filePath,
+          language: detected,
+          ...(unit.name ? { symbol: unit.name, section: unit.name } : {}),
+          symbolKind: unit.kind,
+          // The outline spans the whole class, whichever lines it shows
+          startLine: unit.leadingStart + 1,
+          endLine: unit.end + 1,
+          ...(parts.length > 1 ? { part: index + 1 } : {}),
+        },
+      });
+    });
+
+    // Each method carries the class signature so it reads in context
+    const classSignature = getSignature(scanned, unit);
+    const closing = scanned.language === "python" ? undefined : `${" ".repeat(indentOf(scanned.lines[unit.start]))}}`;
+    for (const member of unit.members) {
+      emit(member, member.leadingStart, member.end, {
+        prefix: `${classSignature}\n${elisionLine(scanned, memberIndent)}`,
+        suffix: closing,
+      });
+    }
+  }
+
+  // Everything outside declarations: imports, top-level statements, module docs
+  let run: number[] = [];
+  const flushRun = () => {
+    while (run.length > 0 && isBlank(scanned.lines[run[0]])) run.shift();
+    while (run.length > 0 && isBlank(scanned.lines[run[run.length - 1]])) run.pop();
+    if (run.length > 0) {
+      splitLines(run.map(index => scanned.lines[index]), run[0], chunkSize)
+        .filter(part => part.text.trim().length > 0)
+        .forEach(part => chunks.push({
+          text: part.text,
+          metadata: { filePath, language: detected, symbolKind: "module", startLine: part.start + 1, endLine: part.end + 1 },
+        }));
+    }
+    run = [];
+  };
+  scanned.lines.forEach((_, index) => {
+    if (covered[index]) flushRun();
+    else run.push(index);
+  });
+  flushRun();
+
+  return chunks.sort((a, b) => a.metadata.startLine - b.metadata.startLine);
+}
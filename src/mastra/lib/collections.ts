@@ -0,0 +1,326 @@
+// Named collections: separate knowledge bases in one deployment, e.g. per project or
+// per user. Each collection is its own vector index with its own embedding model and
+// chunking defaults. The original "embeddings" index is the built-in default collection,
+// configured with the EMBEDDING_* environment variables.
+
+import { scanChunks } from "./chunk-store.js";
+import {
+  createEmbeddingProvider,
+  getEmbeddingProvider,
+  type EmbeddingProvider,
+  type EmbeddingProviderName,
+} from "./embeddings.js";
+import { removeEntityGraphChunks } from "./entity-graph.js";
+import { ensureEmbeddingIndex, removeIndexCatalogEntry } from "./index-catalog.js";
+import { forgetTextSearchIndex } from "./lexical-search.js";
+import { getSourceFiles, removeManifestChunks, removeSourceFile } from "./source-manifest.js";
+import { getSqlCacheKey, getSqlClient, type SqlClient } from "./sql.js";
+import { dropQuarantine } from "./web-quarantine.js";
+
+export interface CollectionEmbeddingConfig {
+  provider: EmbeddingProviderName;
+  model: string;
+  dimension?: number;
+  // API keys are never stored; they come from EMBEDDING_API_KEY / OPENAI_API_KEY
+  baseUrl?: string;
+}
+
+export interface Collection {
+  name: string;
+  indexName: string;
+  description?: string;
+  embedding: CollectionEmbeddingConfig;
+  chunkSize: number;
+  overlap: number;
+  createdAt?: string;
+}
+
+export interface CreateCollectionOptions {
+  name: string;
+  description?: string;
+  embedding?: Partial<CollectionEmbeddingConfig>;
+  chunkSize?: number;
+  overlap?: number;
+}
+
+export const DEFAULT_COLLECTION = "default";
+
+// Runtime context key holding the collection of the current conversation
+export const COLLECTION_CONTEXT_KEY = "collection";
+
+const DEFAULT_INDEX_NAME = "embeddings";
+const DEFAULT_CHUNK_SIZE = 512;
+const DEFAULT_OVERLAP = 50;
+
+// Collection names become part of SQL table names
+const collectionNamePattern = /^[a-z][a-z0-9_]{0,47}$/;
+
+const registryReady = new WeakMap<object, Promise<void>>();
+
+// Stores without a SQL database keep their registry in process
+const inMemoryRegistries = new WeakMap<object, Map<string, Collection>>();
+
+const embeddingProviders = new Map<string, EmbeddingProvider>();
+
+async function ensureRegistrySchema(vectorStore: any, sql: SqlClient): Promise<void> {
+  const key = getSqlCacheKey(vectorStore);
+
+  if (!registryReady.has(key)) {
+    const ready = sql.query(`
+      CREATE TABLE IF NOT EXISTS knowledge_collections (
+        name TEXT PRIMARY KEY,
+        index_name TEXT NOT NULL,
+        description TEXT,
+        embedding_provider TEXT NOT NULL,
+        embedding_model TEXT NOT NULL,
+        embedding_dimension INTEGER,
+        embedding_base_url TEXT,
+        chunk_size INTEGER NOT NULL,
+        overlap INTEGER NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `).then(() => undefined);
+
+    ready.catch(() => registryReady.delete(key));
+    registryReady.set(key, ready);
+  }
+
+  await registryReady.get(key);
+}
+
+function getInMemoryRegistry(vectorStore: any): Map<string, Collection> {
+  if (!inMemoryRegistries.has(vectorStore)) {
+    inMemoryRegistries.set(vectorStore, new Map());
+  }
+  return inMemoryRegistries.get(vectorStore)!;
+}
+
+function toCollection(row: any): Collection {
+  return {
+    name: row.name,
+    indexName: row.index_name,
+    ...(row.description ? { description: row.description } : {}),
+    embedding: {
+      provider: row.embedding_provider,
+      model: row.embedding_model,
+      ...(row.embedding_dimension ? { dimension: Number(row.embedding_dimension) } : {}),
+      ...(row.embedding_base_url ? { baseUrl: row.embedding_base_url } : {}),
+    },
+    chunkSize: Number(row.chunk_size),
+    overlap: Number(row.overlap),
+    createdAt: new Date(row.created_at).toISOString(),
+  };
+}
+
+function getEnvDimension(): number | undefined {
+  return process.env.EMBEDDING_DIMENSION ? Number(process.env.EMBEDDING_DIMENSION) : undefined;
+}
+
+function getDefaultCollection(): Collection {
+  const provider = getEmbeddingProvider();
+  return {
+    name: DEFAULT_COLLECTION,
+    indexName: DEFAULT_INDEX_NAME,
+    description: "Built-in collection configured with the EMBEDDING_* settings",
+    embedding: {
+      provider: provider.provider,
+      model: provider.model,
+      ...(getEnvDimension() ? { dimension: getEnvDimension() } : {}),
+      ...(process.env.EMBEDDING_BASE_URL ? { baseUrl: process.env.EMBEDDING_BASE_URL } : {}),
+    },
+    chunkSize: DEFAULT_CHUNK_SIZE,
+    overlap: DEFAULT_OVERLAP,
+  };
+}
+
+// Fields left out are taken from the EMBEDDING_* settings when the provider matches them
+function resolveEmbeddingConfig(requested: Partial<CollectionEmbeddingConfig> = {}): CollectionEmbeddingConfig {
+  const defaults = getDefaultCollection().embedding;
+  const provider = requested.provider || defaults.provider;
+  const inherit = provider === defaults.provider;
+  const model = requested.model || (inherit ? defaults.model : undefined);
+  const dimension = requested.dimension ?? (inherit && model === defaults.model ? defaults.dimension : undefined);
+  const baseUrl = requested.baseUrl ?? (inherit ? defaults.baseUrl : undefined);
+
+  // Fills in the provider's default model and validates the combination
+  const resolved = createEmbeddingProvider({ provider, model, dimension, baseUrl });
+
+  return {
+    provider,
+    model: resolved.model,
+    ...(dimension ? { dimension } : {}),
+    ...(baseUrl ? { baseUrl } : {}),
+  };
+}
+
+function assertCollectionName(name: string): void {
+  if (!collectionNamePattern.test(name)) {
+    throw new Error(
+      `Invalid collection name "${name}": use lowercase letters, digits and underscores, starting with a letter (max 48 characters)`
+    );
+  }
+}
+
+// Explicit name first, then the conversation's collection, then the default collection
+export function resolveCollectionName(name?: string, runtimeContext?: any): string {
+  return name || runtimeContext?.get?.(COLLECTION_CONTEXT_KEY) || DEFAULT_COLLECTION;
+}
+
+// Embedding provider a collection was created with, shared across calls
+export function getCollectionEmbeddingProvider(collection: Collection): EmbeddingProvider {
+  if (collection.name === DEFAULT_COLLECTION) {
+    return getEmbeddingProvider();
+  }
+
+  const key = JSON.stringify(collection.embedding);
+  if (!embeddingProviders.has(key)) {
+    embeddingProviders.set(key, createEmbeddingProvider({
+      ...collection.embedding,
+      apiKey: process.env.EMBEDDING_API_KEY,
+    }));
+  }
+  return embeddingProviders.get(key)!;
+}
+
+async function findCollection(vectorStore: any, name: string): Promise<Collection | null> {
+  if (name === DEFAULT_COLLECTION) {
+    return getDefaultCollection();
+  }
+
+  const sql = getSqlClient(vectorStore);
+  if (!sql) {
+    return getInMemoryRegistry(vectorStore).get(name) || null;
+  }
+
+  await ensureRegistrySchema(vectorStore, sql);
+  const [row] = await sql.query(`SELECT * FROM knowledge_collections WHERE name = ?`, [name]);
+  return row ? toCollection(row) : null;
+}
+
+export async function getCollection(vectorStore: any, name: string): Promise<Collection> {
+  const collection = await findCollection(vectorStore, name);
+  if (!collection) {
+    throw new Error(`Collection "${name}" does not exist. Use listCollections to see the available collections`);
+  }
+  return collection;
+}
+
+// The default collection first, then the others by name
+export async function listCollections(vectorStore: any): Promise<Collection[]> {
+  const sql = getSqlClient(vectorStore);
+  let collections: Collection[];
+
+  if (!sql) {
+    collections = Array.from(getInMemoryRegistry(vectorStore).values());
+  } else {
+    await ensureRegistrySchema(vectorStore, sql);
+    collections = (await sql.query(`SELECT * FROM knowledge_collections`)).map(toCollection);
+  }
+
+  return [getDefaultCollection(), ...collections.sort((a, b) => a.name.localeCompare(b.name))];
+}
+
+export async function createCollection(vectorStore: any, options: CreateCollectionOptions): Promise<Collection> {
+  const { name, description } = options;
+  assertCollectionName(name);
+  if (await findCollection(vectorStore, name)) {
+    throw new Error(`Collection "${name}" already exists`);
+  }
+
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const overlap = options.overlap ?? DEFAULT_OVERLAP;
+  if (chunkSize <= 0 || overlap < 0 || overlap >= chunkSize) {
+    throw new Error(`Invalid chunking defaults: chunkSize ${chunkSize}, overlap ${overlap}`);
+  }
+
+  const collection: Collection = {
+    name,
+    indexName: `collection_${name}`,
+    ...(description ? { description } : {}),
+    embedding: resolveEmbeddingConfig(options.embedding),
+    chunkSize,
+    overlap,
+  };
+
+  // Creating the index first also checks the embedding model is reachable
+  await ensureEmbeddingIndex(vectorStore, collection.indexName, getCollectionEmbeddingProvider(collection));
+
+  const sql = getSqlClient(vectorStore);
+  if (!sql) {
+    const created = { ...collection, createdAt: new Date().toISOString() };
+    getInMemoryRegistry(vectorStore).set(name, created);
+    return created;
+  }
+
+  await ensureRegistrySchema(vectorStore, sql);
+  await sql.query(
+    `INSERT INTO knowledge_collections
+       (name, index_name, description, embedding_provider, embedding_model, embedding_dimension, embedding_base_url, chunk_size, overlap)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      name,
+      collection.indexName,
+      description || null,
+      collection.embedding.provider,
+      collection.embedding.model,
+      collection.embedding.dimension || null,
+      collection.embedding.baseUrl || null,
+      chunkSize,
+      overlap,
+    ]
+  );
+  return getCollection(vectorStore, name);
+}
+
+// For ingestion: collections are created on first use with the default settings,
+// so a per-user collection does not need to be set up in advance
+export async function ensureCollection(vectorStore: any, name: string): Promise<Collection> {
+  const existing = await findCollection(vectorStore, name);
+  if (existing) return existing;
+
+  try {
+    const created = await createCollection(vectorStore, { name });
+    console.log(`🗂️ Created collection "${name}"`);
+    return created;
+  } catch (error) {
+    // Another writer may have created it in the meantime
+    const concurrent = await findCollection(vectorStore, name);
+    if (concurrent) return concurrent;
+    throw error;
+  }
+}
+
+// Delete a collection with its index, chunks, entity graph, sync state and quarantine.
+// Returns the number of chunks that were stored in it.
+export async function dropCollection(vectorStore: any, name: string): Promise<number> {
+  if (name === DEFAULT_COLLECTION) {
+    throw new Error("The default collection cannot be dropped; delete its documents with deleteDocuments instead");
+  }
+
+  const { indexName } = await getCollection(vectorStore, name);
+  const chunkIds = (await scanChunks(vectorStore, indexName)).map(chunk => chunk.id);
+
+  await removeEntityGraphChunks(vectorStore, indexName, chunkIds);
+  await removeManifestChunks(vectorStore, indexName, chunkIds);
+  for (const file of await getSourceFiles(vectorStore, indexName)) {
+    await removeSourceFile(vectorStore, indexName, file.source);
+  }
+
+  const indexes: string[] = await vectorStore.listIndexes();
+  if (indexes.includes(indexName)) {
+    await vectorStore.deleteIndex({ indexName });
+  }
+  forgetTextSearchIndex(vectorStore, indexName);
+  await removeIndexCatalogEntry(vectorStore, indexName);
+  await dropQuarantine(vectorStore, indexName);
+
+  const sql = getSqlClient(vectorStore);
+  if (!sql) {
+    getInMemoryRegistry(vectorStore).delete(name);
+  } else {
+    await ensureRegistrySchema(vectorStore, sql);
+    await sql.query(`DELETE FROM knowledge_collections WHERE name = ?`, [name]);
+  }
+
+  return chunkIds.length;
+}
@@ -0,0 +1,190 @@
+import { z } from "zod";
+import type { SourceRecord } from "./citations.js";
+import { countTokens, DEFAULT_CONTEXT_MODEL, truncateToTokens } from "./tokens.js";
+
+// Context assembly: which retrieved chunks go into the prompt, and in what order.
+// Chunks are picked with Maximal Marginal Relevance, so a near-copy of a chunk already
+// picked loses to a less relevant chunk that adds something, until the token budget of
+// the target model is spent. The picked passages are then grouped by source and put in
+// document order, so neighbouring chunks of a document read as one passage.
+
+export const contextExclusionReasons = ["empty", "near-duplicate", "token-budget"] as const;
+
+export const contextExclusionSchema = z.object({
+  citation: z.number(),
+  citationId: z.string(),
+  source: z.string(),
+  reason: z.enum(contextExclusionReasons),
+  detail: z.string().describe("Which passage it duplicates, or how many tokens it needed"),
+});
+
+export type ContextExclusion = z.infer<typeof contextExclusionSchema>;
+
+export interface AssembleContextOptions {
+  tokenBudget?: number;
+  // Model whose tokenizer counts the budget
+  model?: string;
+  // MMR trade-off: 1 ranks by relevance alone, 0 by novelty alone
+  lambda?: number;
+  // Term similarity above which a chunk counts as a copy of one already picked
+  duplicateThreshold?: number;
+}
+
+export interface AssembledContext {
+  context: string;
+  // Citations in context order; truncated is the one cut to fit the budget
+  included: number[];
+  truncated?: number;
+  excluded: ContextExclusion[];
+  tokensUsed: number;
+  tokenBudget: number;
+}
+
+export const DEFAULT_TOKEN_BUDGET = Number(process.env.CONTEXT_TOKEN_BUDGET) || 1500;
+
+const MMR_LAMBDA = process.env.CONTEXT_MMR_LAMBDA ? Number(process.env.CONTEXT_MMR_LAMBDA) : 0.7;
+
+const PASSAGE_SEPARATOR = "\n\n";
+
+// Each passage carries its citation number so answers can cite it as [n]
+export function formatPassage(source: SourceRecord, text = source.text): string {
+  return `[${source.citation}]${source.quarantined ? " (unreviewed web result)" : ""} ${text}`;
+}
+
+function termVector(text: string): Map<string, number> {
+  const vector = new Map<string, number>();
+  for (const term of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []) {
+    vector.set(term, (vector.get(term) || 0) + 1);
+  }
+  return vector;
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (const [term, count] of a) {
+    normA += count * count;
+    dot += count * (b.get(term) || 0);
+  }
+  for (const count of b.values()) normB += count * count;
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+const sourceGroupKey = (source: SourceRecord) => `${source.collection || ""}\u0000${source.source}`;
+
+// Selected passages grouped by source, groups in the order they were first picked,
+// chunks of a group by their position in the document
+function orderBySource(selected: SourceRecord[]): SourceRecord[] {
+  const groups = new Map<string, SourceRecord[]>();
+  for (const source of selected) {
+    const key = sourceGroupKey(source);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(source);
+  }
+  return Array.from(groups.values()).flatMap(group =>
+    group
+      .map((source, pick) => ({ source, pick }))
+      .sort((a, b) =>
+        (a.source.startOffset ?? Infinity) - (b.source.startOffset ?? Infinity) || a.pick - b.pick
+      )
+      .map(({ source }) => source)
+  );
+}
+
+// Pack ranked source records into a context of at most tokenBudget tokens
+export async function assembleContext(
+  sources: SourceRecord[],
+  {
+    tokenBudget = DEFAULT_TOKEN_BUDGET,
+    model = DEFAULT_CONTEXT_MODEL,
+    lambda = MMR_LAMBDA,
+    duplicateThreshold = 0.9,
+  }: AssembleContextOptions = {}
+): Promise<AssembledContext> {
+  const excluded: ContextExclusion[] = [];
+  const exclude = (source: SourceRecord, reason: ContextExclusion["reason"], detail: string) => {
+    excluded.push({ citation: source.citation, citationId: source.citationId, source: source.source, reason, detail });
+  };
+
+  const candidates = sources.filter(source => {
+    if (source.text.trim()) return true;
+    exclude(source, "empty", "The chunk has no text");
+    return false;
+  });
+
+  // Relevance is the rank score scaled to [0, 1], as rerankers and fusion use different scales
+  const scores = candidates.map(source => source.score || 0);
+  const maxScore = Math.max(...scores);
+  const minScore = Math.min(...scores);
+  const relevance = new Map(candidates.map((source, i) =>
+    [source, maxScore > minScore ? (scores[i] - minScore) / (maxScore - minScore) : 1]
+  ));
+  const vectors = new Map(candidates.map(source => [source, termVector(source.text)]));
+
+  const separatorTokens = await countTokens(PASSAGE_SEPARATOR, model);
+  const selected: SourceRecord[] = [];
+  const similarity = new Map<SourceRecord, { score: number; to?: SourceRecord }>(
+    candidates.map(source => [source, { score: 0 }])
+  );
+  let remaining = [...candidates];
+  let tokensUsed = 0;
+  let truncated: SourceRecord | undefined;
+
+  while (remaining.length > 0) {
+    // The candidate with the best trade-off between relevance and novelty; ties keep rank order
+    let best = remaining[0];
+    let bestScore = -Infinity;
+    for (const candidate of remaining) {
+      const score = lambda * relevance.get(candidate)! - (1 - lambda) * similarity.get(candidate)!.score;
+      if (score > bestScore) {
+        best = candidate;
+        bestScore = score;
+      }
+    }
+    remaining = remaining.filter(candidate => candidate !== best);
+
+    const closest = similarity.get(best)!;
+    if (closest.to && closest.score >= duplicateThreshold) {
+      exclude(best, "near-duplicate", `${Math.round(closest.score * 100)}% the same terms as [${closest.to.citation}]`);
+      continue;
+    }
+
+    const cost = (await countTokens(formatPassage(best), model)) + (selected.length > 0 ? separatorTokens : 0);
+    if (tokensUsed + cost > tokenBudget) {
+      // A first passage larger than the whole budget is cut rather than leaving the context empty
+      if (selected.length === 0 && !truncated) {
+        const prefixTokens = await countTokens(formatPassage(best, ""), model);
+        const text = await truncateToTokens(best.text, tokenBudget - prefixTokens - 1, model);
+        if (text.trim()) {
+          truncated = { ...best, text: `${text}...` };
+          selected.push(truncated);
+          tokensUsed = await countTokens(formatPassage(truncated), model);
+          continue;
+        }
+      }
+      exclude(best, "token-budget", `Needs ${cost} tokens, ${Math.max(0, tokenBudget - tokensUsed)} of ${tokenBudget} left`);
+      continue;
+    }
+
+    selected.push(best);
+    tokensUsed += cost;
+    const vector = vectors.get(best)!;
+    for (const candidate of remaining) {
+      const score = cosine(vectors.get(candidate)!, vector);
+      if (score > similarity.get(candidate)!.score) similarity.set(candidate, { score, to: best });
+    }
+  }
+
+  const ordered = orderBySource(selected);
+  const context = ordered.map(source => formatPassage(source)).join(PASSAGE_SEPARATOR);
+
+  return {
+    context,
+    included: ordered.map(source => source.citation),
+    ...(truncated ? { truncated: truncated.citation } : {}),
+    excluded: excluded.sort((a, b) => a.citation - b.citation),
+    tokensUsed: context ? await countTokens(context, model) : 0,
+    tokenBudget,
+  };
+}
@@ -0,0 +1,184 @@
+import { loadChunks, type StoredChunk } from "./chunk-store.js";
+import { getSourceKey } from "./knowledge-base.js";
+import { getSourceManifest } from "./source-manifest.js";
+
+// Small-to-big retrieval. Small chunks match precisely but carry little context: a hit
+// in the middle of a procedure is half a step. Matching stays on the chunks, and each
+// hit is then widened to its neighbouring chunks or to the section it came from, using
+// the source manifest for document order. Hits whose windows overlap or touch are merged
+// into one passage, which keeps the id, score and rank of the best of them.
+
+export const contextExpansionModes = ["none", "neighbors", "section"] as const;
+
+export type ContextExpansionMode = (typeof contextExpansionModes)[number];
+
+interface ExpandOptions {
+  mode?: string;
+  // Chunks added on each side of a hit in neighbors mode
+  neighbors?: number;
+  // Sections longer than this are cut to a window of this many chunks around the hit
+  maxSectionChunks?: number;
+}
+
+interface Window {
+  start: number;
+  end: number;
+  // Rank of each hit in the window
+  hits: number[];
+}
+
+const MAX_SECTION_CHUNKS = Number(process.env.SECTION_MAX_CHUNKS) || 8;
+
+// How much of b's start repeats a's end, for chunks stored without offsets
+function overlapLength(a: string, b: string, max = 200): number {
+  for (let length = Math.min(max, a.length, b.length); length > 0; length--) {
+    if (a.endsWith(b.slice(0, length))) return length;
+  }
+  return 0;
+}
+
+// Chunk texts in document order as one passage; chunker overlap is only kept once
+function joinChunkTexts(chunks: StoredChunk[]): string {
+  let text = "";
+  let end: number | undefined;
+
+  for (const { metadata } of chunks) {
+    const chunkText: string = metadata.text || "";
+    if (!text) {
+      text = chunkText;
+    } else if (end !== undefined && typeof metadata.startOffset === "number") {
+      text += metadata.startOffset < end
+        ? chunkText.slice(Math.min(end - metadata.startOffset, chunkText.length))
+        : `\n\n${chunkText}`;
+    } else {
+      const overlap = overlapLength(text, chunkText);
+      text += overlap > 0 ? chunkText.slice(overlap) : `\n\n${chunkText}`;
+    }
+    end = typeof metadata.endOffset === "number" ? Math.max(end ?? 0, metadata.endOffset) : undefined;
+  }
+  return text;
+}
+
+// The chunks of the hit's parent section, at most maxChunks of them, growing alternately
+// after and before the hit
+function sectionWindow(positions: (StoredChunk | undefined)[], position: number, maxChunks: number): [number, number] {
+  const parentSection = positions[position]?.metadata.parentSection;
+  const inSection = (i: number) => positions[i]?.metadata.parentSection === parentSection;
+  let start = position;
+  let end = position;
+
+  let grew = true;
+  while (grew && end - start + 1 < maxChunks) {
+    grew = false;
+    if (inSection(end + 1)) {
+      end++;
+      grew = true;
+    }
+    if (end - start + 1 < maxChunks && inSection(start - 1)) {
+      start--;
+      grew = true;
+    }
+  }
+  return [start, end];
+}
+
+// Widen ranked results to the chunks around them. Results of the same source are
+// expanded together; results without a manifest entry are returned unchanged.
+export async function expandResults(
+  vectorStore: any,
+  results: any[],
+  // Index a result was retrieved from
+  getIndexName: (result: any) => string,
+  { mode = process.env.CONTEXT_EXPANSION || "none", neighbors = 1, maxSectionChunks = MAX_SECTION_CHUNKS }: ExpandOptions = {}
+): Promise<any[]> {
+  if (!contextExpansionModes.includes(mode as ContextExpansionMode)) {
+    throw new Error(`Unknown context expansion "${mode}". Use one of: ${contextExpansionModes.join(", ")}`);
+  }
+  if (mode === "none" || results.length === 0) return results;
+
+  const groups = new Map<string, { indexName: string; source: string; ranks: number[] }>();
+  results.forEach((result, rank) => {
+    const indexName = getIndexName(result);
+    const source = getSourceKey(result.metadata || {});
+    const key = `${indexName}\u0000${source}`;
+    if (!groups.has(key)) groups.set(key, { indexName, source, ranks: [] });
+    groups.get(key)!.ranks.push(rank);
+  });
+
+  // Expanded results by the rank of the hit they replace; other merged hits are dropped
+  const replaced = new Map<number, any | null>();
+  const radius = mode === "section" ? Math.max(0, maxSectionChunks - 1) : neighbors;
+
+  for (const { indexName, source, ranks } of groups.values()) {
+    const manifest = (await getSourceManifest(vectorStore, indexName, source))
+      .sort((a, b) => a.ordinal - b.ordinal);
+    const positionOf = new Map(manifest.map((chunk, position) => [chunk.chunkId, position]));
+    const hits = ranks
+      .map(rank => ({ rank, position: positionOf.get(String(results[rank].metadata?.id ?? results[rank].id)) }))
+      .filter((hit): hit is { rank: number; position: number } => hit.position !== undefined);
+    if (hits.length === 0) continue;
+
+    const needed = new Set<string>();
+    for (const { position } of hits) {
+      for (let i = Math.max(0, position - radius); i <= Math.min(manifest.length - 1, position + radius); i++) {
+        needed.add(manifest[i].chunkId);
+      }
+    }
+    const loaded = new Map((await loadChunks(vectorStore, indexName, Array.from(needed))).map(chunk => [chunk.id, chunk]));
+    const positions = manifest.map(chunk => loaded.get(chunk.chunkId));
+
+    const windows: Window[] = hits
+      .map(({ rank, position }) => {
+        const [start, end] = mode === "section" && positions[position]?.metadata.parentSection !== undefined
+          ? sectionWindow(positions, position, maxSectionChunks)
+          : [Math.max(0, position - neighbors), Math.min(manifest.length - 1, position + neighbors)];
+        return { start, end, hits: [rank] };
+      })
+      .sort((a, b) => a.start - b.start);
+
+    // Windows that overlap or touch read as one passage
+    const merged: Window[] = [];
+    for (const window of windows) {
+      const last = merged[merged.length - 1];
+      if (last && window.start <= last.end + 1) {
+        last.end = Math.max(last.end, window.end);
+        last.hits.push(...window.hits);
+      } else {
+        merged.push({ ...window, hits: [...window.hits] });
+      }
+    }
+
+    for (const window of merged) {
+      const chunks = positions.slice(window.start, window.end + 1).filter((chunk): chunk is StoredChunk => Boolean(chunk));
+      if (chunks.length === 0) continue;
+      const [best, ...others] = window.hits.sort((a, b) => a - b);
+      const result = results[best];
+      const first = chunks[0]?.metadata || {};
+      const last = chunks[chunks.length - 1]?.metadata || {};
+
+      replaced.set(best, {
+        ...result,
+        metadata: {
+          ...result.metadata,
+          text: joinChunkTexts(chunks),
+          ...(typeof first.startOffset === "number" && typeof last.endOffset === "number"
+            ? { startOffset: first.startOffset, endOffset: Math.max(...chunks.map(chunk => chunk.metadata.endOffset ?? 0)) }
+            : {}),
+          ...(typeof first.startLine === "number" && typeof last.endLine === "number"
+            ? { startLine: first.startLine, endLine: last.endLine }
+            : {}),
+          expansion: {
+            mode,
+            chunkIds: chunks.map(chunk => chunk.id),
+            matchedChunkIds: [best, ...others].map(rank => String(results[rank].metadata?.id ?? results[rank].id)),
+          },
+        },
+      });
+      others.forEach(rank => replaced.set(rank, null));
+    }
+  }
+
+  return results
+    .map((result, rank) => (replaced.has(rank) ? replaced.get(rank) : result))
+    .filter(result => result !== null);
+}
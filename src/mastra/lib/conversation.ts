@@ -0,0 +1,139 @@
+import { generateObject } from "ai";
+import { openai } from "@ai-sdk/openai";
+import type { MastraMemory } from "@mastra/core/memory";
+import { z } from "zod";
+import { getSourceKey } from "./knowledge-base.js";
+
+// Follow-up questions lean on earlier turns ("what about its population then?"). The
+// thread a search belongs to is read from the agent's memory and condensed with the
+// follow-up into a standalone retrieval query, and sources the assistant already cited
+// in the thread are boosted, so a conversation keeps drawing on the same documents.
+
+export interface ConversationTurn {
+  role: "user" | "assistant";
+  text: string;
+}
+
+export interface Conversation {
+  turns: ConversationTurn[];
+  // Sources the assistant cited with [n] after an enhancedVectorRag call, as citedSourceKey()
+  citedSources: Set<string>;
+}
+
+const HISTORY_MESSAGES = Number(process.env.CONVERSATION_HISTORY_MESSAGES) || 10;
+
+// Long turns (answers, pasted passages) are cut; their start carries the subject
+const MAX_TURN_LENGTH = 600;
+
+const CITED_SOURCE_BOOST = process.env.CITED_SOURCE_BOOST ? Number(process.env.CITED_SOURCE_BOOST) : 0.1;
+
+const citationMarkerPattern = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+// A line of the Sources list composed answers end with, "[n] source (..., citation <id>)"
+const sourceLinePattern = /^\[\d+\] .*\bcitation ([0-9a-f]+)\)$/gm;
+
+export function citedSourceKey(collection: string | undefined, source: string): string {
+  return `${collection || ""}\u0000${source}`;
+}
+
+function messageText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .filter((part: any) => part?.type === "text")
+    .map((part: any) => part.text)
+    .join("\n");
+}
+
+// The last messages of a thread as text turns, and the sources its answers cited.
+// Composed answers name the citation id of every cited source; in other answers the
+// citation numbers refer to the latest search before the answer.
+export async function loadConversation(
+  memory: MastraMemory,
+  { threadId, resourceId, lastMessages = HISTORY_MESSAGES }: { threadId: string; resourceId?: string; lastMessages?: number }
+): Promise<Conversation> {
+  // The first message of a conversation is searched before its thread is saved
+  if (!(await memory.getThreadById({ threadId }))) {
+    return { turns: [], citedSources: new Set() };
+  }
+  const { messages } = await memory.query({ threadId, resourceId, selectBy: { last: lastMessages } });
+
+  const turns: ConversationTurn[] = [];
+  const citedSources = new Set<string>();
+  let searchCitations = new Map<number, string>();
+  const searchedSources = new Map<string, string>();
+
+  for (const message of messages as any[]) {
+    if (message.role === "tool") {
+      for (const part of Array.isArray(message.content) ? message.content : []) {
+        if (part?.type !== "tool-result" || part.toolName !== "enhancedVectorRag") continue;
+        const sources: any[] = part.result?.sources || [];
+        searchCitations = new Map(sources.map(source => [source.citation, citedSourceKey(source.collection, source.source)]));
+        sources.forEach(source => searchedSources.set(source.citationId, citedSourceKey(source.collection, source.source)));
+      }
+      continue;
+    }
+
+    const text = messageText(message.content).trim();
+    const citationIds = message.role === "assistant" ? Array.from(text.matchAll(sourceLinePattern), match => match[1]) : [];
+    for (const citationId of citationIds) {
+      const key = searchedSources.get(citationId);
+      if (key) citedSources.add(key);
+    }
+    if (message.role === "assistant" && citationIds.length === 0) {
+      for (const [, numbers] of text.matchAll(citationMarkerPattern)) {
+        numbers.split(",").forEach(number => {
+          const key = searchCitations.get(Number(number));
+          if (key) citedSources.add(key);
+        });
+      }
+    }
+    if (text && (message.role === "user" || message.role === "assistant")) {
+      turns.push({ role: message.role, text: text.length > MAX_TURN_LENGTH ? `${text.slice(0, MAX_TURN_LENGTH)}...` : text });
+    }
+  }
+
+  return { turns, citedSources };
+}
+
+// Rewrite a follow-up into a query that can be searched without the conversation.
+// Without history, or when the model fails, the query is returned as is.
+export async function condenseQuery(
+  turns: ConversationTurn[],
+  query: string,
+  modelName = process.env.CONDENSE_QUERY_MODEL || "gpt-4o-mini"
+): Promise<string> {
+  if (turns.length === 0) return query;
+
+  try {
+    const history = turns.map(turn => `${turn.role === "user" ? "User" : "Assistant"}: ${turn.text}`).join("\n\n");
+    const { object } = await generateObject({
+      model: openai(modelName),
+      schema: z.object({ query: z.string().describe("The standalone search query") }),
+      prompt: `Given the conversation and the follow-up below, write one standalone search query for a document knowledge base that asks what the follow-up asks. Replace pronouns and references such as "it", "that one" or "the second option" with what they refer to in the conversation. Keep every name, identifier and number. If the follow-up already stands on its own, return it unchanged. Do not answer it.
+
+Conversation:
+${history}
+
+Follow-up: ${query}`,
+    });
+    return object.query.trim() || query;
+  } catch (error) {
+    console.warn("Query condensation failed, searching the query as given:", error instanceof Error ? error.message : error);
+    return query;
+  }
+}
+
+// Raise results from sources cited earlier in the thread by CITED_SOURCE_BOOST (on
+// reranked, [0, 1] scores) and mark them with metadata.citedEarlier
+export function boostCitedSources(results: any[], citedSources: Set<string>, boost = CITED_SOURCE_BOOST): any[] {
+  if (citedSources.size === 0 || boost === 0) return results;
+
+  return results
+    .map((result: any) => {
+      const collection = result.collection ?? result.metadata?.collection;
+      if (!citedSources.has(citedSourceKey(collection, getSourceKey(result.metadata || {})))) return result;
+      return { ...result, score: (result.score || 0) + boost, metadata: { ...result.metadata, citedEarlier: true } };
+    })
+    .sort((a: any, b: any) => (b.score || 0) - (a.score || 0));
+}
@@ -0,0 +1,222 @@
+// Batch ingestion of directory trees with incremental sync.
+// Files are skipped when size and mtime match the last sync, or when their
+// content hash does; changed files go through idempotent source ingestion, and
+// files that disappeared from disk have their chunks deleted.
+// One failing file is reported and does not stop the batch.
+
+import * as fs from "fs";
+import * as path from "path";
+import fg from "fast-glob";
+import ignore, { type Ignore } from "ignore";
+import { chunkDocument, getSupportedExtensions } from "./documents.js";
+import type { EmbeddingProvider } from "./embeddings.js";
+import { hashContent, ingestSource } from "./ingestion.js";
+import { getSourceFiles, recordSourceFile, removeSourceFile, type SourceFileState } from "./source-manifest.js";
+
+export interface DirectorySyncOptions {
+  roots: string[];
+  // Globs relative to each root; defaults to every supported file type
+  include?: string[];
+  exclude?: string[];
+  respectGitignore?: boolean;
+  chunkSize?: number;
+  overlap?: number;
+  indexName?: string;
+  embeddingProvider?: EmbeddingProvider;
+}
+
+export type FileSyncStatus = "added" | "updated" | "unchanged" | "removed" | "failed";
+
+export interface FileSyncReport {
+  path: string;
+  status: FileSyncStatus;
+  chunks: { added: number; updated: number; unchanged: number; removed: number };
+  error?: string;
+}
+
+export interface DirectorySyncReport {
+  files: FileSyncReport[];
+  summary: Record<FileSyncStatus, number>;
+}
+
+// Never worth indexing, regardless of .gitignore
+const alwaysExcluded = ["**/node_modules/**", "**/.git/**"];
+
+const noChunks = { added: 0, updated: 0, unchanged: 0, removed: 0 };
+
+export function getDefaultIncludes(): string[] {
+  return [`**/*.{${getSupportedExtensions().map(extension => extension.slice(1)).join(",")}}`];
+}
+
+// Nested .gitignore files apply to the directory they live in
+async function loadGitignores(root: string): Promise<Array<{ dir: string; rules: Ignore }>> {
+  const files = await fg("**/.gitignore", { cwd: root, absolute: true, dot: true, ignore: alwaysExcluded });
+  return Promise.all(files.map(async file => ({
+    dir: path.dirname(file),
+    rules: ignore().add(await fs.promises.readFile(file, "utf-8")),
+  })));
+}
+
+function isGitignored(filePath: string, gitignores: Array<{ dir: string; rules: Ignore }>): boolean {
+  return gitignores.some(({ dir, rules }) => {
+    const relative = path.relative(dir, filePath);
+    return !relative.startsWith("..") && !path.isAbsolute(relative) && rules.ignores(relative.split(path.sep).join("/"));
+  });
+}
+
+// Absolute paths of the files to ingest under every root
+export async function discoverFiles({
+  roots,
+  include = getDefaultIncludes(),
+  exclude = [],
+  respectGitignore = true,
+}: DirectorySyncOptions): Promise<string[]> {
+  const files = new Set<string>();
+
+  for (const root of roots.map(root => path.resolve(root))) {
+    const stat = await fs.promises.stat(root);
+    if (stat.isFile()) {
+      files.add(root);
+      continue;
+    }
+
+    const gitignores = respectGitignore ? await loadGitignores(root) : [];
+    const matches = await fg(include, {
+      cwd: root,
+      absolute: true,
+      onlyFiles: true,
+      dot: false,
+      ignore: [...alwaysExcluded, ...exclude],
+    });
+
+    matches
+      .map(match => path.resolve(match))
+      .filter(match => !isGitignored(match, gitignores))
+      .forEach(match => files.add(match));
+  }
+
+  return Array.from(files).sort();
+}
+
+// Previously synced files under the roots that no longer exist on disk
+export async function findMissingFiles(vectorStore: any, { roots, indexName = "embeddings" }: DirectorySyncOptions): Promise<string[]> {
+  const missing = new Set<string>();
+
+  for (const root of roots.map(root => path.resolve(root))) {
+    for (const state of await getSourceFiles(vectorStore, indexName, root)) {
+      if (state.source !== root && !state.source.startsWith(root + path.sep)) continue;
+      if (!fs.existsSync(state.source)) missing.add(state.source);
+    }
+  }
+
+  return Array.from(missing).sort();
+}
+
+// Last synced state of every file under the roots
+export async function getSyncedFiles(
+  vectorStore: any,
+  { roots, indexName = "embeddings" }: DirectorySyncOptions
+): Promise<Map<string, SourceFileState>> {
+  const states = new Map<string, SourceFileState>();
+  for (const root of roots.map(root => path.resolve(root))) {
+    (await getSourceFiles(vectorStore, indexName, root)).forEach(state => states.set(state.source, state));
+  }
+  return states;
+}
+
+export async function syncFile(
+  vectorStore: any,
+  filePath: string,
+  previous: SourceFileState | undefined,
+  { chunkSize = 512, overlap = 50, indexName = "embeddings", embeddingProvider }: Omit<DirectorySyncOptions, "roots">
+): Promise<FileSyncReport> {
+  try {
+    const stat = await fs.promises.stat(filePath);
+    if (previous && previous.size === stat.size && previous.mtimeMs === stat.mtimeMs) {
+      return { path: filePath, status: "unchanged", chunks: noChunks };
+    }
+
+    const content = await fs.promises.readFile(filePath);
+    const contentHash = hashContent(content);
+    const state = { source: filePath, size: stat.size, mtimeMs: stat.mtimeMs, contentHash };
+
+    // Touched but not edited: remember the new mtime and move on
+    if (previous && previous.contentHash === contentHash) {
+      await recordSourceFile(vectorStore, indexName, state);
+      return { path: filePath, status: "unchanged", chunks: noChunks };
+    }
+
+    const document = await chunkDocument(content, { fileName: filePath, chunkSize, overlap });
+    const { added, updated, unchanged, removed } = await ingestSource(vectorStore, {
+      indexName,
+      source: filePath,
+      chunks: document.chunks,
+      embeddingProvider,
+      metadata: {
+        contentType: document.contentType,
+        ...(document.title ? { title: document.title } : {}),
+        chunkSize,
+        overlap,
+        uploadedVia: "directory",
+      },
+    });
+    await recordSourceFile(vectorStore, indexName, state);
+
+    return {
+      path: filePath,
+      status: previous ? "updated" : "added",
+      chunks: { added, updated, unchanged, removed },
+    };
+  } catch (error) {
+    return {
+      path: filePath,
+      status: "failed",
+      chunks: noChunks,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+// Delete every chunk of a file that no longer exists
+export async function removeMissingFile(
+  vectorStore: any,
+  filePath: string,
+  { indexName = "embeddings", embeddingProvider }: Omit<DirectorySyncOptions, "roots"> = {}
+): Promise<FileSyncReport> {
+  try {
+    const { removed } = await ingestSource(vectorStore, { indexName, source: filePath, chunks: [], embeddingProvider });
+    await removeSourceFile(vectorStore, indexName, filePath);
+    return { path: filePath, status: "removed", chunks: { ...noChunks, removed } };
+  } catch (error) {
+    return {
+      path: filePath,
+      status: "failed",
+      chunks: noChunks,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+export function summarizeSync(files: FileSyncReport[]): DirectorySyncReport {
+  const summary: Record<FileSyncStatus, number> = { added: 0, updated: 0, unchanged: 0, removed: 0, failed: 0 };
+  files.forEach(file => summary[file.status]++);
+  return { files, summary };
+}
+
+export async function syncDirectories(vectorStore: any, options: DirectorySyncOptions): Promise<DirectorySyncReport> {
+  const files = await discoverFiles(options);
+  const previous = await getSyncedFiles(vectorStore, options);
+
+  const reports: FileSyncReport[] = [];
+  for (const file of files) {
+    const report = await syncFile(vectorStore, file, previous.get(file), options);
+    console.log(`${report.status === "failed" ? "❌" : "📄"} ${report.status}: ${file}${report.error ? ` (${report.error})` : ""}`);
+    reports.push(report);
+  }
+
+  for (const file of await findMissingFiles(vectorStore, options)) {
+    reports.push(await removeMissingFile(vectorStore, file, options));
+  }
+
+  return summarizeSync(reports);
+}
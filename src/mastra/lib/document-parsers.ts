@@ -0,0 +1,391 @@
+import * as path from "path";
+import { parse as parseCsv } from "csv-parse/sync";
+import { simpleParser } from "mailparser";
+import { parse as parseHtml, type HTMLElement, type Node } from "node-html-parser";
+import { chunkCode, codeLanguageExtensions } from "./code-chunker.js";
+
+// Parser registry: turns raw file bytes into text sections. Each section carries
+// the location metadata citations need (page, sheet rows or section heading).
+
+export interface DocumentSection {
+  text: string;
+  metadata: Record<string, any>;
+}
+
+export interface ParsedDocument {
+  contentType: string;
+  title?: string;
+  sections: DocumentSection[];
+  // Sections are already sized chunks and must not be split further
+  chunked?: boolean;
+  // Text that chunk offsets point into: the file itself for formats whose sections
+  // are verbatim excerpts; defaults to the sections joined by blank lines
+  text?: string;
+}
+
+export interface ParseOptions {
+  chunkSize: number;
+  overlap: number;
+}
+
+export interface DocumentParser {
+  contentType: string;
+  extensions: string[];
+  mimeTypes: string[];
+  // Recognize the format from the first bytes of the file
+  sniff?(head: Buffer): boolean;
+  parse(buffer: Buffer, fileName: string, options: ParseOptions): Promise<ParsedDocument>;
+}
+
+const droppedHtmlTags = new Set([
+  "script", "style", "noscript", "template", "svg", "iframe", "form", "nav", "header", "footer", "aside",
+]);
+
+const blockHtmlTags = new Set([
+  "address", "article", "blockquote", "dd", "div", "dl", "dt", "figcaption", "figure", "li", "main", "ol",
+  "p", "pre", "section", "table", "tbody", "thead", "tr", "ul",
+]);
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/[ \t\f\v ]+/g, " ").replace(/ *\n */g, "\n").trim();
+}
+
+// Group paragraphs under their heading path, e.g. "Install > Linux"
+function buildSections(
+  blocks: Array<{ heading?: { level: number; text: string }; text?: string }>
+): DocumentSection[] {
+  const sections: DocumentSection[] = [];
+  const headings: Array<{ level: number; text: string }> = [];
+  let paragraphs: string[] = [];
+
+  const flush = () => {
+    const text = paragraphs.join("\n\n").trim();
+    if (text) {
+      const section = headings.map(heading => heading.text).join(" > ");
+      sections.push({ text, metadata: section ? { section } : {} });
+    }
+    paragraphs = [];
+  };
+
+  for (const block of blocks) {
+    if (block.heading) {
+      flush();
+      while (headings.length > 0 && headings[headings.length - 1].level >= block.heading.level) {
+        headings.pop();
+      }
+      headings.push(block.heading);
+    } else if (block.text) {
+      paragraphs.push(block.text);
+    }
+  }
+  flush();
+
+  return sections;
+}
+
+// Visible text of an HTML page split at headings; scripts, styles and page chrome are dropped
+export function htmlToSections(html: string): { title?: string; sections: DocumentSection[] } {
+  const root = parseHtml(html, { blockTextElements: { pre: true } });
+  const title = root.querySelector("title")?.text.trim() || undefined;
+  const body = root.querySelector("body") || root;
+
+  const blocks: Array<{ heading?: { level: number; text: string }; text?: string }> = [];
+  let current = "";
+
+  const flush = () => {
+    const text = normalizeWhitespace(current);
+    if (text) blocks.push({ text });
+    current = "";
+  };
+
+  const walk = (node: Node) => {
+    if (node.nodeType === 3) {
+      current += node.text;
+      return;
+    }
+    if (node.nodeType !== 1) return;
+
+    const element = node as HTMLElement;
+    const tag = element.tagName?.toLowerCase() || "";
+    if (droppedHtmlTags.has(tag)) return;
+
+    const heading = /^h([1-6])$/.exec(tag);
+    if (heading) {
+      flush();
+      const text = normalizeWhitespace(element.text);
+      if (text) blocks.push({ heading: { level: Number(heading[1]), text } });
+      return;
+    }
+
+    if (tag === "br") {
+      current += "\n";
+      return;
+    }
+
+    const isBlock = blockHtmlTags.has(tag);
+    if (isBlock) flush();
+    element.childNodes.forEach(walk);
+    if (tag === "td" || tag === "th") current += " ";
+    if (isBlock) flush();
+  };
+
+  walk(body);
+  flush();
+
+  return { title, sections: buildSections(blocks) };
+}
+
+function markdownToSections(markdown: string): DocumentSection[] {
+  const blocks: Array<{ heading?: { level: number; text: string }; text?: string }> = [];
+  let inFence = false;
+  let lines: string[] = [];
+
+  const flush = () => {
+    const text = lines.join("\n").trim();
+    if (text) blocks.push({ text });
+    lines = [];
+  };
+
+  for (const line of markdown.split(/\r?\n/)) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const heading = !inFence && /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line);
+    if (heading) {
+      flush();
+      blocks.push({ heading: { level: heading[1].length, text: heading[2] } });
+    } else {
+      lines.push(line);
+    }
+  }
+  flush();
+
+  return buildSections(blocks);
+}
+
+function singleSection(text: string): DocumentSection[] {
+  return text.trim() ? [{ text, metadata: {} }] : [];
+}
+
+const textParser: DocumentParser = {
+  contentType: "text",
+  extensions: [".txt", ".text", ".log"],
+  mimeTypes: ["text/plain"],
+  parse: async (buffer) => {
+    const text = buffer.toString("utf-8");
+    return { contentType: "text", sections: singleSection(text), text };
+  },
+};
+
+const markdownParser: DocumentParser = {
+  contentType: "markdown",
+  extensions: [".md", ".markdown", ".mdx"],
+  mimeTypes: ["text/markdown"],
+  parse: async (buffer) => {
+    const text = buffer.toString("utf-8").replace(/\r\n/g, "\n");
+    return { contentType: "markdown", sections: markdownToSections(text), text };
+  },
+};
+
+const jsonParser: DocumentParser = {
+  contentType: "json",
+  extensions: [".json"],
+  mimeTypes: ["application/json"],
+  parse: async (buffer) => {
+    const text = buffer.toString("utf-8");
+    return { contentType: "json", sections: singleSection(text), text };
+  },
+};
+
+const htmlParser: DocumentParser = {
+  contentType: "html",
+  extensions: [".html", ".htm", ".xhtml"],
+  mimeTypes: ["text/html", "application/xhtml+xml"],
+  sniff: (head) => /^\s*(<!doctype html|<html[\s>])/i.test(head.toString("utf-8")),
+  parse: async (buffer) => ({ contentType: "html", ...htmlToSections(buffer.toString("utf-8")) }),
+};
+
+const pdfParser: DocumentParser = {
+  contentType: "pdf",
+  extensions: [".pdf"],
+  mimeTypes: ["application/pdf"],
+  sniff: (head) => head.subarray(0, 5).toString("latin1") === "%PDF-",
+  parse: async (buffer) => {
+    const { extractText, getDocumentProxy } = await import("unpdf");
+    const pdf = await getDocumentProxy(new Uint8Array(buffer));
+    const { text } = await extractText(pdf, { mergePages: false });
+
+    return {
+      contentType: "pdf",
+      sections: text
+        .map((pageText, index) => ({ text: normalizeWhitespace(pageText), metadata: { page: index + 1 } }))
+        .filter(section => section.text.length > 0),
+    };
+  },
+};
+
+const docxParser: DocumentParser = {
+  contentType: "docx",
+  extensions: [".docx"],
+  mimeTypes: ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+  // DOCX is a ZIP archive whose first entry is usually [Content_Types].xml or word/
+  sniff: (head) => head.subarray(0, 4).toString("latin1") === "PK\u0003\u0004" && /word\/|\[Content_Types\]/.test(head.toString("latin1")),
+  parse: async (buffer) => {
+    const mammoth = await import("mammoth");
+    const { value } = await mammoth.convertToHtml({ buffer });
+    return { contentType: "docx", ...htmlToSections(value) };
+  },
+};
+
+const csvRowsPerSection = 25;
+
+const csvParser: DocumentParser = {
+  contentType: "csv",
+  extensions: [".csv", ".tsv"],
+  mimeTypes: ["text/csv", "text/tab-separated-values"],
+  parse: async (buffer, fileName) => {
+    const delimiter = path.extname(fileName).toLowerCase() === ".tsv" ? "\t" : ",";
+    const rows: string[][] = parseCsv(buffer, { delimiter, bom: true, skip_empty_lines: true, relax_column_count: true });
+    const [header = [], ...records] = rows;
+    const sheet = path.basename(fileName, path.extname(fileName));
+    const sections: DocumentSection[] = [];
+
+    // Each row is written as "column: value" pairs so a chunk stays readable without the header
+    for (let start = 0; start < records.length; start += csvRowsPerSection) {
+      const batch = records.slice(start, start + csvRowsPerSection);
+      sections.push({
+        text: batch
+          .map(record => record.map((value, column) => `${header[column] || `column ${column + 1}`}: ${value}`).join(", "))
+          .join("\n"),
+        // Row numbers as shown in a spreadsheet, the header being row 1
+        metadata: { sheet, rowStart: start + 2, rowEnd: start + batch.length + 1 },
+      });
+    }
+
+    return { contentType: "csv", sections };
+  },
+};
+
+async function parseEmailMessage(raw: Buffer): Promise<DocumentSection | null> {
+  const mail = await simpleParser(raw);
+  const body = mail.text?.trim() || (mail.html ? htmlToSections(mail.html).sections.map(section => section.text).join("\n\n") : "");
+  if (!body) return null;
+
+  const from = mail.from?.text;
+  const to = Array.isArray(mail.to) ? mail.to.map(address => address.text).join(", ") : mail.to?.text;
+  const date = mail.date?.toISOString();
+  const header = [
+    mail.subject && `Subject: ${mail.subject}`,
+    from && `From: ${from}`,
+    to && `To: ${to}`,
+    date && `Date: ${date}`,
+  ].filter(Boolean).join("\n");
+
+  return {
+    text: `${header}\n\n${body}`,
+    metadata: {
+      section: mail.subject || "(no subject)",
+      ...(from ? { from } : {}),
+      ...(date ? { date } : {}),
+      ...(mail.messageId ? { messageId: mail.messageId } : {}),
+    },
+  };
+}
+
+const emailParser: DocumentParser = {
+  contentType: "email",
+  extensions: [".eml", ".mbox"],
+  mimeTypes: ["message/rfc822", "application/mbox"],
+  sniff: (head) => /^(From \S|(Return-Path|Received|Delivered-To|Message-ID|MIME-Version|From|Subject|Date|To):)/i.test(head.toString("latin1")),
+  parse: async (buffer) => {
+    // mbox files hold many messages, each starting with a "From " separator line
+    const raw = buffer.toString("latin1");
+    const messages = raw.startsWith("From ")
+      ? raw.split(/^From .*\r?\n/m).filter(message => message.trim().length > 0)
+      : [raw];
+
+    const sections: DocumentSection[] = [];
+    for (const [index, message] of messages.entries()) {
+      const section = await parseEmailMessage(Buffer.from(message, "latin1"));
+      if (section) {
+        sections.push(messages.length > 1 ? { ...section, metadata: { ...section.metadata, messageIndex: index + 1 } } : section);
+      }
+    }
+
+    return { contentType: "email", sections };
+  },
+};
+
+// Source files are chunked along declarations rather than by size
+const codeParser: DocumentParser = {
+  contentType: "code",
+  extensions: Object.keys(codeLanguageExtensions),
+  mimeTypes: ["text/javascript", "application/javascript", "application/typescript", "text/x-python", "text/x-go"],
+  parse: async (buffer, fileName, { chunkSize }) => {
+    const text = buffer.toString("utf-8");
+    return {
+      contentType: "code",
+      sections: chunkCode(text, { filePath: fileName, chunkSize }),
+      chunked: true,
+      text,
+    };
+  },
+};
+
+// Later registrations take precedence, so custom parsers can override built-ins
+const parsers: DocumentParser[] = [textParser, markdownParser, jsonParser, htmlParser, pdfParser, docxParser, csvParser, emailParser, codeParser];
+
+export function registerDocumentParser(parser: DocumentParser): void {
+  parsers.unshift(parser);
+}
+
+export function getSupportedExtensions(): string[] {
+  return Array.from(new Set(parsers.flatMap(parser => parser.extensions)));
+}
+
+function looksBinary(head: Buffer): boolean {
+  return head.includes(0);
+}
+
+// Pick a parser: explicit content type, then MIME type, then binary signatures,
+// then file extension, then text-level sniffing; unknown text falls back to plain text
+export function resolveDocumentParser({
+  fileName,
+  buffer,
+  contentType,
+  mimeType,
+}: {
+  fileName: string;
+  buffer: Buffer;
+  contentType?: string;
+  mimeType?: string;
+}): DocumentParser {
+  if (contentType && contentType !== "auto") {
+    const parser = parsers.find(candidate => candidate.contentType === contentType);
+    if (!parser) {
+      throw new Error(`No parser registered for content type "${contentType}"`);
+    }
+    return parser;
+  }
+
+  const mime = mimeType?.split(";")[0].trim().toLowerCase();
+  const byMime = mime && parsers.find(candidate => candidate.mimeTypes.includes(mime));
+  if (byMime) return byMime;
+
+  const head = buffer.subarray(0, 4096);
+  const binary = looksBinary(head);
+  if (binary) {
+    const sniffed = parsers.find(candidate => candidate.sniff?.(head));
+    if (sniffed) return sniffed;
+  }
+
+  const extension = path.extname(fileName).toLowerCase();
+  const byExtension = parsers.find(candidate => candidate.extensions.includes(extension));
+  if (byExtension) return byExtension;
+
+  const sniffed = parsers.find(candidate => candidate.sniff?.(head));
+  if (sniffed) return sniffed;
+
+  if (binary) {
+    throw new Error(`Unsupported binary file: ${fileName}`);
+  }
+  return textParser;
+}
@@ -0,0 +1,104 @@
+import { MDocument } from "@mastra/rag";
+import { resolveDocumentParser } from "./document-parsers.js";
+
+export { getSupportedExtensions, registerDocumentParser } from "./document-parsers.js";
+
+// Turning raw file content into chunks, shared by the upload tools and directory sync.
+// Files are parsed into sections first (pages, sheets, headings) and each section is
+// chunked on its own, so chunks never straddle sections and keep their location metadata.
+// Each chunk records its section as `parentSection`, so retrieval can widen a matched
+// chunk to the section it came from.
+
+export const documentContentTypes = ["text", "markdown", "json", "html", "pdf", "docx", "csv", "email", "code"] as const;
+
+export type DocumentContentType = (typeof documentContentTypes)[number];
+
+export interface DocumentChunk {
+  text: string;
+  metadata: Record<string, any>;
+}
+
+export interface ChunkedDocument {
+  contentType: string;
+  title?: string;
+  chunks: DocumentChunk[];
+}
+
+// Record where each chunk sits in the document text (startOffset inclusive, endOffset
+// exclusive) so citations can point at the exact passage. Chunks are searched in
+// order; chunks that are not verbatim excerpts, such as code chunks that repeat the
+// class signature, fall back to their line range.
+function locateChunks(documentText: string, chunks: DocumentChunk[]): DocumentChunk[] {
+  const lineStarts = [0];
+  for (let i = 0; i < documentText.length; i++) {
+    if (documentText[i] === "\n") lineStarts.push(i + 1);
+  }
+
+  let cursor = 0;
+  return chunks.map(chunk => {
+    let start = documentText.indexOf(chunk.text, cursor);
+    if (start < 0) start = documentText.indexOf(chunk.text);
+    if (start >= 0) {
+      cursor = start + 1;
+      return { text: chunk.text, metadata: { ...chunk.metadata, startOffset: start, endOffset: start + chunk.text.length } };
+    }
+
+    const { startLine, endLine } = chunk.metadata;
+    if (typeof startLine === "number" && typeof endLine === "number" && endLine <= lineStarts.length) {
+      const endOffset = endLine < lineStarts.length ? lineStarts[endLine] - 1 : documentText.length;
+      return { text: chunk.text, metadata: { ...chunk.metadata, startOffset: lineStarts[startLine - 1], endOffset } };
+    }
+    return chunk;
+  });
+}
+
+// Parsers that chunk themselves (code) return one section per chunk; consecutive chunks
+// with the same section label, such as the parts of a long function, share a parent
+function groupChunkSections(chunks: DocumentChunk[]): DocumentChunk[] {
+  let parentSection = -1;
+  return chunks.map((chunk, i) => {
+    if (i === 0 || chunk.metadata.section !== chunks[i - 1].metadata.section) parentSection++;
+    return { text: chunk.text, metadata: { ...chunk.metadata, parentSection } };
+  });
+}
+
+export async function chunkDocument(
+  content: string | Buffer,
+  {
+    fileName,
+    contentType,
+    mimeType,
+    chunkSize = 512,
+    overlap = 50,
+  }: { fileName: string; contentType?: string; mimeType?: string; chunkSize?: number; overlap?: number }
+): Promise<ChunkedDocument> {
+  const buffer = typeof content === "string" ? Buffer.from(content, "utf-8") : content;
+  const parser = resolveDocumentParser({ fileName, buffer, contentType, mimeType });
+  const parsed = await parser.parse(buffer, fileName, { chunkSize, overlap });
+  const documentText = parsed.text ?? parsed.sections.map(section => section.text).join("\n\n");
+  if (parsed.chunked) {
+    return { contentType: parsed.contentType, title: parsed.title, chunks: locateChunks(documentText, groupChunkSections(parsed.sections)) };
+  }
+
+  const chunks: DocumentChunk[] = [];
+  for (const [parentSection, section] of parsed.sections.entries()) {
+    const doc = parsed.contentType === "json"
+      ? MDocument.fromJSON(section.text)
+      : parsed.contentType === "markdown"
+        ? MDocument.fromMarkdown(section.text)
+        : MDocument.fromText(section.text);
+
+    const sectionChunks = await doc.chunk({
+      strategy: "recursive",
+      size: chunkSize,
+      overlap: overlap,
+      separator: "\n",
+    });
+
+    sectionChunks
+      .filter(chunk => chunk.text.trim().length > 0)
+      .forEach(chunk => chunks.push({ text: chunk.text, metadata: { ...section.metadata, parentSection } }));
+  }
+
+  return { contentType: parsed.contentType, title: parsed.title, chunks: locateChunks(documentText, chunks) };
+}
@@ -0,0 +1,143 @@
+import { embedMany } from "ai";
+import { createOpenAI, openai } from "@ai-sdk/openai";
+
+// One embedding provider shared by ingestion, retrieval and the workflow
+export interface EmbeddingProvider {
+  // Recorded in the index catalog, e.g. "openai:text-embedding-3-small", with the
+  // dimension when one is configured: "openai:text-embedding-3-small:512"
+  id: string;
+  provider: EmbeddingProviderName;
+  model: string;
+  getDimension(): Promise<number>;
+  embed(values: string[]): Promise<number[][]>;
+}
+
+export type EmbeddingProviderName = "openai" | "openai-compatible" | "local";
+
+interface EmbeddingProviderConfig {
+  provider?: EmbeddingProviderName;
+  model?: string;
+  dimension?: number;
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+// Output dimensions of well-known models, so no probe request is needed
+const knownDimensions: Record<string, number> = {
+  "text-embedding-3-small": 1536,
+  "text-embedding-3-large": 3072,
+  "text-embedding-ada-002": 1536,
+  "Xenova/all-MiniLM-L6-v2": 384,
+  "Xenova/all-MiniLM-L12-v2": 384,
+  "Xenova/bge-small-en-v1.5": 384,
+  "Xenova/bge-base-en-v1.5": 768,
+  "nomic-ai/nomic-embed-text-v1.5": 768,
+};
+
+const defaultModels: Record<EmbeddingProviderName, string> = {
+  "openai": "text-embedding-3-small",
+  "openai-compatible": "text-embedding-3-small",
+  "local": "Xenova/all-MiniLM-L6-v2",
+};
+
+function createDimensionResolver(model: string, configured: number | undefined, embed: (values: string[]) => Promise<number[][]>) {
+  let dimension = configured || knownDimensions[model];
+  return async () => {
+    if (!dimension) {
+      // Unknown model: embed a probe string once and use its length
+      const [probe] = await embed(["dimension probe"]);
+      dimension = probe.length;
+    }
+    return dimension;
+  };
+}
+
+// The same model at another output dimension produces incompatible vectors
+function createProviderId(provider: EmbeddingProviderName, model: string, dimension?: number): string {
+  return dimension ? `${provider}:${model}:${dimension}` : `${provider}:${model}`;
+}
+
+function createAiSdkProvider(
+  provider: "openai" | "openai-compatible",
+  model: string,
+  { dimension, baseUrl, apiKey }: EmbeddingProviderConfig
+): EmbeddingProvider {
+  if (provider === "openai-compatible" && !baseUrl) {
+    throw new Error("EMBEDDING_BASE_URL is required for the openai-compatible embedding provider");
+  }
+
+  const client = provider === "openai" && !baseUrl && !apiKey
+    ? openai
+    : createOpenAI({ baseURL: baseUrl, apiKey, compatibility: provider === "openai" ? "strict" : "compatible" });
+
+  // Only text-embedding-3 models accept a requested output dimension
+  const embeddingModel = client.embedding(model, dimension && model.startsWith("text-embedding-3") ? { dimensions: dimension } : {});
+
+  const embed = async (values: string[]) => {
+    const { embeddings } = await embedMany({ model: embeddingModel, values });
+    return embeddings;
+  };
+
+  return {
+    id: createProviderId(provider, model, dimension),
+    provider,
+    model,
+    getDimension: createDimensionResolver(model, dimension, embed),
+    embed,
+  };
+}
+
+// Fully offline CPU embeddings through transformers.js (ONNX runtime)
+function createLocalProvider(model: string, { dimension }: EmbeddingProviderConfig): EmbeddingProvider {
+  let extractor: Promise<any> | null = null;
+
+  const embed = async (values: string[]) => {
+    if (values.length === 0) return [];
+    if (!extractor) {
+      extractor = import("@huggingface/transformers").then(({ pipeline }) =>
+        pipeline("feature-extraction", model)
+      );
+    }
+    const output = await (await extractor)(values, { pooling: "mean", normalize: true });
+    return output.tolist() as number[][];
+  };
+
+  return {
+    id: createProviderId("local", model, dimension),
+    provider: "local",
+    model,
+    getDimension: createDimensionResolver(model, dimension, embed),
+    embed,
+  };
+}
+
+export function createEmbeddingProvider(config: EmbeddingProviderConfig = {}): EmbeddingProvider {
+  const provider = config.provider || "openai";
+  const model = config.model || defaultModels[provider];
+
+  switch (provider) {
+    case "openai":
+    case "openai-compatible":
+      return createAiSdkProvider(provider, model, config);
+    case "local":
+      return createLocalProvider(model, config);
+    default:
+      throw new Error(`Unknown embedding provider "${provider}". Use one of: openai, openai-compatible, local`);
+  }
+}
+
+let defaultProvider: EmbeddingProvider | null = null;
+
+// Resolve the provider configured with EMBEDDING_* environment variables
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!defaultProvider) {
+    defaultProvider = createEmbeddingProvider({
+      provider: process.env.EMBEDDING_PROVIDER as EmbeddingProviderName | undefined,
+      model: process.env.EMBEDDING_MODEL,
+      dimension: process.env.EMBEDDING_DIMENSION ? Number(process.env.EMBEDDING_DIMENSION) : undefined,
+      baseUrl: process.env.EMBEDDING_BASE_URL,
+      apiKey: process.env.EMBEDDING_API_KEY,
+    });
+  }
+  return defaultProvider;
+}
@@ -0,0 +1,181 @@
+import { generateObject } from "ai";
+import { openai } from "@ai-sdk/openai";
+import { z } from "zod";
+
+// Pluggable entity extraction shared by ingestion and query
+export interface EntityExtractor {
+  // Recorded on every stored chunk as `entityExtractor`
+  name: string;
+  extract(text: string): Promise<string[]>;
+}
+
+export type EntityExtractorName = "heuristic" | "rules" | "llm";
+
+// One form for every extractor, the entity graph and reranking: trimmed, lowercase, distinct
+export function normalizeEntities(entities: string[]): string[] {
+  return Array.from(new Set(entities.map(entity => entity.trim().toLowerCase()).filter(Boolean)));
+}
+
+// Words that carry no entity value on their own
+const commonWords = ['the', 'and', 'with', 'that', 'this', 'have', 'from', 'they', 'will', 'would', 'there', 'their', 'what', 'said', 'each', 'which', 'she', 'do', 'how', 'her', 'if', 'will', 'up', 'one', 'about', 'many', 'then', 'them', 'these', 'so', 'some', 'her', 'would', 'make', 'like', 'into', 'him', 'time', 'two', 'more', 'go', 'no', 'way', 'could', 'my', 'than', 'first', 'been', 'call', 'who', 'its', 'now', 'find', 'long', 'down', 'day', 'did', 'get', 'come', 'made', 'may', 'part'];
+
+// Simple entity extraction: lowercase words longer than 3 letters
+export function extractSimpleEntities(text: string): string[] {
+  const entities: string[] = [];
+
+  // Extract potential entities (simple approach)
+  const words = text.toLowerCase().split(/\s+/);
+  const potentialEntities = words.filter(word =>
+    word.length > 3 && /^[a-zA-Z]+$/.test(word)
+  );
+
+  // Remove duplicates and common words
+  potentialEntities.forEach(word => {
+    if (!commonWords.includes(word) && !entities.includes(word)) {
+      entities.push(word);
+    }
+  });
+
+  return entities.slice(0, 10); // Limit to 10 entities
+}
+
+export const heuristicEntityExtractor: EntityExtractor = {
+  name: "heuristic",
+  extract: async (text) => extractSimpleEntities(text),
+};
+
+const months = "January|February|March|April|May|June|July|August|September|October|November|December|Jan|Feb|Mar|Apr|Jun|Jul|Aug|Sep|Sept|Oct|Nov|Dec";
+
+// Ordered by priority: earlier patterns claim their span first
+const entityPatterns: RegExp[] = [
+  // Dates: 2024-03-05, March 5, 2024, 5 March 2024, March 2024
+  /\b\d{4}-\d{2}-\d{2}\b/g,
+  new RegExp(`\\b(?:${months})\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4}\\b`, "g"),
+  new RegExp(`\\b\\d{1,2}(?:st|nd|rd|th)?\\s+(?:${months})\\.?,?\\s+\\d{4}\\b`, "g"),
+  new RegExp(`\\b(?:${months})\\.?\\s+\\d{4}\\b`, "g"),
+  // Acronyms and model-style identifiers: GPT-4o, HTTP, ISO-8601, E404
+  /\b[A-Z]{2,}[a-z]?(?:[-.]?[A-Za-z0-9]+)*\b/g,
+  /\b[A-Za-z]+[-_]?\d+[A-Za-z0-9]*(?:[-.][A-Za-z0-9]+)*\b/g,
+  // Capitalized multi-word phrases: Riverdale Railway Station, Bank of England
+  /\b[A-Z][a-zA-Z'’-]*(?:\s+(?:of|the|de|and|for|&)?\s*[A-Z][a-zA-Z'’-]*)+\b/g,
+  // Single proper nouns: camel-cased names anywhere, capitalized words mid-sentence
+  /\b[A-Z][a-z]+[A-Z][A-Za-z]*\b/g,
+  /(?<=[a-z0-9,;:]\s+)[A-Z][a-z]{2,}\b/g,
+  // Numbers with optional grouping, decimals and percent: 1,200, 2.5, 15%
+  /(?<![\w.])\d{1,3}(?:,\d{3})+(?:\.\d+)?%?(?![\w])|(?<![\w.,])\d+(?:\.\d+)?%?(?![\w,])/g,
+];
+
+const leadingStopWords = /^(?:The|A|An|This|That|These|Those|In|On|At|For|From|By|With|And|But|Or)\s+/;
+
+// Rule-based extraction of proper-noun phrases, identifiers, dates and numbers.
+// Case is only used to find them; they are returned normalized like every extractor's.
+export function extractRuleBasedEntities(text: string, limit = 20): string[] {
+  const claimed: Array<[number, number]> = [];
+  const found: Array<{ start: number; value: string }> = [];
+  const seen = new Set<string>();
+
+  for (const pattern of entityPatterns) {
+    for (const match of text.matchAll(pattern)) {
+      let value = match[0];
+      let start = match.index ?? 0;
+
+      // "The Riverdale Railway Station" -> "Riverdale Railway Station"
+      const stopWord = value.match(leadingStopWords);
+      if (stopWord) {
+        value = value.slice(stopWord[0].length);
+        start += stopWord[0].length;
+        if (!/\s/.test(value) && !/^[A-Z]{2,}/.test(value)) continue;
+      }
+
+      const end = start + value.length;
+      if (claimed.some(([from, to]) => start < to && end > from)) continue;
+
+      const key = value.toLowerCase();
+      if (seen.has(key)) continue;
+
+      claimed.push([start, end]);
+      seen.add(key);
+      found.push({ start, value });
+    }
+  }
+
+  return normalizeEntities(found
+    .sort((a, b) => a.start - b.start)
+    .map(entity => entity.value))
+    .slice(0, limit);
+}
+
+export const ruleBasedEntityExtractor: EntityExtractor = {
+  name: "rules",
+  extract: async (text) => extractRuleBasedEntities(text),
+};
+
+// LLM-backed extraction for named entities the rules cannot see
+export function createLlmEntityExtractor(modelName = process.env.ENTITY_EXTRACTOR_MODEL || "gpt-4o-mini"): EntityExtractor {
+  return {
+    name: `llm:${modelName}`,
+    extract: async (text) => {
+      const { object } = await generateObject({
+        model: openai(modelName),
+        schema: z.object({
+          entities: z.array(z.string()).describe("Distinct named entities, in order of appearance"),
+        }),
+        prompt: `Extract the named entities from the text below: people, organizations, places, products, model and version identifiers, dates, quantities and domain-specific terms. Keep multi-word names together and preserve their original spelling. Return at most 20 entities.
+
+Text:
+${text}`,
+      });
+
+      return normalizeEntities(object.entities).slice(0, 20);
+    },
+  };
+}
+
+let defaultExtractor: EntityExtractor | null = null;
+
+// Resolve the extractor configured with ENTITY_EXTRACTOR (heuristic by default)
+export function getEntityExtractor(name?: string): EntityExtractor {
+  if (!name && defaultExtractor) {
+    return defaultExtractor;
+  }
+
+  const selected = (name || process.env.ENTITY_EXTRACTOR || "heuristic") as EntityExtractorName;
+  let extractor: EntityExtractor;
+  switch (selected) {
+    case "heuristic":
+      extractor = heuristicEntityExtractor;
+      break;
+    case "rules":
+      extractor = ruleBasedEntityExtractor;
+      break;
+    case "llm":
+      extractor = createLlmEntityExtractor();
+      break;
+    default:
+      throw new Error(`Unknown entity extractor "${selected}". Use one of: heuristic, rules, llm`);
+  }
+
+  if (!name) {
+    defaultExtractor = extractor;
+  }
+  return extractor;
+}
+
+// Extract entities for a batch of chunks, a few at a time for remote extractors
+export async function extractChunkEntities(
+  extractor: EntityExtractor,
+  texts: string[],
+  concurrency = 4
+): Promise<string[][]> {
+  const results: string[][] = new Array(texts.length);
+
+  for (let start = 0; start < texts.length; start += concurrency) {
+    const batch = texts.slice(start, start + concurrency);
+    const entities = await Promise.all(batch.map(text => extractor.extract(text)));
+    entities.forEach((chunkEntities, i) => {
+      results[start + i] = chunkEntities;
+    });
+  }
+
+  return results;
+}
@@ -0,0 +1,441 @@
+// Persistent entity graph stored next to the vector index.
+// Nodes are entities, mentions link chunks to the entities they contain and
+// edges carry co-occurrence weights accumulated across every ingestion.
+// SQL-backed stores (Postgres, LibSQL) keep it in tables, the in-memory store
+// keeps it in process.
+
+import { normalizeEntities } from "./entities.js";
+import { getSqlCacheKey, getSqlClient, placeholders, type SqlClient } from "./sql.js";
+
+export interface GraphChunk {
+  id: string;
+  entities: string[];
+}
+
+export interface EntityGraphHop {
+  from: string;
+  to: string;
+  hop: number;
+  weight: number;
+}
+
+export interface EntityGraphTraversal {
+  // Entity name -> hop at which it was first reached (seeds are hop 0)
+  entities: Map<string, number>;
+  path: EntityGraphHop[];
+  // Chunk id -> closest entity that links it into the traversal
+  chunks: Map<string, { entity: string; hop: number }>;
+}
+
+interface TraverseOptions {
+  indexName: string;
+  seeds: string[];
+  depth: number;
+  maxNeighbors?: number;
+  maxChunksPerEntity?: number;
+}
+
+interface GraphRecordStats {
+  entities: number;
+  mentions: number;
+  edges: number;
+}
+
+interface GraphEdge {
+  source: string;
+  target: string;
+  weight: number;
+}
+
+// Storage operations the traversal is built on
+interface EntityGraphStore {
+  record(indexName: string, chunks: GraphChunk[]): Promise<GraphRecordStats>;
+  // Undo what recording the chunks added; returns the number of mentions removed
+  remove(indexName: string, chunkIds: string[]): Promise<number>;
+  knownEntities(indexName: string, names: string[]): Promise<string[]>;
+  // Strongest `limit` edges of each source entity
+  neighbors(indexName: string, sources: string[], limit: number): Promise<GraphEdge[]>;
+  // Up to `limit` chunk ids per entity
+  mentions(indexName: string, entities: string[], limit: number): Promise<Array<{ chunkId: string; entity: string }>>;
+}
+
+// Edges are stored in both directions to keep traversal a single lookup.
+// Only mentions that are new for a chunk count, so re-recording a chunk does
+// not inflate the graph.
+function newEdgePairs(entities: string[], newEntities: Set<string>): Array<[string, string]> {
+  const pairs: Array<[string, string]> = [];
+  for (const source of entities) {
+    for (const target of entities) {
+      if (source === target) continue;
+      if (!newEntities.has(source) && !newEntities.has(target)) continue;
+      pairs.push([source, target]);
+    }
+  }
+  return pairs;
+}
+
+const schemaStatements = [
+  `CREATE TABLE IF NOT EXISTS entity_nodes (
+    index_name TEXT NOT NULL,
+    name TEXT NOT NULL,
+    mention_count INTEGER NOT NULL DEFAULT 0,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (index_name, name)
+  )`,
+  `CREATE TABLE IF NOT EXISTS entity_mentions (
+    index_name TEXT NOT NULL,
+    chunk_id TEXT NOT NULL,
+    entity TEXT NOT NULL,
+    PRIMARY KEY (index_name, chunk_id, entity)
+  )`,
+  `CREATE INDEX IF NOT EXISTS entity_mentions_entity_idx ON entity_mentions (index_name, entity)`,
+  `CREATE TABLE IF NOT EXISTS entity_edges (
+    index_name TEXT NOT NULL,
+    source TEXT NOT NULL,
+    target TEXT NOT NULL,
+    weight DOUBLE PRECISION NOT NULL DEFAULT 0,
+    PRIMARY KEY (index_name, source, target)
+  )`,
+];
+
+const schemaReady = new WeakMap<object, Promise<void>>();
+
+function ensureEntityGraphSchema(vectorStore: any, sql: SqlClient): Promise<void> {
+  const key = getSqlCacheKey(vectorStore);
+
+  if (!schemaReady.has(key)) {
+    const ready = (async () => {
+      for (const statement of schemaStatements) {
+        await sql.query(statement);
+      }
+    })();
+
+    // Allow a retry on the next call if creation failed
+    ready.catch(() => schemaReady.delete(key));
+    schemaReady.set(key, ready);
+  }
+
+  return schemaReady.get(key)!;
+}
+
+function createSqlGraphStore(vectorStore: any, sql: SqlClient): EntityGraphStore {
+  return {
+    record: async (indexName, chunks) => {
+      await ensureEntityGraphSchema(vectorStore, sql);
+
+      return sql.transaction(async (tx) => {
+        const touchedEntities = new Set<string>();
+        let mentions = 0;
+        let edges = 0;
+
+        for (const chunk of chunks) {
+          const entities = normalizeEntities(chunk.entities);
+          if (entities.length === 0) continue;
+
+          const inserted = await tx.query(
+            `INSERT INTO entity_mentions (index_name, chunk_id, entity)
+             VALUES ${entities.map(() => "(?, ?, ?)").join(", ")}
+             ON CONFLICT DO NOTHING
+             RETURNING entity`,
+            entities.flatMap(entity => [indexName, chunk.id, entity])
+          );
+          const newEntities = Array.from(new Set<string>(inserted.map((row: any) => row.entity)));
+          if (newEntities.length === 0) continue;
+
+          mentions += newEntities.length;
+          newEntities.forEach(entity => touchedEntities.add(entity));
+
+          await tx.query(
+            `INSERT INTO entity_nodes (index_name, name, mention_count)
+             VALUES ${newEntities.map(() => "(?, ?, 1)").join(", ")}
+             ON CONFLICT (index_name, name)
+             DO UPDATE SET mention_count = entity_nodes.mention_count + 1, updated_at = CURRENT_TIMESTAMP`,
+            newEntities.flatMap(entity => [indexName, entity])
+          );
+
+          const pairs = newEdgePairs(entities, new Set(newEntities));
+          if (pairs.length > 0) {
+            await tx.query(
+              `INSERT INTO entity_edges (index_name, source, target, weight)
+               VALUES ${pairs.map(() => "(?, ?, ?, 1)").join(", ")}
+               ON CONFLICT (index_name, source, target)
+               DO UPDATE SET weight = entity_edges.weight + 1`,
+              pairs.flatMap(([source, target]) => [indexName, source, target])
+            );
+            edges += pairs.length / 2;
+          }
+        }
+
+        return { entities: touchedEntities.size, mentions, edges };
+      });
+    },
+
+    remove: async (indexName, chunkIds) => {
+      if (chunkIds.length === 0) return 0;
+      await ensureEntityGraphSchema(vectorStore, sql);
+
+      return sql.transaction(async (tx) => {
+        let removed = 0;
+
+        for (const chunkId of chunkIds) {
+          const rows = await tx.query(
+            `SELECT entity FROM entity_mentions WHERE index_name = ? AND chunk_id = ?`,
+            [indexName, chunkId]
+          );
+          const entities: string[] = rows.map((row: any) => row.entity);
+          if (entities.length === 0) continue;
+
+          const inList = `(${placeholders(entities.length)})`;
+          await tx.query(`DELETE FROM entity_mentions WHERE index_name = ? AND chunk_id = ?`, [indexName, chunkId]);
+          await tx.query(
+            `UPDATE entity_nodes SET mention_count = mention_count - 1, updated_at = CURRENT_TIMESTAMP
+             WHERE index_name = ? AND name IN ${inList}`,
+            [indexName, ...entities]
+          );
+          await tx.query(
+            `DELETE FROM entity_nodes WHERE index_name = ? AND mention_count <= 0 AND name IN ${inList}`,
+            [indexName, ...entities]
+          );
+
+          if (entities.length > 1) {
+            await tx.query(
+              `UPDATE entity_edges SET weight = weight - 1
+               WHERE index_name = ? AND source IN ${inList} AND target IN ${inList} AND source <> target`,
+              [indexName, ...entities, ...entities]
+            );
+            await tx.query(
+              `DELETE FROM entity_edges
+               WHERE index_name = ? AND weight <= 0 AND source IN ${inList} AND target IN ${inList}`,
+              [indexName, ...entities, ...entities]
+            );
+          }
+          removed += entities.length;
+        }
+
+        return removed;
+      });
+    },
+
+    knownEntities: async (indexName, names) => {
+      if (names.length === 0) return [];
+      await ensureEntityGraphSchema(vectorStore, sql);
+
+      const rows = await sql.query(
+        `SELECT name FROM entity_nodes WHERE index_name = ? AND name IN (${placeholders(names.length)})`,
+        [indexName, ...names]
+      );
+      return rows.map((row: any) => row.name);
+    },
+
+    neighbors: async (indexName, sources, limit) => {
+      if (sources.length === 0) return [];
+      await ensureEntityGraphSchema(vectorStore, sql);
+
+      const rows = await sql.query(
+        `SELECT source, target, weight FROM (
+           SELECT source, target, weight,
+                  ROW_NUMBER() OVER (PARTITION BY source ORDER BY weight DESC, target) AS edge_rank
+           FROM entity_edges
+           WHERE index_name = ? AND source IN (${placeholders(sources.length)})
+         ) ranked
+         WHERE edge_rank <= ?`,
+        [indexName, ...sources, limit]
+      );
+      return rows.map((row: any) => ({ source: row.source, target: row.target, weight: Number(row.weight) }));
+    },
+
+    mentions: async (indexName, entities, limit) => {
+      if (entities.length === 0) return [];
+      await ensureEntityGraphSchema(vectorStore, sql);
+
+      const rows = await sql.query(
+        `SELECT chunk_id, entity FROM (
+           SELECT chunk_id, entity,
+                  ROW_NUMBER() OVER (PARTITION BY entity ORDER BY chunk_id) AS mention_rank
+           FROM entity_mentions
+           WHERE index_name = ? AND entity IN (${placeholders(entities.length)})
+         ) ranked
+         WHERE mention_rank <= ?`,
+        [indexName, ...entities, limit]
+      );
+      return rows.map((row: any) => ({ chunkId: row.chunk_id, entity: row.entity }));
+    },
+  };
+}
+
+interface InMemoryGraph {
+  // Entity -> chunk ids mentioning it
+  mentions: Map<string, Set<string>>;
+  // Chunk id -> entities it mentions
+  chunkEntities: Map<string, Set<string>>;
+  // Source -> target -> weight
+  edges: Map<string, Map<string, number>>;
+}
+
+const inMemoryGraphs = new WeakMap<object, Map<string, InMemoryGraph>>();
+
+function getInMemoryGraph(vectorStore: any, indexName: string): InMemoryGraph {
+  if (!inMemoryGraphs.has(vectorStore)) {
+    inMemoryGraphs.set(vectorStore, new Map());
+  }
+
+  const graphs = inMemoryGraphs.get(vectorStore)!;
+  if (!graphs.has(indexName)) {
+    graphs.set(indexName, { mentions: new Map(), chunkEntities: new Map(), edges: new Map() });
+  }
+  return graphs.get(indexName)!;
+}
+
+function createInMemoryGraphStore(vectorStore: any): EntityGraphStore {
+  return {
+    record: async (indexName, chunks) => {
+      const graph = getInMemoryGraph(vectorStore, indexName);
+      const touchedEntities = new Set<string>();
+      let mentions = 0;
+      let edges = 0;
+
+      for (const chunk of chunks) {
+        const entities = normalizeEntities(chunk.entities);
+        const known = graph.chunkEntities.get(chunk.id) || new Set<string>();
+        const newEntities = new Set(entities.filter(entity => !known.has(entity)));
+        if (newEntities.size === 0) continue;
+
+        newEntities.forEach(entity => {
+          known.add(entity);
+          if (!graph.mentions.has(entity)) graph.mentions.set(entity, new Set());
+          graph.mentions.get(entity)!.add(chunk.id);
+          touchedEntities.add(entity);
+        });
+        graph.chunkEntities.set(chunk.id, known);
+        mentions += newEntities.size;
+
+        const pairs = newEdgePairs(entities, newEntities);
+        pairs.forEach(([source, target]) => {
+          if (!graph.edges.has(source)) graph.edges.set(source, new Map());
+          const targets = graph.edges.get(source)!;
+          targets.set(target, (targets.get(target) || 0) + 1);
+        });
+        edges += pairs.length / 2;
+      }
+
+      return { entities: touchedEntities.size, mentions, edges };
+    },
+
+    remove: async (indexName, chunkIds) => {
+      const graph = getInMemoryGraph(vectorStore, indexName);
+      let removed = 0;
+
+      for (const chunkId of chunkIds) {
+        const entities = Array.from(graph.chunkEntities.get(chunkId) || []);
+        graph.chunkEntities.delete(chunkId);
+
+        entities.forEach(entity => {
+          const chunks = graph.mentions.get(entity);
+          chunks?.delete(chunkId);
+          if (chunks && chunks.size === 0) graph.mentions.delete(entity);
+        });
+
+        newEdgePairs(entities, new Set(entities)).forEach(([source, target]) => {
+          const targets = graph.edges.get(source);
+          const weight = (targets?.get(target) || 0) - 1;
+          if (weight > 0) {
+            targets!.set(target, weight);
+          } else {
+            targets?.delete(target);
+            if (targets && targets.size === 0) graph.edges.delete(source);
+          }
+        });
+        removed += entities.length;
+      }
+
+      return removed;
+    },
+
+    knownEntities: async (indexName, names) => {
+      const graph = getInMemoryGraph(vectorStore, indexName);
+      return names.filter(name => graph.mentions.has(name));
+    },
+
+    neighbors: async (indexName, sources, limit) => {
+      const graph = getInMemoryGraph(vectorStore, indexName);
+      return sources.flatMap(source =>
+        Array.from(graph.edges.get(source)?.entries() || [])
+          .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+          .slice(0, limit)
+          .map(([target, weight]) => ({ source, target, weight }))
+      );
+    },
+
+    mentions: async (indexName, entities, limit) => {
+      const graph = getInMemoryGraph(vectorStore, indexName);
+      return entities.flatMap(entity =>
+        Array.from(graph.mentions.get(entity) || [])
+          .sort()
+          .slice(0, limit)
+          .map(chunkId => ({ chunkId, entity }))
+      );
+    },
+  };
+}
+
+function getEntityGraphStore(vectorStore: any): EntityGraphStore {
+  const sql = getSqlClient(vectorStore);
+  return sql ? createSqlGraphStore(vectorStore, sql) : createInMemoryGraphStore(vectorStore);
+}
+
+// Persist entities, chunk mentions and co-occurrence edges for stored chunks
+export async function recordEntityGraph(
+  vectorStore: any,
+  indexName: string,
+  chunks: GraphChunk[]
+): Promise<GraphRecordStats> {
+  return getEntityGraphStore(vectorStore).record(indexName, chunks);
+}
+
+// Drop chunks from the graph before or after deleting them from the index
+export async function removeEntityGraphChunks(
+  vectorStore: any,
+  indexName: string,
+  chunkIds: string[]
+): Promise<number> {
+  return getEntityGraphStore(vectorStore).remove(indexName, chunkIds);
+}
+
+// Breadth-first walk from the seed entities, following the strongest edges
+export async function traverseEntityGraph(
+  vectorStore: any,
+  { indexName, seeds, depth, maxNeighbors = 5, maxChunksPerEntity = 10 }: TraverseOptions
+): Promise<EntityGraphTraversal> {
+  const store = getEntityGraphStore(vectorStore);
+  const entities = new Map<string, number>();
+  const path: EntityGraphHop[] = [];
+  const chunks = new Map<string, { entity: string; hop: number }>();
+
+  let frontier = await store.knownEntities(indexName, normalizeEntities(seeds));
+  frontier.forEach(entity => entities.set(entity, 0));
+
+  for (let hop = 1; hop <= depth && frontier.length > 0; hop++) {
+    const next: string[] = [];
+    for (const edge of await store.neighbors(indexName, frontier, maxNeighbors)) {
+      if (entities.has(edge.target)) continue;
+      entities.set(edge.target, hop);
+      path.push({ from: edge.source, to: edge.target, hop, weight: edge.weight });
+      next.push(edge.target);
+    }
+    frontier = next;
+  }
+
+  if (entities.size === 0) {
+    return { entities, path, chunks };
+  }
+
+  for (const mention of await store.mentions(indexName, Array.from(entities.keys()), maxChunksPerEntity)) {
+    const hop = entities.get(mention.entity) ?? depth;
+    const existing = chunks.get(mention.chunkId);
+    if (!existing || hop < existing.hop) {
+      chunks.set(mention.chunkId, { entity: mention.entity, hop });
+    }
+  }
+
+  return { entities, path, chunks };
+}
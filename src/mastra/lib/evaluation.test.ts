@@ -0,0 +1,160 @@
+// Metric tests on hand-ranked records. Expected values are worked out by hand: with
+// binary gains, DCG@k sums 1 / log2(rank + 1) over the ranks holding a relevant item.
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { SourceRecord } from "./citations.js";
+import {
+  aggregateMetrics,
+  diffEvaluationRuns,
+  isRegression,
+  scoreQuery,
+  type EvaluationRun,
+  type GoldenQuery,
+  type QueryResult,
+} from "./evaluation.js";
+
+// Ranked records from "source#chunk" names
+function ranked(...names: string[]): SourceRecord[] {
+  return names.map((name, i) => {
+    const [source, chunkId] = name.split("#");
+    return {
+      citation: i + 1,
+      citationId: name,
+      chunkId,
+      source,
+      text: "",
+      score: 1 - i / 10,
+      provenance: "user-upload",
+      trustScore: 1,
+      metadata: {},
+    };
+  });
+}
+
+function query(relevant: Partial<Pick<GoldenQuery, "relevantSources" | "relevantChunks">>, id = "q1"): GoldenQuery {
+  return { id, query: `Question ${id}`, relevantSources: [], relevantChunks: [], ...relevant };
+}
+
+function assertClose(actual: number, expected: number): void {
+  assert.ok(Math.abs(actual - expected) < 1e-4, `Expected ${expected}, got ${actual}`);
+}
+
+describe("scoreQuery", () => {
+  it("scores recall@k, reciprocal rank and nDCG@k", () => {
+    // Relevant items at ranks 2 and 4
+    const records = ranked("docs/x.md#x1", "docs/a.md#a1", "docs/y.md#y1", "docs/b.md#b1");
+    const result = scoreQuery(records, query({ relevantSources: ["docs/a.md", "docs/b.md"] }), [1, 3, 5], 12);
+
+    assert.deepEqual(result.matches, [null, "source:docs/a.md", null, "source:docs/b.md"]);
+    assert.equal(result.firstRelevantRank, 2);
+    assert.equal(result.reciprocalRank, 0.5);
+    assert.deepEqual(result.recall, { 1: 0, 3: 0.5, 5: 1 });
+
+    // Ideal DCG with two relevant items: 1 + 1 / log2(3) = 1.6309
+    assert.equal(result.ndcg[1], 0);
+    assertClose(result.ndcg[3], 0.6309 / 1.6309); // 1 / log2(3) at rank 2
+    assertClose(result.ndcg[5], (0.6309 + 0.4307) / 1.6309); // and 1 / log2(5) at rank 4
+  });
+
+  it("counts every relevant item once, however many of its chunks are retrieved", () => {
+    // The source is named by a path suffix of the stored key
+    const records = ranked("/srv/docs/a.md#a1", "/srv/docs/a.md#a2", "docs/x.md#x1", "/srv/docs/a.md#a3");
+    const result = scoreQuery(records, query({ relevantSources: ["docs/a.md"] }), [5], 0);
+
+    assert.deepEqual(result.matches, ["source:docs/a.md", null, null, null]);
+    assert.equal(result.recall[5], 1);
+    assert.equal(result.ndcg[5], 1);
+  });
+
+  it("counts a relevant chunk and its relevant source as one item", () => {
+    const golden = query({ relevantChunks: ["a2"], relevantSources: ["docs/a.md"] });
+
+    // The chunk stands for its source, so another chunk of the source is no hit
+    const found = scoreQuery(ranked("docs/a.md#a1", "docs/a.md#a2"), golden, [1, 5], 0);
+    assert.deepEqual(found.matches, [null, "chunk:a2"]);
+    assert.deepEqual(found.recall, { 1: 0, 5: 1 });
+    assert.equal(found.reciprocalRank, 0.5);
+    assertClose(found.ndcg[5], 0.6309);
+
+    // Without the chunk it is unknown which source it belongs to; both count
+    const missed = scoreQuery(ranked("docs/a.md#a1"), golden, [5], 0);
+    assert.deepEqual(missed.matches, ["source:docs/a.md"]);
+    assert.equal(missed.recall[5], 0.5);
+  });
+
+  it("scores no relevant result as zero", () => {
+    const result = scoreQuery(ranked("docs/x.md#x1"), query({ relevantChunks: ["a1"] }), [1, 5], 0);
+    assert.equal(result.firstRelevantRank, null);
+    assert.equal(result.reciprocalRank, 0);
+    assert.deepEqual(result.ndcg, { 1: 0, 5: 0 });
+  });
+});
+
+describe("aggregateMetrics", () => {
+  it("averages over all queries and keeps failed ones out of the latency", () => {
+    const golden = query({ relevantSources: ["docs/a.md"] });
+    const queries: QueryResult[] = [
+      scoreQuery(ranked("docs/a.md#a1"), golden, [1], 10),
+      scoreQuery(ranked("docs/x.md#x1", "docs/a.md#a1"), golden, [1], 30),
+      { ...scoreQuery([], golden, [1], 500), error: "Search failed" },
+    ];
+    const metrics = aggregateMetrics(queries, [1]);
+
+    assertClose(metrics.recall[1], 1 / 3);
+    assertClose(metrics.mrr, (1 + 0.5 + 0) / 3);
+    assert.deepEqual(metrics.latencyMs, { mean: 20, p95: 30 });
+    assert.equal(metrics.failed, 1);
+  });
+});
+
+describe("diffEvaluationRuns", () => {
+  const golden = [query({ relevantSources: ["docs/a.md"] }, "q1"), query({ relevantSources: ["docs/b.md"] }, "q2")];
+
+  function run(id: string, configs: Record<string, { q1: string[]; q2: string[]; latencyMs: number }>): EvaluationRun {
+    return {
+      id,
+      startedAt: id,
+      ks: [1],
+      results: Object.entries(configs).map(([name, { q1, q2, latencyMs }]) => {
+        const queries = [scoreQuery(ranked(...q1), golden[0], [1], latencyMs), scoreQuery(ranked(...q2), golden[1], [1], latencyMs)];
+        return { config: { name }, metrics: aggregateMetrics(queries, [1]), queries };
+      }),
+    };
+  }
+
+  it("compares the metrics of configurations in both runs and lists queries ranked lower", () => {
+    const baseline = run("before", {
+      default: { q1: ["docs/a.md#a1"], q2: ["docs/x.md#x1", "docs/b.md#b1"], latencyMs: 100 },
+    });
+    const current = run("after", {
+      // q1 falls from rank 1 to rank 2, q2 rises from rank 2 to rank 1
+      default: { q1: ["docs/x.md#x1", "docs/a.md#a1"], q2: ["docs/b.md#b1"], latencyMs: 105 },
+      reranked: { q1: ["docs/a.md#a1"], q2: ["docs/b.md#b1"], latencyMs: 300 },
+    });
+    const diff = diffEvaluationRuns(baseline, current);
+
+    assert.equal(diff.baseline, "before");
+    assert.equal(diff.current, "after");
+    // Only "default" is in both runs
+    assert.deepEqual(new Set(diff.changes.map(change => change.config)), new Set(["default"]));
+
+    const change = (metric: string) => diff.changes.find(candidate => candidate.metric === metric)!;
+    // MRR (1 + 0.5) / 2 both times; recall@1 0.5 both times
+    assert.equal(change("mrr").delta, 0);
+    assert.equal(change("recall@1").delta, 0);
+    assert.equal(change("latency.mean").delta, 5);
+    // 5ms is within the latency tolerance
+    assert.equal(diff.changes.some(isRegression), false);
+
+    assert.deepEqual(diff.regressions, [{ config: "default", id: "q1", query: "Question q1", baseline: 1, current: 0.5 }]);
+  });
+
+  it("flags lower quality and higher latency as regressions", () => {
+    const baseline = run("before", { default: { q1: ["docs/a.md#a1"], q2: ["docs/b.md#b1"], latencyMs: 100 } });
+    const current = run("after", { default: { q1: ["docs/x.md#x1"], q2: ["docs/b.md#b1"], latencyMs: 150 } });
+    const regressed = diffEvaluationRuns(baseline, current).changes.filter(isRegression).map(change => change.metric);
+
+    assert.deepEqual(regressed.sort(), ["latency.mean", "latency.p95", "mrr", "ndcg@1", "recall@1"]);
+  });
+});
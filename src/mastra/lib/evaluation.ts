@@ -0,0 +1,372 @@
+// Retrieval evaluation against a golden set: queries with the sources or chunks that
+// should be retrieved for them. Every configuration (topK, entity depth, reranker, ...)
+// runs the whole set and is scored with recall@k, MRR, nDCG@k and latency. Runs are
+// saved as JSON files so a later run can be diffed against a baseline.
+
+import { promises as fs } from "fs";
+import * as path from "path";
+import { performance } from "perf_hooks";
+import { z } from "zod";
+import type { SourceRecord } from "./citations.js";
+import type { QueryTransformMode } from "./query-transform.js";
+
+export const goldenQuerySchema = z.object({
+  id: z.string().optional(),
+  query: z.string().min(1),
+  // A relevant source matches by its full key or by a path suffix, e.g. "docs/billing.md"
+  relevantSources: z.array(z.string()).default([]),
+  relevantChunks: z.array(z.string()).default([]),
+  referenceAnswer: z.string().optional(),
+  collections: z.array(z.string()).optional(),
+}).refine(query => query.relevantSources.length + query.relevantChunks.length > 0, {
+  message: "At least one relevant source or chunk is required",
+});
+
+export type GoldenQuery = z.infer<typeof goldenQuerySchema> & { id: string };
+
+// Tool inputs to vary; everything else uses the tool's defaults
+export interface EvaluationConfig {
+  name: string;
+  topK?: number;
+  entityDepth?: number;
+  useEntityEnhancement?: boolean;
+  retrievalMode?: "vector" | "lexical" | "hybrid";
+  reranker?: "entity-overlap" | "llm" | "cross-encoder" | "none";
+  queryTransform?: QueryTransformMode;
+  queryVariants?: number;
+  sufficiencyThreshold?: number;
+}
+
+// Ranked source records for a query under a configuration
+export type RetrievalFunction = (query: GoldenQuery, config: EvaluationConfig) => Promise<SourceRecord[]>;
+
+export interface QueryResult {
+  id: string;
+  query: string;
+  // Relevant items (chunk ids or source keys) by rank, null where the result was not relevant
+  matches: Array<string | null>;
+  firstRelevantRank: number | null;
+  recall: Record<number, number>;
+  ndcg: Record<number, number>;
+  reciprocalRank: number;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface ConfigMetrics {
+  recall: Record<number, number>;
+  ndcg: Record<number, number>;
+  mrr: number;
+  latencyMs: { mean: number; p95: number };
+  failed: number;
+}
+
+export interface ConfigResult {
+  config: EvaluationConfig;
+  metrics: ConfigMetrics;
+  queries: QueryResult[];
+}
+
+export interface EvaluationRun {
+  id: string;
+  startedAt: string;
+  goldenSet?: string;
+  ks: number[];
+  results: ConfigResult[];
+}
+
+export interface MetricChange {
+  config: string;
+  metric: string;
+  baseline: number;
+  current: number;
+  delta: number;
+}
+
+export interface EvaluationDiff {
+  baseline: string;
+  current: string;
+  changes: MetricChange[];
+  // Queries whose reciprocal rank dropped, per configuration
+  regressions: Array<{ config: string; id: string; query: string; baseline: number; current: number }>;
+}
+
+const DEFAULT_KS = [1, 5, 10];
+
+// Latency changes within 20% or 10ms of the baseline are noise
+const LATENCY_TOLERANCE = 0.2;
+const LATENCY_TOLERANCE_MS = 10;
+
+export async function loadGoldenSet(filePath: string): Promise<GoldenQuery[]> {
+  const lines = (await fs.readFile(filePath, "utf-8")).split("\n");
+  const queries: GoldenQuery[] = [];
+
+  lines.forEach((line, index) => {
+    if (!line.trim()) return;
+    let parsed;
+    try {
+      parsed = goldenQuerySchema.parse(JSON.parse(line));
+    } catch (error) {
+      const message = error instanceof z.ZodError
+        ? error.issues.map(issue => issue.message).join(", ")
+        : error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid golden query on line ${index + 1} of ${filePath}: ${message}`);
+    }
+    queries.push({ ...parsed, id: parsed.id || `q${queries.length + 1}` });
+  });
+
+  if (queries.length === 0) {
+    throw new Error(`Golden set ${filePath} has no queries`);
+  }
+  return queries;
+}
+
+function matchesSource(source: string, relevant: string): boolean {
+  return source === relevant || source.endsWith(`/${relevant.replace(/^\.?\//, "")}`);
+}
+
+// The relevant item each retrieved record counts for, and how many relevant items the
+// query has. Each item only counts once, so five chunks of one relevant file do not
+// score as five hits. A relevant source that a retrieved relevant chunk comes from is
+// the same item as that chunk: listing both does not keep recall below 1.
+function matchRelevant(records: SourceRecord[], query: GoldenQuery): { matches: Array<string | null>; relevantCount: number } {
+  const relevantChunks = new Set(query.relevantChunks);
+  const relevantSources = Array.from(new Set(query.relevantSources));
+  const sourceOf = (record: SourceRecord) => relevantSources.find(source => matchesSource(record.source, source));
+
+  const covered = new Set(records.filter(record => relevantChunks.has(record.chunkId)).map(sourceOf).filter(Boolean));
+  const found = new Set<string>();
+  const matches = records.map(record => {
+    const source = sourceOf(record);
+    const key = relevantChunks.has(record.chunkId)
+      ? `chunk:${record.chunkId}`
+      : source && !covered.has(source) ? `source:${source}` : undefined;
+    if (!key || found.has(key)) return null;
+    found.add(key);
+    return key;
+  });
+
+  return { matches, relevantCount: relevantChunks.size + relevantSources.length - covered.size };
+}
+
+// Binary relevance: DCG@k = sum of 1 / log2(rank + 1) over relevant ranks
+function ndcgAt(matches: Array<string | null>, relevantCount: number, k: number): number {
+  const dcg = matches.slice(0, k).reduce((sum, match, i) => sum + (match ? 1 / Math.log2(i + 2) : 0), 0);
+  let ideal = 0;
+  for (let i = 0; i < Math.min(relevantCount, k); i++) ideal += 1 / Math.log2(i + 2);
+  return ideal > 0 ? dcg / ideal : 0;
+}
+
+export function scoreQuery(records: SourceRecord[], query: GoldenQuery, ks: number[], latencyMs: number): QueryResult {
+  const { matches, relevantCount } = matchRelevant(records, query);
+  const firstIndex = matches.findIndex(match => match !== null);
+
+  return {
+    id: query.id,
+    query: query.query,
+    matches,
+    firstRelevantRank: firstIndex >= 0 ? firstIndex + 1 : null,
+    recall: Object.fromEntries(ks.map(k => [k, matches.slice(0, k).filter(Boolean).length / relevantCount])),
+    ndcg: Object.fromEntries(ks.map(k => [k, ndcgAt(matches, relevantCount, k)])),
+    reciprocalRank: firstIndex >= 0 ? 1 / (firstIndex + 1) : 0,
+    latencyMs,
+  };
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+}
+
+// Failed queries score 0 on every metric, so errors show up as worse retrieval
+export function aggregateMetrics(queries: QueryResult[], ks: number[]): ConfigMetrics {
+  const latencies = queries.filter(query => !query.error).map(query => query.latencyMs);
+  return {
+    recall: Object.fromEntries(ks.map(k => [k, mean(queries.map(query => query.recall[k]))])),
+    ndcg: Object.fromEntries(ks.map(k => [k, mean(queries.map(query => query.ndcg[k]))])),
+    mrr: mean(queries.map(query => query.reciprocalRank)),
+    latencyMs: { mean: mean(latencies), p95: percentile(latencies, 0.95) },
+    failed: queries.filter(query => query.error).length,
+  };
+}
+
+// Queries run one at a time so latencies are not skewed by each other
+export async function evaluateRetrieval(
+  goldenSet: GoldenQuery[],
+  configs: EvaluationConfig[],
+  retrieve: RetrievalFunction,
+  { ks = DEFAULT_KS, goldenSetName }: { ks?: number[]; goldenSetName?: string } = {}
+): Promise<EvaluationRun> {
+  const names = configs.map(config => config.name);
+  const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+  if (duplicate) {
+    throw new Error(`Configuration "${duplicate}" is listed more than once`);
+  }
+
+  const startedAt = new Date();
+  const results: ConfigResult[] = [];
+
+  for (const config of configs) {
+    console.log(`📏 Evaluating "${config.name}" on ${goldenSet.length} queries`);
+    const queries: QueryResult[] = [];
+
+    for (const query of goldenSet) {
+      const start = performance.now();
+      try {
+        const records = await retrieve(query, config);
+        queries.push(scoreQuery(records, query, ks, performance.now() - start));
+      } catch (error) {
+        queries.push({
+          ...scoreQuery([], query, ks, performance.now() - start),
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    results.push({ config, metrics: aggregateMetrics(queries, ks), queries });
+  }
+
+  return {
+    id: startedAt.toISOString().replace(/[:.]/g, "-"),
+    startedAt: startedAt.toISOString(),
+    ...(goldenSetName ? { goldenSet: goldenSetName } : {}),
+    ks,
+    results,
+  };
+}
+
+export async function saveEvaluationRun(run: EvaluationRun, directory: string): Promise<string> {
+  await fs.mkdir(directory, { recursive: true });
+  const filePath = path.join(directory, `${run.id}.json`);
+  await fs.writeFile(filePath, JSON.stringify(run, null, 2));
+  return filePath;
+}
+
+export async function loadEvaluationRun(filePath: string): Promise<EvaluationRun> {
+  return JSON.parse(await fs.readFile(filePath, "utf-8"));
+}
+
+// Most recent saved run, or null when there is none yet
+export async function findLatestEvaluationRun(directory: string): Promise<string | null> {
+  const files = await fs.readdir(directory).catch(() => [] as string[]);
+  const runs = files.filter(file => file.endsWith(".json")).sort();
+  return runs.length > 0 ? path.join(directory, runs[runs.length - 1]) : null;
+}
+
+function flattenMetrics(metrics: ConfigMetrics): Record<string, number> {
+  return {
+    ...Object.fromEntries(Object.entries(metrics.recall).map(([k, value]) => [`recall@${k}`, value])),
+    ...Object.fromEntries(Object.entries(metrics.ndcg).map(([k, value]) => [`ndcg@${k}`, value])),
+    mrr: metrics.mrr,
+    "latency.mean": metrics.latencyMs.mean,
+    "latency.p95": metrics.latencyMs.p95,
+  };
+}
+
+// Compare configurations present in both runs (matched by name) metric by metric,
+// and list the queries that lost rank
+export function diffEvaluationRuns(baseline: EvaluationRun, current: EvaluationRun): EvaluationDiff {
+  const changes: MetricChange[] = [];
+  const regressions: EvaluationDiff["regressions"] = [];
+
+  for (const result of current.results) {
+    const previous = baseline.results.find(candidate => candidate.config.name === result.config.name);
+    if (!previous) continue;
+
+    const before = flattenMetrics(previous.metrics);
+    const after = flattenMetrics(result.metrics);
+    for (const [metric, value] of Object.entries(after)) {
+      if (!(metric in before)) continue;
+      changes.push({ config: result.config.name, metric, baseline: before[metric], current: value, delta: value - before[metric] });
+    }
+
+    for (const query of result.queries) {
+      const previousQuery = previous.queries.find(candidate => candidate.id === query.id);
+      if (previousQuery && query.reciprocalRank < previousQuery.reciprocalRank) {
+        regressions.push({
+          config: result.config.name,
+          id: query.id,
+          query: query.query,
+          baseline: previousQuery.reciprocalRank,
+          current: query.reciprocalRank,
+        });
+      }
+    }
+  }
+
+  return { baseline: baseline.id, current: current.id, changes, regressions };
+}
+
+function isSignificant(change: MetricChange): boolean {
+  if (change.metric.startsWith("latency")) {
+    return Math.abs(change.delta) > Math.max(LATENCY_TOLERANCE_MS, change.baseline * LATENCY_TOLERANCE);
+  }
+  return Math.abs(change.delta) > 1e-9;
+}
+
+// Higher is better for quality metrics, lower for latency
+export function isRegression(change: MetricChange): boolean {
+  return isSignificant(change) && (change.metric.startsWith("latency") ? change.delta > 0 : change.delta < 0);
+}
+
+const formatScore = (value: number) => value.toFixed(3);
+const formatMs = (value: number) => `${Math.round(value)}ms`;
+
+// Markdown tables: configurations side by side, then the diff against a baseline
+export function formatEvaluationReport(run: EvaluationRun, diff?: EvaluationDiff): string {
+  const header = [
+    "Configuration",
+    ...run.ks.map(k => `Recall@${k}`),
+    "MRR",
+    ...run.ks.map(k => `nDCG@${k}`),
+    "Latency (mean)",
+    "Latency (p95)",
+    "Failed",
+  ];
+  const rows = run.results.map(({ config, metrics }) => [
+    config.name,
+    ...run.ks.map(k => formatScore(metrics.recall[k])),
+    formatScore(metrics.mrr),
+    ...run.ks.map(k => formatScore(metrics.ndcg[k])),
+    formatMs(metrics.latencyMs.mean),
+    formatMs(metrics.latencyMs.p95),
+    String(metrics.failed),
+  ]);
+
+  const lines = [
+    `Evaluation ${run.id}${run.goldenSet ? ` (${run.goldenSet})` : ""}`,
+    "",
+    `| ${header.join(" | ")} |`,
+    `| ${header.map(() => "---").join(" | ")} |`,
+    ...rows.map(row => `| ${row.join(" | ")} |`),
+  ];
+
+  if (diff) {
+    const changed = diff.changes.filter(isSignificant);
+    lines.push("", `Compared with ${diff.baseline}:`);
+    if (changed.length === 0) {
+      lines.push("", "No metric changed.");
+    } else {
+      lines.push("", "| Configuration | Metric | Baseline | Current | Change |", "| --- | --- | --- | --- | --- |");
+      for (const change of changed) {
+        const format = change.metric.startsWith("latency") ? formatMs : formatScore;
+        const sign = change.delta > 0 ? "+" : "-";
+        const flag = isRegression(change) ? " ⚠️" : "";
+        lines.push(`| ${change.config} | ${change.metric} | ${format(change.baseline)} | ${format(change.current)} | ${sign}${format(Math.abs(change.delta))}${flag} |`);
+      }
+    }
+    if (diff.regressions.length > 0) {
+      lines.push("", "Queries ranked lower:", "");
+    }
+    for (const regression of diff.regressions) {
+      lines.push(`- ${regression.config}: "${regression.query}" (${regression.id}) reciprocal rank ${formatScore(regression.baseline)} -> ${formatScore(regression.current)}`);
+    }
+  }
+
+  return lines.join("\n");
+}
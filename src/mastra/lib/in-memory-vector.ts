@@ -0,0 +1,232 @@
+import { MastraVector } from "@mastra/core/vector";
+import type {
+  CreateIndexParams,
+  DeleteIndexParams,
+  DeleteVectorParams,
+  DescribeIndexParams,
+  IndexStats,
+  QueryResult,
+  QueryVectorParams,
+  UpdateVectorParams,
+  UpsertVectorParams,
+} from "@mastra/core/vector";
+
+// Pure in-process vector store for laptops, tests and offline evaluation.
+// Nothing is persisted; data lives as long as the process.
+
+export interface StoredVector {
+  id: string;
+  vector: number[];
+  metadata: Record<string, any>;
+}
+
+interface InMemoryIndex {
+  dimension: number;
+  metric: "cosine" | "euclidean" | "dotproduct";
+  vectors: Map<string, StoredVector>;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+// Higher is closer for every metric: euclidean scores are negated distances
+export function vectorSimilarity(metric: InMemoryIndex["metric"], a: number[], b: number[]): number {
+  switch (metric) {
+    case "euclidean": {
+      let sum = 0;
+      for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+      return -Math.sqrt(sum);
+    }
+    case "dotproduct": {
+      let dot = 0;
+      for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+      return dot;
+    }
+    default:
+      return cosineSimilarity(a, b);
+  }
+}
+
+function getPath(metadata: Record<string, any>, path: string): any {
+  return path.split(".").reduce((value: any, key) => (value == null ? undefined : value[key]), metadata);
+}
+
+function compare(value: any, operand: any): number {
+  return value < operand ? -1 : value > operand ? 1 : 0;
+}
+
+// A scalar condition holds for an array field if it holds for any element
+function matchesCondition(value: any, operator: string, operand: any): boolean {
+  if (Array.isArray(value) && !["$all", "$size", "$exists", "$ne", "$nin", "$contains"].includes(operator)) {
+    return value.some(item => matchesCondition(item, operator, operand));
+  }
+
+  switch (operator) {
+    case "$eq":
+      return value === operand;
+    case "$ne":
+      return Array.isArray(value) ? !value.includes(operand) : value !== operand;
+    case "$in":
+      return (operand as any[]).includes(value);
+    case "$nin":
+      return Array.isArray(value)
+        ? !value.some(item => (operand as any[]).includes(item))
+        : !(operand as any[]).includes(value);
+    case "$gt":
+      return value != null && compare(value, operand) > 0;
+    case "$gte":
+      return value != null && compare(value, operand) >= 0;
+    case "$lt":
+      return value != null && compare(value, operand) < 0;
+    case "$lte":
+      return value != null && compare(value, operand) <= 0;
+    case "$exists":
+      return operand ? value !== undefined : value === undefined;
+    case "$all":
+      return Array.isArray(value) && (operand as any[]).every(item => value.includes(item));
+    case "$size":
+      return Array.isArray(value) && value.length === operand;
+    case "$regex":
+      return typeof value === "string" && new RegExp(operand).test(value);
+    // Case-insensitive substring on strings, membership on arrays
+    case "$contains":
+      if (Array.isArray(value)) {
+        return (Array.isArray(operand) ? operand : [operand]).every(item => value.includes(item));
+      }
+      if (typeof value === "string" && typeof operand === "string") {
+        return value.toLowerCase().includes(operand.toLowerCase());
+      }
+      return value === operand;
+    default:
+      throw new Error(`Unsupported filter operator: ${operator}`);
+  }
+}
+
+// MongoDB-style filters, the same shape PgVector and LibSQLVector accept
+export function matchesFilter(metadata: Record<string, any>, filter?: Record<string, any>): boolean {
+  if (!filter) return true;
+
+  return Object.entries(filter).every(([key, condition]) => {
+    switch (key) {
+      case "$and":
+        return (condition as any[]).every(sub => matchesFilter(metadata, sub));
+      case "$or":
+        return (condition as any[]).some(sub => matchesFilter(metadata, sub));
+      case "$nor":
+        return !(condition as any[]).some(sub => matchesFilter(metadata, sub));
+      case "$not":
+        return !matchesFilter(metadata, condition);
+    }
+
+    const value = getPath(metadata, key);
+    if (condition !== null && typeof condition === "object" && !Array.isArray(condition) && !(condition instanceof Date)) {
+      return Object.entries(condition).every(([operator, operand]) =>
+        operator === "$not"
+          ? !matchesFilter(metadata, { [key]: operand })
+          : matchesCondition(value, operator, operand)
+      );
+    }
+    return matchesCondition(value, "$eq", condition);
+  });
+}
+
+export class InMemoryVector extends MastraVector {
+  private indexes = new Map<string, InMemoryIndex>();
+
+  private getIndex(indexName: string): InMemoryIndex {
+    const index = this.indexes.get(indexName);
+    if (!index) {
+      throw new Error(`Index "${indexName}" does not exist`);
+    }
+    return index;
+  }
+
+  async query({ indexName, queryVector, topK = 10, filter, includeVector = false }: QueryVectorParams): Promise<QueryResult[]> {
+    const index = this.indexes.get(indexName);
+    if (!index) return [];
+
+    return Array.from(index.vectors.values())
+      .filter(entry => matchesFilter(entry.metadata, filter as Record<string, any> | undefined))
+      .map(entry => ({
+        id: entry.id,
+        score: vectorSimilarity(index.metric, queryVector, entry.vector),
+        metadata: entry.metadata,
+        ...(includeVector ? { vector: entry.vector } : {}),
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  async upsert({ indexName, vectors, metadata, ids }: UpsertVectorParams): Promise<string[]> {
+    const index = this.getIndex(indexName);
+    const vectorIds = ids || vectors.map(() => crypto.randomUUID());
+
+    vectors.forEach((vector, i) => {
+      if (vector.length !== index.dimension) {
+        throw new Error(`Vector dimension mismatch: Index "${indexName}" expects ${index.dimension} dimensions but got ${vector.length}`);
+      }
+      index.vectors.set(vectorIds[i], { id: vectorIds[i], vector, metadata: metadata?.[i] || {} });
+    });
+
+    return vectorIds;
+  }
+
+  async createIndex({ indexName, dimension, metric = "cosine" }: CreateIndexParams): Promise<void> {
+    const existing = this.indexes.get(indexName);
+    if (existing) {
+      if (existing.dimension !== dimension) {
+        throw new Error(`Index "${indexName}" already exists with dimension ${existing.dimension}`);
+      }
+      return;
+    }
+    this.indexes.set(indexName, { dimension, metric, vectors: new Map() });
+  }
+
+  async listIndexes(): Promise<string[]> {
+    return Array.from(this.indexes.keys());
+  }
+
+  async describeIndex({ indexName }: DescribeIndexParams): Promise<IndexStats> {
+    const index = this.getIndex(indexName);
+    return { dimension: index.dimension, count: index.vectors.size, metric: index.metric };
+  }
+
+  async deleteIndex({ indexName }: DeleteIndexParams): Promise<void> {
+    this.indexes.delete(indexName);
+  }
+
+  async updateVector({ indexName, id, update }: UpdateVectorParams): Promise<void> {
+    const entry = this.getIndex(indexName).vectors.get(id);
+    if (!entry) {
+      throw new Error(`Vector "${id}" not found in index "${indexName}"`);
+    }
+    if (update.vector) entry.vector = update.vector;
+    if (update.metadata) entry.metadata = update.metadata;
+  }
+
+  async deleteVector({ indexName, id }: DeleteVectorParams): Promise<void> {
+    this.getIndex(indexName).vectors.delete(id);
+  }
+
+  // Direct access used by lexical search and id lookups, which the
+  // MastraVector API does not cover
+  scan(indexName: string): StoredVector[] {
+    const index = this.indexes.get(indexName);
+    return index ? Array.from(index.vectors.values()) : [];
+  }
+
+  get(indexName: string, ids: string[]): StoredVector[] {
+    const index = this.indexes.get(indexName);
+    if (!index) return [];
+    return ids.map(id => index.vectors.get(id)).filter((entry): entry is StoredVector => Boolean(entry));
+  }
+}
@@ -0,0 +1,162 @@
+// Records which embedding model built each vector index and refuses to mix models.
+// Vectors from different models live in unrelated spaces, so a mismatched query
+// would silently return garbage.
+
+import type { EmbeddingProvider } from "./embeddings.js";
+import { getSqlCacheKey, getSqlClient, type SqlClient } from "./sql.js";
+
+export interface IndexCatalogEntry {
+  indexName: string;
+  embeddingModel: string;
+  dimension: number;
+  createdAt: string;
+}
+
+const catalogReady = new WeakMap<object, Promise<void>>();
+
+// Stores without a SQL database keep their catalog in process
+const inMemoryCatalogs = new WeakMap<object, Map<string, IndexCatalogEntry>>();
+
+async function ensureCatalogSchema(vectorStore: any, sql: SqlClient): Promise<void> {
+  const key = getSqlCacheKey(vectorStore);
+
+  if (!catalogReady.has(key)) {
+    const ready = sql.query(`
+      CREATE TABLE IF NOT EXISTS vector_index_catalog (
+        index_name TEXT PRIMARY KEY,
+        embedding_model TEXT NOT NULL,
+        dimension INTEGER NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `).then(() => undefined);
+
+    ready.catch(() => catalogReady.delete(key));
+    catalogReady.set(key, ready);
+  }
+
+  await catalogReady.get(key);
+}
+
+function getInMemoryCatalog(vectorStore: any): Map<string, IndexCatalogEntry> {
+  if (!inMemoryCatalogs.has(vectorStore)) {
+    inMemoryCatalogs.set(vectorStore, new Map());
+  }
+  return inMemoryCatalogs.get(vectorStore)!;
+}
+
+export async function getIndexCatalogEntry(vectorStore: any, indexName: string): Promise<IndexCatalogEntry | null> {
+  const sql = getSqlClient(vectorStore);
+  if (!sql) {
+    return getInMemoryCatalog(vectorStore).get(indexName) || null;
+  }
+
+  await ensureCatalogSchema(vectorStore, sql);
+  const [row] = await sql.query(
+    `SELECT index_name, embedding_model, dimension, created_at FROM vector_index_catalog WHERE index_name = ?`,
+    [indexName]
+  );
+
+  if (!row) return null;
+
+  return {
+    indexName: row.index_name,
+    embeddingModel: row.embedding_model,
+    dimension: Number(row.dimension),
+    createdAt: new Date(row.created_at).toISOString(),
+  };
+}
+
+async function recordCatalogEntry(vectorStore: any, indexName: string, embeddingModel: string, dimension: number): Promise<void> {
+  const sql = getSqlClient(vectorStore);
+  if (!sql) {
+    const catalog = getInMemoryCatalog(vectorStore);
+    if (!catalog.has(indexName)) {
+      catalog.set(indexName, { indexName, embeddingModel, dimension, createdAt: new Date().toISOString() });
+    }
+    return;
+  }
+
+  await ensureCatalogSchema(vectorStore, sql);
+  await sql.query(
+    `INSERT INTO vector_index_catalog (index_name, embedding_model, dimension)
+     VALUES (?, ?, ?)
+     ON CONFLICT (index_name) DO NOTHING`,
+    [indexName, embeddingModel, dimension]
+  );
+}
+
+// After the index itself was deleted
+export async function removeIndexCatalogEntry(vectorStore: any, indexName: string): Promise<void> {
+  const sql = getSqlClient(vectorStore);
+  if (!sql) {
+    getInMemoryCatalog(vectorStore).delete(indexName);
+    return;
+  }
+
+  await ensureCatalogSchema(vectorStore, sql);
+  await sql.query(`DELETE FROM vector_index_catalog WHERE index_name = ?`, [indexName]);
+}
+
+function mismatchError(indexName: string, recorded: string, requested: string): Error {
+  return new Error(
+    `Index "${indexName}" was built with embedding model ${recorded} but the configured model is ${requested}. ` +
+    `Switch EMBEDDING_PROVIDER/EMBEDDING_MODEL/EMBEDDING_DIMENSION back or re-ingest into a new index.`
+  );
+}
+
+// Ids carry the dimension only when one is configured, so an index recorded as
+// "openai:text-embedding-3-small" with 1536 dimensions matches "openai:text-embedding-3-small:1536"
+async function isSameEmbeddingModel(entry: IndexCatalogEntry, provider: EmbeddingProvider): Promise<boolean> {
+  if (entry.embeddingModel === provider.id) return true;
+  const qualify = (id: string, dimension: number) => (id.endsWith(`:${dimension}`) ? id : `${id}:${dimension}`);
+  return qualify(entry.embeddingModel, entry.dimension) === qualify(provider.id, await provider.getDimension());
+}
+
+// Before querying: the index must be unknown (nothing to search yet) or built by this model
+export async function assertIndexEmbeddingModel(
+  vectorStore: any,
+  indexName: string,
+  provider: EmbeddingProvider
+): Promise<void> {
+  const entry = await getIndexCatalogEntry(vectorStore, indexName);
+  if (entry && !(await isSameEmbeddingModel(entry, provider))) {
+    throw mismatchError(indexName, entry.embeddingModel, provider.id);
+  }
+}
+
+// Before upserting: create the index sized for the model and record the model,
+// or verify an existing index was built by it
+export async function ensureEmbeddingIndex(
+  vectorStore: any,
+  indexName: string,
+  provider: EmbeddingProvider
+): Promise<void> {
+  const dimension = await provider.getDimension();
+  const entry = await getIndexCatalogEntry(vectorStore, indexName);
+
+  if (entry) {
+    if (!(await isSameEmbeddingModel(entry, provider))) {
+      throw mismatchError(indexName, entry.embeddingModel, provider.id);
+    }
+    return;
+  }
+
+  const existingIndexes: string[] = await vectorStore.listIndexes();
+  if (existingIndexes.includes(indexName)) {
+    // Index predates the catalog: adopt it only if the vector size fits
+    const stats = await vectorStore.describeIndex({ indexName });
+    if (stats.dimension !== dimension) {
+      throw new Error(
+        `Index "${indexName}" stores ${stats.dimension}-dimensional vectors but ${provider.id} produces ${dimension}. ` +
+        `Re-ingest into a new index to switch embedding models.`
+      );
+    }
+  } else {
+    await vectorStore.createIndex({ indexName, dimension });
+  }
+
+  await recordCatalogEntry(vectorStore, indexName, provider.id, dimension);
+
+  // A concurrent writer may have registered a different model first
+  await assertIndexEmbeddingModel(vectorStore, indexName, provider);
+}
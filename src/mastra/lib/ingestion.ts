@@ -0,0 +1,217 @@
+// Idempotent ingestion of one source (a file, an upload, a URL).
+// Chunk ids are derived from the source and the chunk content, and the source
+// manifest remembers which chunks the source produced last time, so re-ingesting
+// only embeds what changed and removes what disappeared. New chunks are embedded in
+// batches; when a batch fails, the batches stored before it are checkpointed in the
+// manifest, so retrying the source only embeds the chunks that are still missing.
+// Every chunk records its document id and ordinal, so retrieval can return the chunks
+// around a match.
+
+import { createHash } from "crypto";
+import { deleteChunks, loadChunks } from "./chunk-store.js";
+import { getEmbeddingProvider, type EmbeddingProvider } from "./embeddings.js";
+import { extractChunkEntities, getEntityExtractor } from "./entities.js";
+import { recordEntityGraph } from "./entity-graph.js";
+import { ensureEmbeddingIndex } from "./index-catalog.js";
+import { provenanceMetadata, type ProvenanceLevel } from "./provenance.js";
+import { getSourceManifest, writeSourceManifest, type ManifestChunk } from "./source-manifest.js";
+
+export interface IngestChunk {
+  text: string;
+  metadata?: Record<string, any>;
+}
+
+interface IngestSourceOptions {
+  indexName: string;
+  source: string;
+  chunks: IngestChunk[];
+  // Stored on every chunk of the source
+  metadata?: Record<string, any>;
+  // Model of the target collection; defaults to the EMBEDDING_* settings
+  embeddingProvider?: EmbeddingProvider;
+  // Chunks embedded and stored per request
+  batchSize?: number;
+  // How the content entered the knowledge base; uploads unless stated otherwise
+  provenance?: ProvenanceLevel;
+  // `source` field of the stored chunks when it is not the source key itself:
+  // web pages are keyed by URL but stored with `source: "web_search"`
+  storedSource?: string;
+}
+
+export interface IngestSourceResult {
+  // Chunk ids of the source after ingestion, in document order
+  chunkIds: string[];
+  added: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+  embeddingsGenerated: number;
+  entitiesExtracted: number;
+}
+
+export function hashContent(text: string | Buffer): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+// Repeated identical chunks within one source are told apart by occurrence
+export function createChunkId(source: string, contentHash: string, occurrence = 0): string {
+  return hashContent(`${source}\u0000${contentHash}\u0000${occurrence}`).slice(0, 32);
+}
+
+// Same for every chunk of a source, whichever collection it is stored in
+export function createDocumentId(source: string): string {
+  return hashContent(`document\u0000${source}`).slice(0, 32);
+}
+
+const DEFAULT_BATCH_SIZE = 100;
+
+// Chunk metadata that depends on where the chunk sits in the document, not on its text
+const positionMetadataKeys = ["parentSection", "startOffset", "endOffset", "startLine", "endLine"];
+
+function positionMetadata(documentId: string, ordinal: number, chunk: IngestChunk): Record<string, any> {
+  const position: Record<string, any> = { documentId, ordinal };
+  for (const key of positionMetadataKeys) {
+    if (chunk.metadata?.[key] !== undefined) position[key] = chunk.metadata[key];
+  }
+  return position;
+}
+
+export async function ingestSource(
+  vectorStore: any,
+  {
+    indexName,
+    source,
+    chunks,
+    metadata = {},
+    embeddingProvider = getEmbeddingProvider(),
+    batchSize = DEFAULT_BATCH_SIZE,
+    provenance = "user-upload",
+    storedSource = source,
+  }: IngestSourceOptions
+): Promise<IngestSourceResult> {
+  const documentId = createDocumentId(source);
+  const occurrences = new Map<string, number>();
+  const current: ManifestChunk[] = chunks.map((chunk, ordinal) => {
+    const contentHash = hashContent(chunk.text);
+    const occurrence = occurrences.get(contentHash) || 0;
+    occurrences.set(contentHash, occurrence + 1);
+    return { chunkId: createChunkId(source, contentHash, occurrence), ordinal, contentHash };
+  });
+
+  const previous = await getSourceManifest(vectorStore, indexName, source);
+  const previousIds = new Set(previous.map(chunk => chunk.chunkId));
+  const currentIds = new Set(current.map(chunk => chunk.chunkId));
+  const stale = previous.filter(chunk => !currentIds.has(chunk.chunkId));
+  const staleOrdinals = new Set(stale.map(chunk => chunk.ordinal));
+
+  // A new chunk taking the place of a stale one at the same position counts as
+  // an update of that chunk; any other new chunk is an addition
+  const pending = current.filter(chunk => !previousIds.has(chunk.chunkId));
+  const updated = pending.filter(chunk => staleOrdinals.has(chunk.ordinal)).length;
+
+  const result: IngestSourceResult = {
+    chunkIds: current.map(chunk => chunk.chunkId),
+    added: pending.length - updated,
+    updated,
+    unchanged: current.length - pending.length,
+    removed: stale.length - updated,
+    embeddingsGenerated: 0,
+    entitiesExtracted: 0,
+  };
+
+  if (pending.length > 0) {
+    await ensureEmbeddingIndex(vectorStore, indexName, embeddingProvider);
+
+    const now = new Date();
+    const ingestedAt = now.toISOString();
+    const entityExtractor = getEntityExtractor();
+    const entities = new Set<string>();
+    const stored: ManifestChunk[] = [];
+    const batches = Math.ceil(pending.length / batchSize);
+
+    for (let start = 0; start < pending.length; start += batchSize) {
+      const batch = pending.slice(start, start + batchSize);
+      const texts = batch.map(chunk => chunks[chunk.ordinal].text);
+      let chunkEntities: string[][];
+
+      try {
+        const embeddings = await embeddingProvider.embed(texts);
+        chunkEntities = await extractChunkEntities(entityExtractor, texts);
+
+        await vectorStore.upsert({
+          indexName,
+          ids: batch.map(chunk => chunk.chunkId),
+          vectors: embeddings,
+          metadata: batch.map((chunk, i) => ({
+            ...metadata,
+            ...chunks[chunk.ordinal].metadata,
+            documentId,
+            ordinal: chunk.ordinal,
+            text: texts[i],
+            entities: chunkEntities[i],
+            entityExtractor: entityExtractor.name,
+            source: storedSource,
+            contentHash: chunk.contentHash,
+            ingestedAt,
+            // Numeric twin of ingestedAt: vector stores only support ranges on numbers
+            storedAt: now.getTime(),
+            ...provenanceMetadata(provenance),
+          })),
+        });
+      } catch (error) {
+        // The previous chunks stay listed, so stale ones are still removed by the retry
+        if (stored.length > 0) {
+          await writeSourceManifest(vectorStore, indexName, source, [...previous, ...stored]);
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(
+          `Embedding batch ${start / batchSize + 1} of ${batches} failed for ${source} (${stored.length} chunks stored): ${message}`
+        );
+      }
+
+      stored.push(...batch);
+      result.embeddingsGenerated += batch.length;
+      chunkEntities.flat().forEach(entity => entities.add(entity));
+
+      // Persist entities, mentions and co-occurrence edges
+      try {
+        await recordEntityGraph(
+          vectorStore,
+          indexName,
+          batch.map((chunk, i) => ({ id: chunk.chunkId, entities: chunkEntities[i] }))
+        );
+      } catch (error) {
+        console.warn("Entity graph update failed, chunks are stored without graph links:", error);
+      }
+    }
+
+    result.entitiesExtracted = entities.size;
+  }
+
+  // Unchanged chunks keep their embedding, but text inserted or removed before them moves
+  // them (and chunks stored before positions were recorded have none), so it is updated in place
+  const unchanged = current.filter(chunk => previousIds.has(chunk.chunkId));
+  if (unchanged.length > 0) {
+    try {
+      const positions = new Map(unchanged.map(chunk =>
+        [chunk.chunkId, positionMetadata(documentId, chunk.ordinal, chunks[chunk.ordinal])]
+      ));
+      for (const stored of await loadChunks(vectorStore, indexName, unchanged.map(chunk => chunk.chunkId))) {
+        const position = positions.get(stored.id)!;
+        if (Object.entries(position).some(([key, value]) => stored.metadata[key] !== value)) {
+          await vectorStore.updateVector({ indexName, id: stored.id, update: { metadata: { ...stored.metadata, ...position } } });
+        }
+      }
+    } catch (error) {
+      console.warn(`Updating chunk positions failed for ${source}, context expansion may use stale ones:`, error);
+    }
+  }
+
+  await deleteChunks(vectorStore, indexName, stale.map(chunk => chunk.chunkId));
+
+  if (pending.length > 0 || stale.length > 0 || current.some((chunk, i) => previous[i]?.chunkId !== chunk.chunkId)) {
+    await writeSourceManifest(vectorStore, indexName, source, current);
+  }
+
+  return result;
+}
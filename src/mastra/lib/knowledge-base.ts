@@ -0,0 +1,117 @@
+// Read and maintenance operations over the stored chunks of an index:
+// list sources, inspect one, delete and re-tag by source, URL or originating query.
+
+import { deleteChunks, scanChunks, type StoredChunk } from "./chunk-store.js";
+import { getProvenance, type ProvenanceLevel } from "./provenance.js";
+import { removeManifestChunks, removeSourceFile } from "./source-manifest.js";
+
+export interface SourceSummary {
+  source: string;
+  kind: "file" | "chat" | "web";
+  chunkCount: number;
+  contentType?: string;
+  title?: string;
+  url?: string;
+  originalQuery?: string;
+  entityExtractor?: string;
+  provenance: ProvenanceLevel;
+  // Most recent ingestion time across the source's chunks, when recorded
+  lastIngestedAt?: string;
+}
+
+export interface ChunkSelector {
+  source?: string;
+  url?: string;
+  originalQuery?: string;
+}
+
+// Metadata the pipeline relies on; re-tagging may not change it
+const reservedMetadataKeys = ["text", "entities", "entityExtractor", "source", "contentHash", "url", "storedAt", "startOffset", "endOffset", "provenance", "trustScore", "documentId", "ordinal", "parentSection"];
+
+// Web results share `source: "web_search"`, so their URL identifies the source
+export function getSourceKey(metadata: Record<string, any>): string {
+  if (metadata.source === "web_search") {
+    return metadata.url || "web_search";
+  }
+  return metadata.source || "unknown";
+}
+
+function getSourceKind(metadata: Record<string, any>): SourceSummary["kind"] {
+  if (metadata.source === "web_search") return "web";
+  return metadata.uploadedVia === "chat" ? "chat" : "file";
+}
+
+export async function listSources(vectorStore: any, indexName: string): Promise<SourceSummary[]> {
+  const summaries = new Map<string, SourceSummary>();
+
+  for (const { metadata } of await scanChunks(vectorStore, indexName)) {
+    const source = getSourceKey(metadata);
+    const summary: SourceSummary = summaries.get(source) || {
+      source,
+      kind: getSourceKind(metadata),
+      chunkCount: 0,
+      contentType: metadata.contentType,
+      title: metadata.title,
+      url: metadata.url,
+      originalQuery: metadata.originalQuery,
+      entityExtractor: metadata.entityExtractor,
+      provenance: getProvenance(metadata),
+    };
+
+    summary.chunkCount++;
+    const ingestedAt = metadata.ingestedAt || metadata.timestamp;
+    if (ingestedAt && (!summary.lastIngestedAt || ingestedAt > summary.lastIngestedAt)) {
+      summary.lastIngestedAt = ingestedAt;
+    }
+    summaries.set(source, summary);
+  }
+
+  return Array.from(summaries.values()).sort((a, b) => a.source.localeCompare(b.source));
+}
+
+// Chunks matching every given selector field; at least one field is required
+export async function findChunks(vectorStore: any, indexName: string, selector: ChunkSelector): Promise<StoredChunk[]> {
+  const { source, url, originalQuery } = selector;
+  if (!source && !url && !originalQuery) {
+    throw new Error("Specify a source, url or originalQuery to select documents");
+  }
+
+  return (await scanChunks(vectorStore, indexName)).filter(({ metadata }) =>
+    (!source || getSourceKey(metadata) === source || metadata.source === source) &&
+    (!url || metadata.url === url) &&
+    (!originalQuery || metadata.originalQuery === originalQuery)
+  );
+}
+
+export async function deleteDocuments(vectorStore: any, indexName: string, chunks: StoredChunk[]): Promise<number> {
+  const ids = chunks.map(chunk => chunk.id);
+  await deleteChunks(vectorStore, indexName, ids);
+  await removeManifestChunks(vectorStore, indexName, ids);
+
+  // Forget sync state so directory sync ingests the files again on its next run
+  for (const source of new Set(chunks.map(chunk => chunk.metadata.source).filter(Boolean))) {
+    await removeSourceFile(vectorStore, indexName, source);
+  }
+  return ids.length;
+}
+
+// Merge `set` into each chunk's metadata and drop `unset` keys
+export async function retagDocuments(
+  vectorStore: any,
+  indexName: string,
+  chunks: StoredChunk[],
+  { set = {}, unset = [] }: { set?: Record<string, any>; unset?: string[] }
+): Promise<number> {
+  const protectedKeys = [...Object.keys(set), ...unset].filter(key => reservedMetadataKeys.includes(key));
+  if (protectedKeys.length > 0) {
+    throw new Error(`These metadata keys cannot be re-tagged: ${protectedKeys.join(", ")}`);
+  }
+
+  for (const chunk of chunks) {
+    const metadata: Record<string, any> = { ...chunk.metadata, ...set };
+    unset.forEach(key => delete metadata[key]);
+    await vectorStore.updateVector({ indexName, id: chunk.id, update: { metadata } });
+  }
+
+  return chunks.length;
+}
@@ -0,0 +1,143 @@
+// Lexical retrieval over the chunk `text` metadata using Postgres full-text search,
+// or in-process BM25 for backends without it (LibSQL, in-memory).
+// Complements dense retrieval for exact identifiers, error codes and rare names.
+
+import { scanChunks } from "./chunk-store.js";
+import { matchesFilter } from "./in-memory-vector.js";
+import { getIndexTableName, getSqlCacheKey, getSqlClient, type SqlClient } from "./sql.js";
+
+interface LexicalSearchOptions {
+  indexName: string;
+  query: string;
+  topK: number;
+  filter?: Record<string, any>;
+}
+
+const textSearchConfig = "english";
+
+// Per database, as two databases may hold tables of the same name
+const ftsIndexReady = new WeakMap<object, Map<string, Promise<void>>>();
+
+function getReadyIndexes(vectorStore: any): Map<string, Promise<void>> {
+  const key = getSqlCacheKey(vectorStore);
+  if (!ftsIndexReady.has(key)) ftsIndexReady.set(key, new Map());
+  return ftsIndexReady.get(key)!;
+}
+
+// GIN index on the same expression the search uses, created once per table
+async function ensureTextSearchIndex(vectorStore: any, sql: SqlClient, indexName: string): Promise<void> {
+  const tableName = getIndexTableName(vectorStore, indexName);
+  const readyIndexes = getReadyIndexes(vectorStore);
+
+  if (!readyIndexes.has(tableName)) {
+    const ready = sql.query(
+      `CREATE INDEX IF NOT EXISTS "${indexName}_text_fts_idx"
+       ON ${tableName} USING GIN (to_tsvector('${textSearchConfig}', coalesce(metadata->>'text', '')))`
+    ).then(() => undefined);
+
+    ready.catch(() => readyIndexes.delete(tableName));
+    readyIndexes.set(tableName, ready);
+  }
+
+  return readyIndexes.get(tableName);
+}
+
+// A dropped index loses its text search index; the next search recreates it
+export function forgetTextSearchIndex(vectorStore: any, indexName: string): void {
+  if (getSqlClient(vectorStore)?.dialect === "postgres") {
+    getReadyIndexes(vectorStore).delete(getIndexTableName(vectorStore, indexName));
+  }
+}
+
+const termPattern = /[\p{L}\p{N}](?:[\p{L}\p{N}_.-]*[\p{L}\p{N}])?/gu;
+
+function tokenize(text: string): string[] {
+  return (text.match(termPattern) || []).map(term => term.toLowerCase());
+}
+
+// Filtered searches fetch a deeper candidate list and apply the filter afterwards
+const filteredCandidateFactor = 10;
+
+// Any query term may match; ts_rank_cd rewards chunks matching more terms close together.
+// Rank normalization 32 maps scores into [0, 1).
+async function postgresSearch(
+  vectorStore: any,
+  sql: SqlClient,
+  { indexName, topK, filter }: LexicalSearchOptions,
+  terms: string[]
+): Promise<any[]> {
+  await ensureTextSearchIndex(vectorStore, sql, indexName);
+
+  const rows = await sql.query(
+    `WITH search AS (
+       SELECT to_tsquery('${textSearchConfig}', string_agg(quote_literal(term), ' | ')) AS query
+       FROM unnest(?::text[]) AS term
+     )
+     SELECT vector_id AS id, metadata,
+            ts_rank_cd(to_tsvector('${textSearchConfig}', coalesce(metadata->>'text', '')), search.query, 32) AS score
+     FROM ${getIndexTableName(vectorStore, indexName)}, search
+     WHERE to_tsvector('${textSearchConfig}', coalesce(metadata->>'text', '')) @@ search.query
+     ORDER BY score DESC
+     LIMIT ?`,
+    [terms, filter ? topK * filteredCandidateFactor : topK]
+  );
+
+  return rows
+    .map((row: any) => ({
+      id: row.id,
+      score: Number(row.score),
+      metadata: row.metadata,
+    }))
+    .filter((result: any) => matchesFilter(result.metadata || {}, filter))
+    .slice(0, topK);
+}
+
+// Okapi BM25 over a full scan of the index. Fine for the local-sized corpora these
+// backends hold; scores are mapped into [0, 1) like the Postgres ranking.
+async function bm25Search(
+  vectorStore: any,
+  { indexName, topK, filter }: LexicalSearchOptions,
+  terms: string[],
+  k1 = 1.2,
+  b = 0.75
+): Promise<any[]> {
+  const chunks = (await scanChunks(vectorStore, indexName)).filter(chunk => matchesFilter(chunk.metadata || {}, filter));
+  if (chunks.length === 0) return [];
+
+  const queryTerms = Array.from(new Set(terms));
+  const documents = chunks.map(chunk => {
+    const tokens = tokenize(chunk.metadata?.text || "");
+    const frequencies = new Map<string, number>();
+    tokens.forEach(token => frequencies.set(token, (frequencies.get(token) || 0) + 1));
+    return { chunk, length: tokens.length, frequencies };
+  });
+
+  const averageLength = documents.reduce((sum, doc) => sum + doc.length, 0) / documents.length || 1;
+  const idf = new Map(queryTerms.map(term => {
+    const documentFrequency = documents.filter(doc => doc.frequencies.has(term)).length;
+    return [term, Math.log(1 + (documents.length - documentFrequency + 0.5) / (documentFrequency + 0.5))];
+  }));
+
+  return documents
+    .map(({ chunk, length, frequencies }) => {
+      const score = queryTerms.reduce((sum, term) => {
+        const frequency = frequencies.get(term) || 0;
+        if (frequency === 0) return sum;
+        return sum + idf.get(term)! * (frequency * (k1 + 1)) / (frequency + k1 * (1 - b + b * length / averageLength));
+      }, 0);
+      return { id: chunk.id, score: score / (score + 1), metadata: chunk.metadata };
+    })
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+}
+
+export async function lexicalSearch(vectorStore: any, options: LexicalSearchOptions): Promise<any[]> {
+  const terms = tokenize(options.query);
+  if (terms.length === 0) return [];
+
+  const sql = getSqlClient(vectorStore);
+  return sql?.dialect === "postgres"
+    ? postgresSearch(vectorStore, sql, options, terms)
+    : bm25Search(vectorStore, options, terms);
+}
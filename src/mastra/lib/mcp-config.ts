@@ -0,0 +1,131 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { z } from "zod";
+
+// MCP servers are declared in mcp.config.json instead of in source. Secrets stay in the
+// environment and are interpolated into the config with ${VAR} or ${VAR:-default}; each
+// server decides which of its tools the agent may see.
+
+const toolFilterSchema = z.object({
+  // Tool names as the server reports them; "*" matches any characters
+  allow: z.array(z.string()).optional(),
+  deny: z.array(z.string()).optional(),
+});
+
+const mcpServerConfigSchema = z
+  .object({
+    enabled: z.boolean().default(true),
+    // stdio servers
+    command: z.string().optional(),
+    args: z.array(z.string()).default([]),
+    env: z.record(z.string()).optional(),
+    // HTTP (Streamable HTTP or SSE) servers
+    url: z.string().optional(),
+    headers: z.record(z.string()).optional(),
+    tools: toolFilterSchema.default({}),
+    // Hide tools that write, move or delete, e.g. on the filesystem server
+    readOnly: z.boolean().default(false),
+    // Per-request timeout
+    timeoutMs: z.number().optional(),
+  })
+  .refine(server => Boolean(server.command) !== Boolean(server.url), {
+    message: "A server needs either a command (stdio) or a url (HTTP), not both",
+  });
+
+export const mcpConfigSchema = z.object({
+  servers: z.record(mcpServerConfigSchema),
+});
+
+export type McpServerConfig = z.infer<typeof mcpServerConfigSchema>;
+
+export interface LoadedMcpConfig {
+  // Absolute path of the config file; undefined when none was found
+  path?: string;
+  servers: Record<string, McpServerConfig>;
+}
+
+// `mastra dev` runs from .mastra/output, two levels below the project
+const CONFIG_CANDIDATES = ["mcp.config.json", path.join("..", "..", "mcp.config.json")];
+
+// Find and parse the config: MCP_CONFIG, else mcp.config.json in or above the working directory
+export async function loadMcpConfig(configPath = process.env.MCP_CONFIG): Promise<LoadedMcpConfig> {
+  const candidates = configPath ? [configPath] : CONFIG_CANDIDATES;
+
+  for (const candidate of candidates) {
+    const resolved = path.resolve(candidate);
+    let text: string;
+    try {
+      text = await fs.readFile(resolved, "utf-8");
+    } catch (error: any) {
+      if (error.code === "ENOENT" && !configPath) continue;
+      throw new Error(`Cannot read MCP config ${resolved}: ${error.message}`);
+    }
+
+    const parsed = mcpConfigSchema.safeParse(JSON.parse(text));
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new Error(`Invalid MCP config ${resolved} at ${issue.path.join(".") || "root"}: ${issue.message}`);
+    }
+    return { path: resolved, servers: parsed.data.servers };
+  }
+
+  return { servers: {} };
+}
+
+// Replace ${VAR} and ${VAR:-default}. ${CONFIG_DIR} is the directory of the config file.
+// Returns the names of variables that are neither set nor defaulted.
+export function interpolateEnv(
+  value: string,
+  env: Record<string, string | undefined>
+): { value: string; missing: string[] } {
+  const missing: string[] = [];
+  const interpolated = value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g, (_, name: string, fallback?: string) => {
+    const resolved = env[name] || fallback;
+    if (resolved === undefined) {
+      missing.push(name);
+      return "";
+    }
+    return resolved;
+  });
+  return { value: interpolated, missing };
+}
+
+// The server config with every string interpolated, or the variables it is missing
+export function resolveServerSecrets(
+  server: McpServerConfig,
+  env: Record<string, string | undefined>
+): { server: McpServerConfig; missing: string[] } {
+  const missing = new Set<string>();
+  const resolve = (value: string) => {
+    const result = interpolateEnv(value, env);
+    result.missing.forEach(name => missing.add(name));
+    return result.value;
+  };
+  const resolveRecord = (record?: Record<string, string>) =>
+    record && Object.fromEntries(Object.entries(record).map(([key, value]) => [key, resolve(value)]));
+
+  const resolved: McpServerConfig = {
+    ...server,
+    ...(server.command ? { command: resolve(server.command) } : {}),
+    args: server.args.map(resolve),
+    ...(server.env ? { env: resolveRecord(server.env) } : {}),
+    ...(server.url ? { url: resolve(server.url) } : {}),
+    ...(server.headers ? { headers: resolveRecord(server.headers) } : {}),
+  };
+  return { server: resolved, missing: Array.from(missing) };
+}
+
+// Verbs of tools that change something; hidden on read-only servers
+const mutatingToolPattern = /^(write|edit|create|move|rename|delete|remove|update|upload|insert|set|put|patch|drop)(_|-|$)/i;
+
+function matchesToolPattern(toolName: string, pattern: string): boolean {
+  const expression = pattern.split("*").map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+  return new RegExp(`^${expression}$`).test(toolName);
+}
+
+// Deny wins over allow; without an allowlist every tool not denied is allowed
+export function isToolAllowed(server: McpServerConfig, toolName: string): boolean {
+  if (server.readOnly && mutatingToolPattern.test(toolName)) return false;
+  if (server.tools.deny?.some(pattern => matchesToolPattern(toolName, pattern))) return false;
+  return !server.tools.allow || server.tools.allow.some(pattern => matchesToolPattern(toolName, pattern));
+}
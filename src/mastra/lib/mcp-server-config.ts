@@ -0,0 +1,92 @@
+import { timingSafeEqual } from "crypto";
+import { promises as fs } from "fs";
+import * as path from "path";
+import { z } from "zod";
+import { DEFAULT_COLLECTION } from "./collections.js";
+import { interpolateEnv } from "./mcp-config.js";
+
+// Who may use the knowledge base MCP server, and with what. Each client (an IDE
+// assistant, a CI bot, ...) authenticates with its own token, sees only its collections,
+// and is either read-only or may also ingest and delete documents. Tokens come from the
+// environment with ${VAR}, like the secrets in mcp.config.json.
+
+const mcpClientSchema = z.object({
+  name: z.string().min(1),
+  // Bearer token for the HTTP transport; not needed for stdio
+  token: z.string().optional(),
+  // "*" for every collection; otherwise the first one is the client's default
+  collections: z.union([z.literal("*"), z.array(z.string()).min(1)]).default("*"),
+  access: z.enum(["read", "read-write"]).default("read"),
+});
+
+export const mcpServerConfigSchema = z.object({
+  clients: z.array(mcpClientSchema),
+});
+
+export type McpClient = z.infer<typeof mcpClientSchema>;
+
+// Used over stdio when no config exists: the process owner has full access
+export const localMcpClient: McpClient = { name: "local", collections: "*", access: "read-write" };
+
+const CONFIG_CANDIDATES = ["mcp-server.config.json", path.join("..", "..", "mcp-server.config.json")];
+
+// Clients from KB_MCP_CONFIG, else mcp-server.config.json; clients whose token
+// variables are not set are left out. Returns undefined when there is no config.
+export async function loadMcpClients(configPath = process.env.KB_MCP_CONFIG): Promise<McpClient[] | undefined> {
+  for (const candidate of configPath ? [configPath] : CONFIG_CANDIDATES) {
+    let text: string;
+    try {
+      text = await fs.readFile(path.resolve(candidate), "utf-8");
+    } catch (error: any) {
+      if (error.code === "ENOENT" && !configPath) continue;
+      throw new Error(`Cannot read MCP server config ${candidate}: ${error.message}`);
+    }
+
+    const parsed = mcpServerConfigSchema.safeParse(JSON.parse(text));
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new Error(`Invalid MCP server config ${candidate} at ${issue.path.join(".") || "root"}: ${issue.message}`);
+    }
+
+    return parsed.data.clients.flatMap(client => {
+      if (!client.token) return [client];
+      const { value, missing } = interpolateEnv(client.token, process.env);
+      if (missing.length > 0) {
+        console.warn(`⚠️ MCP client "${client.name}" disabled: ${missing.join(", ")} not set`);
+        return [];
+      }
+      return [{ ...client, token: value }];
+    });
+  }
+  return undefined;
+}
+
+function tokensMatch(expected: string, actual: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// The client a bearer token belongs to
+export function authenticateMcpClient(clients: McpClient[], authorization?: string): McpClient | undefined {
+  const token = /^Bearer\s+(.+)$/i.exec(authorization || "")?.[1].trim();
+  if (!token) return undefined;
+  return clients.find(client => client.token && tokensMatch(client.token, token));
+}
+
+export function getClientDefaultCollection(client: McpClient): string {
+  return client.collections === "*" ? DEFAULT_COLLECTION : client.collections[0];
+}
+
+export function canAccessCollection(client: McpClient, collection: string): boolean {
+  return client.collections === "*" || client.collections.includes(collection);
+}
+
+// The requested collection, or the client's default; fails outside the client's scope
+export function resolveClientCollection(client: McpClient, requested?: string): string {
+  const collection = requested || getClientDefaultCollection(client);
+  if (!canAccessCollection(client, collection)) {
+    throw new Error(`Collection "${collection}" is not available to MCP client "${client.name}"`);
+  }
+  return collection;
+}
@@ -0,0 +1,140 @@
+// Typed metadata filters for knowledge-base queries, compiled to the MongoDB-style
+// syntax the vector stores accept. LibSQL has no prefix or regex operator, so there
+// a prefix is widened to a substring match and the exact filter is applied to the
+// results afterwards.
+
+import { z } from "zod";
+import { getSqlClient } from "./sql.js";
+
+const scalarSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+export const fieldConditionSchema = z.union([
+  scalarSchema,
+  z.object({
+    eq: scalarSchema.optional().describe("Exact value"),
+    in: z.array(scalarSchema).optional().describe("Any of these values"),
+    prefix: z.string().optional().describe("Text the value starts with, e.g. a directory path"),
+    after: z.string().optional().describe("On or after this ISO 8601 date or time (date fields only)"),
+    before: z.string().optional().describe("Strictly before this ISO 8601 date or time (date fields only)"),
+  }).strict(),
+]);
+
+export const metadataFilterSchema = z.record(z.string(), fieldConditionSchema).describe(
+  "Only search chunks whose metadata matches every field. A plain value means equality. " +
+  "Fields: source (file path, upload name or \"web_search\"), contentType, uploadedVia, url, domain (of web results), title, originalQuery, " +
+  "provenance (\"user-upload\", \"user-approved-web\" or \"auto-web\"), " +
+  "and storedAt for date ranges. Example: { \"source\": \"web_search\", \"storedAt\": { \"after\": \"2024-06-03\" } }"
+);
+
+export type FieldCondition = z.infer<typeof fieldConditionSchema>;
+export type MetadataFilter = z.infer<typeof metadataFilterSchema>;
+
+export interface VectorFilter {
+  // Filter in the vector store's dialect; may match more than `exact` when `approximate`
+  native?: Record<string, any>;
+  // Exact semantics, evaluated in process with matchesFilter
+  exact?: Record<string, any>;
+  approximate: boolean;
+}
+
+type FilterDialect = "postgres" | "sqlite" | "memory";
+
+// Date ranges run on the numeric storedAt field; the ISO timestamps are only for display
+const dateFieldAliases: Record<string, string> = {
+  storedAt: "storedAt",
+  ingestedAt: "storedAt",
+  timestamp: "storedAt",
+};
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function parseDate(field: string, value: string): number {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid date for "${field}": ${value}`);
+  }
+  return time;
+}
+
+function getFilterDialect(vectorStore: any): FilterDialect {
+  return getSqlClient(vectorStore)?.dialect || "memory";
+}
+
+function compileField(
+  field: string,
+  condition: FieldCondition,
+  dialect: FilterDialect
+): { native: Record<string, any>[]; exact: Record<string, any>[]; approximate: boolean } {
+  if (field.startsWith("$")) {
+    throw new Error(`Invalid filter field "${field}"`);
+  }
+
+  if (typeof condition !== "object") {
+    return { native: [{ [field]: condition }], exact: [{ [field]: condition }], approximate: false };
+  }
+
+  const native: Record<string, any>[] = [];
+  const exact: Record<string, any>[] = [];
+  let approximate = false;
+  const add = (clause: Record<string, any>, nativeClause = clause) => {
+    exact.push(clause);
+    native.push(nativeClause);
+  };
+
+  if (condition.eq !== undefined) add({ [field]: condition.eq });
+  if (condition.in) add({ [field]: { $in: condition.in } });
+  if (condition.prefix !== undefined) {
+    const clause = { [field]: { $regex: `^${escapeRegex(condition.prefix)}` } };
+    if (dialect === "sqlite") {
+      add(clause, { [field]: { $contains: condition.prefix } });
+      approximate = true;
+    } else {
+      add(clause);
+    }
+  }
+
+  if (condition.after !== undefined || condition.before !== undefined) {
+    const dateField = dateFieldAliases[field];
+    if (!dateField) {
+      throw new Error(`Date ranges are only supported on storedAt, not "${field}"`);
+    }
+    const range: Record<string, number> = {};
+    if (condition.after !== undefined) range.$gte = parseDate(field, condition.after);
+    if (condition.before !== undefined) range.$lt = parseDate(field, condition.before);
+    add({ [dateField]: range });
+  }
+
+  if (exact.length === 0) {
+    throw new Error(`Empty condition for filter field "${field}"`);
+  }
+  return { native, exact, approximate };
+}
+
+function combine(clauses: Record<string, any>[]): Record<string, any> | undefined {
+  if (clauses.length === 0) return undefined;
+  return clauses.length === 1 ? clauses[0] : { $and: clauses };
+}
+
+// Compile a typed filter, plus an already MongoDB-style filter that every backend
+// supports natively (such as the code search filter), for the given vector store
+export function compileMetadataFilter(
+  vectorStore: any,
+  filter?: MetadataFilter,
+  extra?: Record<string, any>
+): VectorFilter {
+  const dialect = getFilterDialect(vectorStore);
+  const native: Record<string, any>[] = extra ? [extra] : [];
+  const exact: Record<string, any>[] = extra ? [extra] : [];
+  let approximate = false;
+
+  for (const [field, condition] of Object.entries(filter || {})) {
+    const compiled = compileField(field, condition, dialect);
+    native.push(...compiled.native);
+    exact.push(...compiled.exact);
+    approximate = approximate || compiled.approximate;
+  }
+
+  return { native: combine(native), exact: combine(exact), approximate };
+}
@@ -0,0 +1,43 @@
+// Provenance policy for what enters the knowledge base. Every chunk records how it got
+// there and a trust score derived from that: the user's own documents are trusted most,
+// web results the user asked to keep less, and web results fetched automatically least.
+
+export const provenanceLevels = ["user-upload", "user-approved-web", "auto-web"] as const;
+
+export type ProvenanceLevel = (typeof provenanceLevels)[number];
+
+export const trustScores: Record<ProvenanceLevel, number> = {
+  "user-upload": 1,
+  "user-approved-web": 0.7,
+  "auto-web": 0.3,
+};
+
+// How much a result's trust counts in ranking: 0 ignores it, 1 scales scores by trust
+const TRUST_WEIGHT = process.env.TRUST_WEIGHT ? Number(process.env.TRUST_WEIGHT) : 0.3;
+
+export function provenanceMetadata(provenance: ProvenanceLevel): { provenance: ProvenanceLevel; trustScore: number } {
+  return { provenance, trustScore: trustScores[provenance] };
+}
+
+// Chunks stored before provenance was recorded: web results were stored automatically
+export function getProvenance(metadata: Record<string, any>): ProvenanceLevel {
+  if (metadata.provenance) return metadata.provenance;
+  return metadata.source === "web_search" ? "auto-web" : "user-upload";
+}
+
+export function getTrustScore(metadata: Record<string, any>): number {
+  return typeof metadata.trustScore === "number" ? metadata.trustScore : trustScores[getProvenance(metadata)];
+}
+
+// Scale reranked scores by 1 - TRUST_WEIGHT * (1 - trust), so that of two results about
+// as relevant, the more trusted one ranks first
+export function weightByTrust(results: any[], weight = TRUST_WEIGHT): any[] {
+  if (weight === 0) return results;
+
+  return results
+    .map((result: any) => {
+      const trust = getTrustScore(result.metadata || {});
+      return trust >= 1 ? result : { ...result, score: (result.score || 0) * (1 - weight * (1 - trust)) };
+    })
+    .sort((a: any, b: any) => (b.score || 0) - (a.score || 0));
+}
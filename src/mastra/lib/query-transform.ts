@@ -0,0 +1,142 @@
+import { generateObject } from "ai";
+import { openai } from "@ai-sdk/openai";
+import { z } from "zod";
+
+// Query transformation before retrieval. Vague or conversational questions retrieve
+// poorly when embedded as typed, so the query can be rewritten, expanded into
+// paraphrases, answered hypothetically (HyDE) or split into sub-questions. Every
+// variant is searched and the ranked lists are fused.
+
+export const queryTransformModes = ["none", "rewrite", "multi-query", "hyde", "decompose"] as const;
+
+export type QueryTransformMode = (typeof queryTransformModes)[number];
+
+export const queryVariantSchema = z.object({
+  kind: z.enum(["original", "rewrite", "paraphrase", "hyde", "sub-question"]),
+  // Text searched by the lexical channel
+  query: z.string(),
+  // Text embedded for the vector channel; a hypothetical answer for HyDE
+  embedText: z.string(),
+});
+
+export type QueryVariant = z.infer<typeof queryVariantSchema>;
+
+export interface QueryTransformer {
+  name: string;
+  // Variants to search besides the original query
+  transform(query: string, options: { count: number }): Promise<QueryVariant[]>;
+}
+
+const variant = (kind: QueryVariant["kind"], text: string): QueryVariant => ({ kind, query: text, embedText: text });
+
+// One standalone search query: pronouns resolved, filler dropped, key terms kept
+export function createRewriteTransformer(modelName = process.env.QUERY_TRANSFORM_MODEL || "gpt-4o-mini"): QueryTransformer {
+  return {
+    name: `rewrite:${modelName}`,
+    transform: async (query) => {
+      const { object } = await generateObject({
+        model: openai(modelName),
+        schema: z.object({ query: z.string().describe("The rewritten search query") }),
+        prompt: `Rewrite the question below into one precise search query for a document knowledge base. Keep every name, identifier and number. Make it self-contained and drop conversational filler. Do not answer it.
+
+Question: ${query}`,
+      });
+      return [variant("rewrite", object.query)];
+    },
+  };
+}
+
+// Paraphrases with different wording, so chunks phrased unlike the question are found
+export function createMultiQueryTransformer(modelName = process.env.QUERY_TRANSFORM_MODEL || "gpt-4o-mini"): QueryTransformer {
+  return {
+    name: `multi-query:${modelName}`,
+    transform: async (query, { count }) => {
+      const { object } = await generateObject({
+        model: openai(modelName),
+        schema: z.object({ queries: z.array(z.string()).describe("Alternative search queries") }),
+        prompt: `Write ${count} alternative search queries for the question below. Each should ask for the same information with different wording, synonyms or level of detail. Keep every name, identifier and number.
+
+Question: ${query}`,
+      });
+      return object.queries.slice(0, count).map(text => variant("paraphrase", text));
+    },
+  };
+}
+
+// HyDE: embed a hypothetical answer, which lies closer to answering passages than the question does.
+// The lexical channel still searches the question, as the invented details would only add noise there.
+export function createHydeTransformer(modelName = process.env.QUERY_TRANSFORM_MODEL || "gpt-4o-mini"): QueryTransformer {
+  return {
+    name: `hyde:${modelName}`,
+    transform: async (query) => {
+      const { object } = await generateObject({
+        model: openai(modelName),
+        schema: z.object({ passage: z.string().describe("A passage that answers the question") }),
+        prompt: `Write a short passage, as it could appear in documentation or a reference text, that answers the question below. Use the terminology such a document would use. Plausible details are fine; it is only used to find similar passages.
+
+Question: ${query}`,
+      });
+      return [{ kind: "hyde", query, embedText: object.passage }];
+    },
+  };
+}
+
+// Sub-questions for compound questions, each answered by different chunks
+export function createDecomposeTransformer(modelName = process.env.QUERY_TRANSFORM_MODEL || "gpt-4o-mini"): QueryTransformer {
+  return {
+    name: `decompose:${modelName}`,
+    transform: async (query, { count }) => {
+      const { object } = await generateObject({
+        model: openai(modelName),
+        schema: z.object({ questions: z.array(z.string()).describe("Self-contained sub-questions") }),
+        prompt: `Break the question below into at most ${count} simpler, self-contained sub-questions that together answer it. A simple question needs only one. Keep every name, identifier and number.
+
+Question: ${query}`,
+      });
+      return object.questions.slice(0, count).map(text => variant("sub-question", text));
+    },
+  };
+}
+
+// Resolve a transformer by mode, falling back to QUERY_TRANSFORM; undefined for "none"
+export function getQueryTransformer(mode?: string): QueryTransformer | undefined {
+  const selected = (mode || process.env.QUERY_TRANSFORM || "none") as QueryTransformMode;
+  switch (selected) {
+    case "none":
+      return undefined;
+    case "rewrite":
+      return createRewriteTransformer();
+    case "multi-query":
+      return createMultiQueryTransformer();
+    case "hyde":
+      return createHydeTransformer();
+    case "decompose":
+      return createDecomposeTransformer();
+    default:
+      throw new Error(`Unknown query transform "${selected}". Use one of: ${queryTransformModes.join(", ")}`);
+  }
+}
+
+// The original query followed by the transformer's variants, without duplicates.
+// A failing transformer leaves the original query alone.
+export async function transformQuery(
+  query: string,
+  transformer: QueryTransformer | undefined,
+  { count = 3 }: { count?: number } = {}
+): Promise<QueryVariant[]> {
+  const variants: QueryVariant[] = [variant("original", query)];
+  if (!transformer) return variants;
+
+  try {
+    const seen = new Set([`${query.trim().toLowerCase()}\n${query.trim().toLowerCase()}`]);
+    for (const generated of await transformer.transform(query, { count })) {
+      const key = `${generated.query.trim().toLowerCase()}\n${generated.embedText.trim().toLowerCase()}`;
+      if (!generated.embedText.trim() || seen.has(key)) continue;
+      seen.add(key);
+      variants.push(generated);
+    }
+  } catch (error) {
+    console.warn(`Query transform ${transformer.name} failed, searching the original query only:`, error instanceof Error ? error.message : error);
+  }
+  return variants;
+}
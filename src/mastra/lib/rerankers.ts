@@ -0,0 +1,180 @@
+import { generateObject } from "ai";
+import { openai } from "@ai-sdk/openai";
+import { z } from "zod";
+
+// Pluggable reranking stage applied after retrieval and entity expansion
+export interface RerankInput {
+  query: string;
+  entities: string[];
+  results: any[];
+}
+
+export interface Reranker {
+  name: string;
+  // Raw relevance score per result, in input order; higher is better
+  score(input: RerankInput): Promise<number[]>;
+}
+
+export type RerankerName = "entity-overlap" | "llm" | "cross-encoder" | "none";
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Retrieval score plus a bonus per distinct query/result entity found in the text.
+// Counting distinct entities keeps long, repetitive chunks from winning.
+export const entityOverlapReranker: Reranker = {
+  name: "entity-overlap",
+  score: async ({ entities, results }) => {
+    const patterns = entities
+      .filter(entity => entity.trim().length > 0)
+      .map(entity => new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(entity.trim())}(?![\\p{L}\\p{N}])`, "iu"));
+
+    return results.map((result: any) => {
+      const text = result.metadata?.text || "";
+      const entityScore = patterns.filter(pattern => pattern.test(text)).length;
+      return (result.score || 0) + entityScore * 0.1;
+    });
+  },
+};
+
+// Keeps the retrieval order
+export const passthroughReranker: Reranker = {
+  name: "none",
+  score: async ({ results }) => results.map((_, index) => results.length - index),
+};
+
+// Listwise LLM scoring: every candidate is judged in one prompt so scores are comparable
+export function createLlmReranker(
+  modelName = process.env.RERANKER_MODEL || "gpt-4o-mini",
+  maxPassageLength = 600
+): Reranker {
+  return {
+    name: `llm:${modelName}`,
+    score: async ({ query, results }) => {
+      if (results.length === 0) return [];
+
+      const passages = results
+        .map((result: any, index: number) => `[${index}] ${(result.metadata?.text || "").slice(0, maxPassageLength)}`)
+        .join("\n\n");
+
+      const { object } = await generateObject({
+        model: openai(modelName),
+        schema: z.object({
+          scores: z.array(z.object({
+            index: z.number().describe("Passage index in square brackets"),
+            relevance: z.number().min(0).max(10).describe("How well the passage answers the query, 0-10"),
+          })),
+        }),
+        prompt: `Rate how relevant each passage is to the query on a 0-10 scale. Judge whether the passage actually helps answer the query, not just shared words. Score every passage.
+
+Query: ${query}
+
+Passages:
+${passages}`,
+      });
+
+      const scores = new Array(results.length).fill(0);
+      object.scores.forEach(({ index, relevance }) => {
+        if (index >= 0 && index < results.length) scores[index] = relevance;
+      });
+      return scores;
+    },
+  };
+}
+
+// Cross-encoder served behind an OpenAI-compatible /rerank endpoint
+// (Jina, Cohere-compatible gateways, text-embeddings-inference, vLLM, ...)
+export function createCrossEncoderReranker({
+  baseUrl = process.env.RERANKER_BASE_URL,
+  apiKey = process.env.RERANKER_API_KEY,
+  model = process.env.RERANKER_MODEL || "BAAI/bge-reranker-base",
+}: { baseUrl?: string; apiKey?: string; model?: string } = {}): Reranker {
+  return {
+    name: `cross-encoder:${model}`,
+    score: async ({ query, results }) => {
+      if (!baseUrl) {
+        throw new Error("RERANKER_BASE_URL is required for the cross-encoder reranker");
+      }
+      if (results.length === 0) return [];
+
+      const response = await fetch(`${baseUrl.replace(/\/$/, "")}/rerank`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          query,
+          documents: results.map((result: any) => result.metadata?.text || ""),
+          top_n: results.length,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Reranker request failed: ${response.status} ${response.statusText}`);
+      }
+
+      const body: any = await response.json();
+      const scores = new Array(results.length).fill(0);
+      (body.results || body.data || []).forEach((item: any) => {
+        const score = item.relevance_score ?? item.score;
+        if (typeof item.index === "number" && typeof score === "number") {
+          scores[item.index] = score;
+        }
+      });
+      return scores;
+    },
+  };
+}
+
+// Resolve a reranker by name, falling back to RERANKER and then entity-overlap
+export function getReranker(name?: string): Reranker {
+  const selected = (name || process.env.RERANKER || "entity-overlap") as RerankerName;
+  switch (selected) {
+    case "entity-overlap":
+      return entityOverlapReranker;
+    case "llm":
+      return createLlmReranker();
+    case "cross-encoder":
+      return createCrossEncoderReranker();
+    case "none":
+      return passthroughReranker;
+    default:
+      throw new Error(`Unknown reranker "${selected}". Use one of: entity-overlap, llm, cross-encoder, none`);
+  }
+}
+
+// Score, min-max normalize to [0, 1] and sort. Each result keeps its retrieval
+// score and records its rank before and after reranking.
+export async function rerankResults(reranker: Reranker, input: RerankInput): Promise<any[]> {
+  const { results } = input;
+  if (results.length === 0) return [];
+
+  const rawScores = await reranker.score(input);
+  const min = Math.min(...rawScores);
+  const max = Math.max(...rawScores);
+
+  return results
+    .map((result: any, index: number) => {
+      const rerankScore = max > min ? (rawScores[index] - min) / (max - min) : 1;
+      return {
+        ...result,
+        score: rerankScore,
+        metadata: {
+          ...result.metadata,
+          retrievalScore: result.score,
+          rerankScore,
+          rawRerankScore: rawScores[index],
+          reranker: reranker.name,
+          preRerankRank: index + 1,
+        },
+      };
+    })
+    .sort((a: any, b: any) => b.score - a.score || a.metadata.preRerankRank - b.metadata.preRerankRank)
+    .map((result: any, index: number) => ({
+      ...result,
+      metadata: { ...result.metadata, postRerankRank: index + 1 },
+    }));
+}
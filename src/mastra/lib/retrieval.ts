@@ -0,0 +1,185 @@
+// Multi-channel retrieval: dense vector search, lexical search, or both fused
+// with reciprocal-rank fusion (RRF).
+
+import { matchesFilter } from "./in-memory-vector.js";
+import { lexicalSearch } from "./lexical-search.js";
+import type { VectorFilter } from "./metadata-filter.js";
+
+export type RetrievalMode = "vector" | "lexical" | "hybrid";
+export type RetrievalChannel = "vector" | "lexical";
+
+export interface ChannelRanks {
+  vector?: number;
+  lexical?: number;
+}
+
+interface RetrieveOptions {
+  indexName: string;
+  query: string;
+  queryVector: number[];
+  topK: number;
+  mode: RetrievalMode;
+  // Metadata filter applied on every channel
+  filter?: VectorFilter;
+}
+
+export interface RetrievalResult {
+  results: any[];
+  channels: Record<RetrievalChannel, any[]>;
+}
+
+// Standard RRF constant: dampens the advantage of the very top ranks
+const RRF_K = 60;
+
+// Over-fetch factor when the store can only apply a looser version of the filter
+const APPROXIMATE_FILTER_FACTOR = 4;
+
+// Fuse ranked lists by summing 1 / (k + rank) per channel. Scores are divided by
+// the best achievable sum, so a result ranked first everywhere scores 1.
+export function reciprocalRankFusion(
+  channels: Partial<Record<RetrievalChannel, any[]>>,
+  k = RRF_K
+): any[] {
+  const fused = new Map<string, { result: any; ranks: ChannelRanks; channelScores: Record<string, number>; score: number }>();
+  const activeChannels = (Object.keys(channels) as RetrievalChannel[]).filter(channel => channels[channel]);
+  const maxScore = activeChannels.length / (k + 1);
+
+  for (const channel of activeChannels) {
+    channels[channel]!.forEach((result: any, index: number) => {
+      const rank = index + 1;
+      const entry = fused.get(result.id) || { result, ranks: {}, channelScores: {}, score: 0 };
+      entry.ranks[channel] = rank;
+      entry.channelScores[channel] = result.score;
+      entry.score += 1 / (k + rank);
+      fused.set(result.id, entry);
+    });
+  }
+
+  return Array.from(fused.values())
+    .sort((a, b) => b.score - a.score)
+    .map(({ result, ranks, channelScores, score }) => ({
+      ...result,
+      score: maxScore > 0 ? score / maxScore : 0,
+      retrievalMethod: describeRetrievalMethod(ranks),
+      ranks,
+      metadata: {
+        ...result.metadata,
+        vectorScore: channelScores.vector,
+        lexicalScore: channelScores.lexical,
+      },
+    }));
+}
+
+function describeRetrievalMethod(ranks: ChannelRanks): string {
+  if (ranks.vector && ranks.lexical) return "hybrid";
+  return ranks.lexical ? "lexical" : "vector_similarity";
+}
+
+// Run the channels required by `mode` and return one ranked list
+export async function retrieve(
+  vectorStore: any,
+  { indexName, query, queryVector, topK, mode, filter }: RetrieveOptions
+): Promise<RetrievalResult> {
+  // Each channel contributes a deeper candidate list than the final cut
+  const candidateK = mode === "hybrid" ? topK * 2 : topK;
+
+  const [vectorResults, lexicalResults] = await Promise.all([
+    mode === "lexical"
+      ? Promise.resolve([])
+      : vectorStore.query({
+          indexName,
+          queryVector,
+          topK: filter?.approximate ? candidateK * APPROXIMATE_FILTER_FACTOR : candidateK,
+          filter: filter?.native,
+          includeVector: false,
+        }).then((results: any[]) => (results || [])
+          .filter((result: any) => matchesFilter(result.metadata || {}, filter?.exact))
+          .slice(0, candidateK)),
+    mode === "vector"
+      ? Promise.resolve([])
+      : lexicalSearch(vectorStore, { indexName, query, topK: candidateK, filter: filter?.exact }).catch((error: unknown) => {
+          // Lexical search is an enhancement in hybrid mode; only lexical mode depends on it
+          if (mode === "lexical") throw error;
+          console.warn("Lexical search failed, continuing with vector results:", error);
+          return [];
+        }),
+  ]);
+
+  const channels = { vector: vectorResults || [], lexical: lexicalResults };
+
+  if (mode === "vector") {
+    return {
+      channels,
+      results: channels.vector.map((result: any, index: number) => ({
+        ...result,
+        retrievalMethod: "vector_similarity",
+        ranks: { vector: index + 1 },
+      })),
+    };
+  }
+
+  if (mode === "lexical") {
+    return {
+      channels,
+      results: channels.lexical.map((result: any, index: number) => ({
+        ...result,
+        retrievalMethod: "lexical",
+        ranks: { lexical: index + 1 },
+      })),
+    };
+  }
+
+  return {
+    channels,
+    results: reciprocalRankFusion(channels).slice(0, topK),
+  };
+}
+
+// Merge the ranked results of several collections. Their scores come from different
+// indexes and possibly different embedding models, so only ranks are compared: the
+// lists are interleaved with RRF scores. Every result is tagged with its collection.
+export function mergeCollectionResults(
+  lists: Array<{ collection: string; results: any[] }>,
+  topK: number,
+  k = RRF_K
+): any[] {
+  const tagged = lists.map(({ collection, results }) => results.map((result: any, index: number) => ({
+    ...result,
+    collection,
+    score: lists.length > 1 ? (k + 1) / (k + index + 1) : result.score,
+    metadata: { ...result.metadata, collection },
+  })));
+
+  if (tagged.length === 1) return tagged[0];
+
+  // Stable sort: equal ranks keep the order the collections were requested in
+  return tagged.flat().sort((a, b) => b.score - a.score).slice(0, topK);
+}
+
+// Fuse the ranked lists retrieved for several variants of one query with RRF. A chunk
+// found by many variants rises; each result records which variants (by index) found it.
+export function fuseQueryVariants(lists: any[][], topK: number, k = RRF_K): any[] {
+  if (lists.length === 1) return lists[0];
+
+  const fused = new Map<string, { result: any; variants: number[]; score: number }>();
+  lists.forEach((results, variantIndex) => {
+    results.forEach((result: any, index: number) => {
+      // The same chunk id can exist in two collections
+      const key = `${result.collection ?? ""}\n${result.id}`;
+      const entry = fused.get(key) || { result, variants: [], score: 0 };
+      entry.variants.push(variantIndex);
+      entry.score += 1 / (k + index + 1);
+      fused.set(key, entry);
+    });
+  });
+
+  const maxScore = lists.length / (k + 1);
+  return Array.from(fused.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK)
+    .map(({ result, variants, score }) => ({
+      ...result,
+      score: score / maxScore,
+      metadata: { ...result.metadata, variantScore: result.score, queryVariants: variants },
+    }));
+}
@@ -0,0 +1,216 @@
+// Per-source manifest of stored chunks: which chunk ids a source produced, in
+// which order and with which content hash. Re-ingestion diffs against it so a
+// source only ever has its current chunks in the index.
+// File sources additionally remember size, mtime and content hash so directory
+// sync can skip unchanged files without reading them.
+
+import { getSqlCacheKey, getSqlClient, placeholders, type SqlClient } from "./sql.js";
+
+export interface ManifestChunk {
+  chunkId: string;
+  ordinal: number;
+  contentHash: string;
+}
+
+export interface SourceFileState {
+  source: string;
+  size: number;
+  mtimeMs: number;
+  contentHash: string;
+}
+
+const manifestReady = new WeakMap<object, Promise<void>>();
+
+// Stores without a SQL database keep manifests in process: index -> source -> chunks
+const inMemoryManifests = new WeakMap<object, Map<string, Map<string, ManifestChunk[]>>>();
+const inMemoryFileStates = new WeakMap<object, Map<string, Map<string, SourceFileState>>>();
+
+async function ensureManifestSchema(vectorStore: any, sql: SqlClient): Promise<void> {
+  const key = getSqlCacheKey(vectorStore);
+
+  if (!manifestReady.has(key)) {
+    const ready = (async () => {
+      await sql.query(`
+        CREATE TABLE IF NOT EXISTS source_manifest (
+          index_name TEXT NOT NULL,
+          source TEXT NOT NULL,
+          chunk_id TEXT NOT NULL,
+          ordinal INTEGER NOT NULL,
+          content_hash TEXT NOT NULL,
+          updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (index_name, source, chunk_id)
+        )
+      `);
+      await sql.query(`
+        CREATE TABLE IF NOT EXISTS source_files (
+          index_name TEXT NOT NULL,
+          source TEXT NOT NULL,
+          size BIGINT NOT NULL,
+          mtime_ms DOUBLE PRECISION NOT NULL,
+          content_hash TEXT NOT NULL,
+          synced_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (index_name, source)
+        )
+      `);
+    })();
+
+    ready.catch(() => manifestReady.delete(key));
+    manifestReady.set(key, ready);
+  }
+
+  await manifestReady.get(key);
+}
+
+function getInMemoryFileStates(vectorStore: any, indexName: string): Map<string, SourceFileState> {
+  if (!inMemoryFileStates.has(vectorStore)) {
+    inMemoryFileStates.set(vectorStore, new Map());
+  }
+
+  const states = inMemoryFileStates.get(vectorStore)!;
+  if (!states.has(indexName)) {
+    states.set(indexName, new Map());
+  }
+  return states.get(indexName)!;
+}
+
+function getInMemoryManifest(vectorStore: any, indexName: string): Map<string, ManifestChunk[]> {
+  if (!inMemoryManifests.has(vectorStore)) {
+    inMemoryManifests.set(vectorStore, new Map());
+  }
+
+  const manifests = inMemoryManifests.get(vectorStore)!;
+  if (!manifests.has(indexName)) {
+    manifests.set(indexName, new Map());
+  }
+  return manifests.get(indexName)!;
+}
+
+// Chunks currently stored for a source, in document order
+export async function getSourceManifest(vectorStore: any, indexName: string, source: string): Promise<ManifestChunk[]> {
+  const sql = getSqlClient(vectorStore);
+  if (!sql) {
+    return [...(getInMemoryManifest(vectorStore, indexName).get(source) || [])];
+  }
+
+  await ensureManifestSchema(vectorStore, sql);
+  const rows = await sql.query(
+    `SELECT chunk_id, ordinal, content_hash FROM source_manifest
+     WHERE index_name = ? AND source = ?
+     ORDER BY ordinal`,
+    [indexName, source]
+  );
+
+  return rows.map((row: any) => ({
+    chunkId: row.chunk_id,
+    ordinal: Number(row.ordinal),
+    contentHash: row.content_hash,
+  }));
+}
+
+// Replace the manifest of a source with its current chunks
+export async function writeSourceManifest(
+  vectorStore: any,
+  indexName: string,
+  source: string,
+  chunks: ManifestChunk[]
+): Promise<void> {
+  const sql = getSqlClient(vectorStore);
+  if (!sql) {
+    const manifest = getInMemoryManifest(vectorStore, indexName);
+    if (chunks.length > 0) {
+      manifest.set(source, [...chunks]);
+    } else {
+      manifest.delete(source);
+    }
+    return;
+  }
+
+  await ensureManifestSchema(vectorStore, sql);
+  await sql.transaction(async (tx) => {
+    await tx.query(`DELETE FROM source_manifest WHERE index_name = ? AND source = ?`, [indexName, source]);
+    if (chunks.length === 0) return;
+
+    await tx.query(
+      `INSERT INTO source_manifest (index_name, source, chunk_id, ordinal, content_hash)
+       VALUES ${chunks.map(() => `(${placeholders(5)})`).join(", ")}`,
+      chunks.flatMap(chunk => [indexName, source, chunk.chunkId, chunk.ordinal, chunk.contentHash])
+    );
+  });
+}
+
+// Forget deleted chunks, whichever sources they belonged to
+export async function removeManifestChunks(vectorStore: any, indexName: string, chunkIds: string[]): Promise<void> {
+  if (chunkIds.length === 0) return;
+
+  const sql = getSqlClient(vectorStore);
+  if (!sql) {
+    const removed = new Set(chunkIds);
+    const manifest = getInMemoryManifest(vectorStore, indexName);
+    manifest.forEach((chunks, source) => {
+      const remaining = chunks.filter(chunk => !removed.has(chunk.chunkId));
+      if (remaining.length > 0) {
+        manifest.set(source, remaining);
+      } else {
+        manifest.delete(source);
+      }
+    });
+    return;
+  }
+
+  await ensureManifestSchema(vectorStore, sql);
+  await sql.query(
+    `DELETE FROM source_manifest WHERE index_name = ? AND chunk_id IN (${placeholders(chunkIds.length)})`,
+    [indexName, ...chunkIds]
+  );
+}
+
+// Synced file sources, optionally only those under a path prefix
+export async function getSourceFiles(vectorStore: any, indexName: string, prefix = ""): Promise<SourceFileState[]> {
+  const sql = getSqlClient(vectorStore);
+  if (!sql) {
+    return Array.from(getInMemoryFileStates(vectorStore, indexName).values())
+      .filter(state => state.source.startsWith(prefix));
+  }
+
+  await ensureManifestSchema(vectorStore, sql);
+  const rows = await sql.query(
+    `SELECT source, size, mtime_ms, content_hash FROM source_files WHERE index_name = ? AND substr(source, 1, ?) = ?`,
+    [indexName, prefix.length, prefix]
+  );
+
+  return rows.map((row: any) => ({
+    source: row.source,
+    size: Number(row.size),
+    mtimeMs: Number(row.mtime_ms),
+    contentHash: row.content_hash,
+  }));
+}
+
+export async function recordSourceFile(vectorStore: any, indexName: string, state: SourceFileState): Promise<void> {
+  const sql = getSqlClient(vectorStore);
+  if (!sql) {
+    getInMemoryFileStates(vectorStore, indexName).set(state.source, { ...state });
+    return;
+  }
+
+  await ensureManifestSchema(vectorStore, sql);
+  await sql.query(
+    `INSERT INTO source_files (index_name, source, size, mtime_ms, content_hash)
+     VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT (index_name, source)
+     DO UPDATE SET size = excluded.size, mtime_ms = excluded.mtime_ms,
+                   content_hash = excluded.content_hash, synced_at = CURRENT_TIMESTAMP`,
+    [indexName, state.source, state.size, state.mtimeMs, state.contentHash]
+  );
+}
+
+export async function removeSourceFile(vectorStore: any, indexName: string, source: string): Promise<void> {
+  const sql = getSqlClient(vectorStore);
+  if (!sql) {
+    getInMemoryFileStates(vectorStore, indexName).delete(source);
+    return;
+  }
+
+  await ensureManifestSchema(vectorStore, sql);
+  await sql.query(`DELETE FROM source_files WHERE index_name = ? AND source = ?`, [indexName, source]);
+}
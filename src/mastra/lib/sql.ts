@@ -0,0 +1,93 @@
+// Minimal SQL access to the database behind the vector store, shared by the
+// features that keep their own tables (entity graph, index catalog, chunk lookups).
+// Statements use `?` placeholders; they are rewritten to `$n` for Postgres.
+
+export type SqlDialect = "postgres" | "sqlite";
+
+export interface SqlClient {
+  dialect: SqlDialect;
+  query(sql: string, params?: any[]): Promise<any[]>;
+  transaction<T>(fn: (tx: SqlClient) => Promise<T>): Promise<T>;
+}
+
+function toPostgresPlaceholders(sql: string): string {
+  let index = 0;
+  return sql.replace(/\?/g, () => `$${++index}`);
+}
+
+function createPgClient(runner: any, pool: any): SqlClient {
+  return {
+    dialect: "postgres",
+    query: async (sql, params = []) => {
+      const result = await runner.query(toPostgresPlaceholders(sql), params);
+      return result.rows;
+    },
+    transaction: async (fn) => {
+      const client = await pool.connect();
+      try {
+        await client.query("BEGIN");
+        const result = await fn(createPgClient(client, pool));
+        await client.query("COMMIT");
+        return result;
+      } catch (error) {
+        await client.query("ROLLBACK");
+        throw error;
+      } finally {
+        client.release();
+      }
+    },
+  };
+}
+
+function createLibSqlClient(runner: any, client: any): SqlClient {
+  return {
+    dialect: "sqlite",
+    query: async (sql, params = []) => {
+      const result = await runner.execute({ sql, args: params });
+      return result.rows;
+    },
+    transaction: async (fn) => {
+      const tx = await client.transaction("write");
+      try {
+        const result = await fn(createLibSqlClient(tx, client));
+        await tx.commit();
+        return result;
+      } catch (error) {
+        if (!tx.closed) await tx.rollback();
+        throw error;
+      }
+    },
+  };
+}
+
+// Returns null for stores without a SQL database (the in-memory store)
+export function getSqlClient(vectorStore: any): SqlClient | null {
+  if (vectorStore?.pool) {
+    return createPgClient(vectorStore.pool, vectorStore.pool);
+  }
+  if (vectorStore?.turso) {
+    return createLibSqlClient(vectorStore.turso, vectorStore.turso);
+  }
+  return null;
+}
+
+// `?, ?, ?` for an IN list or a VALUES row
+export function placeholders(count: number): string {
+  return new Array(count).fill("?").join(", ");
+}
+
+// Quoted (and schema-qualified) table backing a vector index
+export function getIndexTableName(vectorStore: any, indexName: string): string {
+  if (typeof vectorStore?.getTableName === "function") {
+    return vectorStore.getTableName(indexName).tableName;
+  }
+  if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(indexName)) {
+    throw new Error(`Invalid index name: ${indexName}`);
+  }
+  return `"${indexName}"`;
+}
+
+// Stable key for per-database caches such as "schema already created"
+export function getSqlCacheKey(vectorStore: any): object {
+  return vectorStore?.pool || vectorStore?.turso || vectorStore;
+}
@@ -0,0 +1,58 @@
+import { Tiktoken, getEncodingNameForModel, type TiktokenEncoding, type TiktokenModel } from "js-tiktoken/lite";
+
+// Token counting for the model that reads the retrieved context. Encodings are large
+// rank tables, so only the ones in use are loaded, once per process.
+
+export const DEFAULT_CONTEXT_MODEL = process.env.CONTEXT_MODEL || "gpt-4o-mini";
+
+const encoders = new Map<TiktokenEncoding, Promise<Tiktoken>>();
+
+async function loadRanks(encoding: TiktokenEncoding) {
+  switch (encoding) {
+    case "o200k_base":
+      return (await import("js-tiktoken/ranks/o200k_base")).default;
+    case "cl100k_base":
+      return (await import("js-tiktoken/ranks/cl100k_base")).default;
+    case "p50k_base":
+      return (await import("js-tiktoken/ranks/p50k_base")).default;
+    case "p50k_edit":
+      return (await import("js-tiktoken/ranks/p50k_edit")).default;
+    case "r50k_base":
+      return (await import("js-tiktoken/ranks/r50k_base")).default;
+    case "gpt2":
+      return (await import("js-tiktoken/ranks/gpt2")).default;
+  }
+}
+
+// Models tiktoken does not list yet (dated snapshots, newer families) are matched by
+// prefix; anything else is counted with cl100k_base, which is close for most models
+function getEncodingName(model: string): TiktokenEncoding {
+  try {
+    return getEncodingNameForModel(model as TiktokenModel);
+  } catch {
+    if (/^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|o1|o3|o4|chatgpt-4o)/.test(model)) return "o200k_base";
+    return "cl100k_base";
+  }
+}
+
+export function getEncoder(model = DEFAULT_CONTEXT_MODEL): Promise<Tiktoken> {
+  const encoding = getEncodingName(model);
+  if (!encoders.has(encoding)) {
+    const encoder = loadRanks(encoding).then(ranks => new Tiktoken(ranks));
+    encoder.catch(() => encoders.delete(encoding));
+    encoders.set(encoding, encoder);
+  }
+  return encoders.get(encoding)!;
+}
+
+export async function countTokens(text: string, model = DEFAULT_CONTEXT_MODEL): Promise<number> {
+  return (await getEncoder(model)).encode(text).length;
+}
+
+// The longest prefix of the text within maxTokens tokens
+export async function truncateToTokens(text: string, maxTokens: number, model = DEFAULT_CONTEXT_MODEL): Promise<string> {
+  const encoder = await getEncoder(model);
+  const tokens = encoder.encode(text);
+  if (tokens.length <= maxTokens) return text;
+  return maxTokens > 0 ? encoder.decode(tokens.slice(0, maxTokens)) : "";
+}
@@ -0,0 +1,57 @@
+import { LibSQLStore, LibSQLVector } from "@mastra/libsql";
+import { PgVector, PostgresStore } from "@mastra/pg";
+import type { MastraStorage } from "@mastra/core/storage";
+import type { MastraVector } from "@mastra/core/vector";
+import { InMemoryVector } from "./in-memory-vector.js";
+
+// Vector and storage backend selected with VECTOR_STORE:
+// - pg: PgVector + PostgresStore (POSTGRES_CONNECTION_STRING)
+// - libsql: file-backed LibSQL for both (LIBSQL_URL), no server needed
+// - memory: in-process vectors and storage, nothing persisted
+export type VectorStoreBackend = "pg" | "libsql" | "memory";
+
+// Key the store is registered under in the Mastra instance
+export const VECTOR_STORE_KEY = "vectorStore";
+
+export function getVectorStoreBackend(): VectorStoreBackend {
+  const backend = (process.env.VECTOR_STORE || "pg") as VectorStoreBackend;
+  if (!["pg", "libsql", "memory"].includes(backend)) {
+    throw new Error(`Unknown vector store "${backend}". Use one of: pg, libsql, memory`);
+  }
+  return backend;
+}
+
+function getPostgresConnectionString(): string {
+  return process.env.POSTGRES_CONNECTION_STRING || "postgresql://localhost:5432/mastra_rag";
+}
+
+function getLibSqlUrl(): string {
+  return process.env.LIBSQL_URL || "file:./mastra.db";
+}
+
+export function createVectorStore(backend = getVectorStoreBackend()): MastraVector {
+  switch (backend) {
+    case "pg":
+      return new PgVector({ connectionString: getPostgresConnectionString() });
+    case "libsql":
+      return new LibSQLVector({ connectionUrl: getLibSqlUrl(), authToken: process.env.LIBSQL_AUTH_TOKEN });
+    case "memory":
+      return new InMemoryVector();
+  }
+}
+
+export function createStorage(backend = getVectorStoreBackend()): MastraStorage {
+  switch (backend) {
+    case "pg":
+      return new PostgresStore({ connectionString: getPostgresConnectionString() });
+    case "libsql":
+      return new LibSQLStore({ url: getLibSqlUrl(), authToken: process.env.LIBSQL_AUTH_TOKEN });
+    case "memory":
+      return new LibSQLStore({ url: ":memory:" });
+  }
+}
+
+// The one way tools, workflows and scripts reach the configured vector store
+export function getVectorStore(mastra: any): MastraVector {
+  return mastra?.getVector(VECTOR_STORE_KEY);
+}
@@ -0,0 +1,137 @@
+// Fetcher tests against a local fixture server. The server listens on loopback, so the
+// requests allow private hosts except where the private-host check itself is tested.
+
+import assert from "node:assert/strict";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { clearRobotsCache, fetchPage, fetchWebDocument, type FetchPageOptions } from "./web-fetcher.js";
+
+const article = `<!doctype html>
+<html>
+<head><title>Rotating the signing keys</title></head>
+<body>
+  <nav><a href="/">Home</a> <a href="/docs">Docs</a> <a href="/blog">Blog</a></nav>
+  <div class="cookie-banner">We use cookies to improve your experience.</div>
+  <article>
+    <h1>Rotating the signing keys</h1>
+    <p>Signing keys are rotated every ninety days by the release pipeline.</p>
+    <p>A new key is published a week before it is used, so verifiers can pick it up in time.</p>
+  </article>
+  <footer>Copyright Example Corp. All rights reserved.</footer>
+</body>
+</html>`;
+
+function route(req: http.IncomingMessage, res: http.ServerResponse): void {
+  const url = new URL(req.url || "/", "http://fixture");
+  const hops = /^\/redirect\/(\d+)$/.exec(url.pathname);
+
+  if (url.pathname === "/robots.txt") {
+    res.writeHead(200, { "Content-Type": "text/plain" }).end("User-agent: *\nDisallow: /private\n");
+  } else if (url.pathname === "/article") {
+    res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" }).end(article);
+  } else if (url.pathname === "/private/page" || url.pathname === "/text") {
+    res.writeHead(200, { "Content-Type": "text/plain" }).end("Plain text page");
+  } else if (url.pathname === "/to-private") {
+    res.writeHead(302, { Location: "/private/page" }).end();
+  } else if (hops) {
+    const remaining = Number(hops[1]);
+    res.writeHead(302, { Location: remaining > 1 ? `/redirect/${remaining - 1}` : "/article" }).end();
+  } else if (url.pathname === "/large") {
+    res.writeHead(200, { "Content-Type": "text/plain", "Content-Length": "4096" }).end("x".repeat(4096));
+  } else if (url.pathname === "/large-stream") {
+    // No Content-Length: the cap has to be enforced while reading
+    res.writeHead(200, { "Content-Type": "text/plain" });
+    res.write("x".repeat(1024));
+    res.write("x".repeat(1024));
+    res.end("x".repeat(1024));
+  } else if (url.pathname === "/slow") {
+    const timer = setTimeout(() => res.writeHead(200, { "Content-Type": "text/plain" }).end("Too late"), 2000);
+    res.on("close", () => clearTimeout(timer));
+  } else if (url.pathname === "/trickle") {
+    // Headers at once, then a few bytes at a time, well under any size cap
+    res.writeHead(200, { "Content-Type": "text/plain" });
+    const timer = setInterval(() => res.write("x"), 50);
+    res.on("close", () => clearInterval(timer));
+  } else {
+    res.writeHead(404).end();
+  }
+}
+
+describe("web fetcher", () => {
+  const server = http.createServer(route);
+  let origin: string;
+  const options: FetchPageOptions = { allowPrivateHosts: true, timeoutMs: 1000 };
+
+  before(async () => {
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => clearRobotsCache());
+
+  it("fetches pages robots.txt allows", async () => {
+    const page = await fetchPage(`${origin}/text`, options);
+    assert.equal(page.status, 200);
+    assert.equal(page.body.toString("utf-8"), "Plain text page");
+  });
+
+  it("refuses pages robots.txt disallows", async () => {
+    await assert.rejects(fetchPage(`${origin}/private/page`, options), /disallowed by robots\.txt/);
+  });
+
+  it("checks every redirect hop against robots.txt", async () => {
+    await assert.rejects(fetchPage(`${origin}/to-private`, options), /private\/page is disallowed by robots\.txt/);
+  });
+
+  it("ignores robots.txt when told to", async () => {
+    const page = await fetchPage(`${origin}/private/page`, { ...options, respectRobots: false });
+    assert.equal(page.status, 200);
+  });
+
+  it("refuses responses over the size cap", async () => {
+    await assert.rejects(fetchPage(`${origin}/large`, { ...options, maxBytes: 1000 }), /over the 1000 byte limit/);
+    await assert.rejects(fetchPage(`${origin}/large-stream`, { ...options, maxBytes: 1500 }), /exceeds the 1500 byte limit/);
+  });
+
+  it("gives up on slow responses", async () => {
+    await assert.rejects(fetchPage(`${origin}/slow`, { ...options, timeoutMs: 200 }), /Timed out after 200ms/);
+  });
+
+  it("gives up on bodies that arrive too slowly", async () => {
+    const started = Date.now();
+    await assert.rejects(fetchPage(`${origin}/trickle`, { ...options, timeoutMs: 300 }), /Timed out after 300ms/);
+    assert.ok(Date.now() - started < 1000, `Took ${Date.now() - started}ms`);
+  });
+
+  it("follows redirects up to the limit", async () => {
+    const page = await fetchPage(`${origin}/redirect/2`, { ...options, maxRedirects: 2 });
+    assert.equal(page.url, `${origin}/article`);
+    assert.equal(page.requestedUrl, `${origin}/redirect/2`);
+
+    await assert.rejects(fetchPage(`${origin}/redirect/3`, { ...options, maxRedirects: 2 }), /Too many redirects/);
+  });
+
+  it("refuses loopback hosts unless private hosts are allowed", async () => {
+    await assert.rejects(fetchPage(`${origin}/text`, { allowPrivateHosts: false }), /127\.0\.0\.1 is a private address/);
+    await assert.rejects(fetchPage("http://169.254.169.254/latest/meta-data/", { allowPrivateHosts: false }), /private address/);
+    await assert.rejects(fetchPage("http://[::1]/", { allowPrivateHosts: false }), /private address/);
+  });
+
+  it("keeps the readable content of HTML pages", async () => {
+    const { document, metadata } = await fetchWebDocument(`${origin}/article`, options);
+    const text = document.chunks.map(chunk => chunk.text).join("\n");
+
+    assert.equal(document.title, "Rotating the signing keys");
+    assert.match(text, /rotated every ninety days/);
+    assert.match(text, /published a week before/);
+    assert.doesNotMatch(text, /Home|cookies|Copyright/);
+    assert.equal(metadata.url, `${origin}/article`);
+    assert.equal(metadata.httpStatus, 200);
+  });
+});
@@ -0,0 +1,441 @@
+// Fetching web pages for the knowledge base. Pages are fetched politely (robots.txt,
+// timeouts, a size cap, a bounded number of redirects), and HTML is reduced to its
+// readable content — the article, not the navigation, ads and footers around it —
+// before it is chunked like any other document. URLs come from search results, so
+// hosts on private networks are refused unless allowed.
+
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+import * as path from "path";
+import { parse as parseHtml, type HTMLElement } from "node-html-parser";
+import { chunkDocument, type ChunkedDocument } from "./documents.js";
+
+export interface FetchPageOptions {
+  timeoutMs?: number;
+  maxBytes?: number;
+  userAgent?: string;
+  respectRobots?: boolean;
+  maxRedirects?: number;
+  // Fetch from loopback, private and link-local addresses, e.g. an intranet wiki
+  allowPrivateHosts?: boolean;
+}
+
+export interface FetchedPage {
+  // Where the content came from, after redirects
+  url: string;
+  requestedUrl: string;
+  status: number;
+  contentType?: string;
+  contentLength: number;
+  lastModified?: string;
+  etag?: string;
+  fetchedAt: string;
+  body: Buffer;
+}
+
+export interface WebDocument {
+  page: Omit<FetchedPage, "body">;
+  document: ChunkedDocument;
+  // Stored on every chunk of the page
+  metadata: Record<string, any>;
+}
+
+const DEFAULT_TIMEOUT_MS = Number(process.env.WEB_FETCH_TIMEOUT_MS) || 10_000;
+const DEFAULT_MAX_BYTES = Number(process.env.WEB_FETCH_MAX_BYTES) || 2 * 1024 * 1024;
+const DEFAULT_USER_AGENT = process.env.WEB_FETCH_USER_AGENT || "EnhancedVectorRagBot/1.0";
+const DEFAULT_ALLOW_PRIVATE_HOSTS = process.env.WEB_FETCH_ALLOW_PRIVATE_HOSTS === "true";
+const ROBOTS_MAX_BYTES = 512 * 1024;
+const ROBOTS_CACHE_MS = 60 * 60 * 1000;
+// Redirects followed for robots.txt, as RFC 9309 asks
+const ROBOTS_MAX_REDIRECTS = 5;
+
+interface RequestOptions {
+  timeoutMs: number;
+  userAgent: string;
+  allowPrivateHosts: boolean;
+}
+
+// --- Private hosts ---
+
+// Loopback, private, shared, link-local (cloud metadata at 169.254.169.254), multicast
+// and reserved ranges
+const privateAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 3],
+] as const) {
+  privateAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128], ["::1", 128], ["64:ff9b::", 96], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8],
+] as const) {
+  privateAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+// BlockList also checks IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) against the IPv4 ranges
+function isPrivateAddress(address: string): boolean {
+  return privateAddresses.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+}
+
+// Refuse hosts that are, or resolve to, a private address. Checked before every request,
+// redirects included; a host whose DNS answer changes between the check and the request
+// is not caught.
+async function assertPublicHost(url: URL): Promise<void> {
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(host) ? [host] : (await lookup(host, { all: true, verbatim: true })).map(({ address }) => address);
+  const blocked = addresses.find(isPrivateAddress);
+  if (blocked) {
+    throw new Error(`Refusing to fetch ${url.href}: ${host} is a private address (${blocked})`);
+  }
+}
+
+// --- robots.txt ---
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+// Rules for one user agent; null allows everything
+type RobotsRules = RobotsRule[] | null;
+
+const robotsCache = new Map<string, { rules: Promise<RobotsRules>; expiresAt: number }>();
+
+// The product token of a user agent, e.g. "EnhancedVectorRagBot" for "EnhancedVectorRagBot/1.0"
+function productToken(userAgent: string): string {
+  return userAgent.split(/[/\s]/)[0].toLowerCase();
+}
+
+// Rules of the group that names our user agent, or of the "*" group when none does.
+// A group names it when its user-agent value is a case-insensitive prefix of our product
+// token. Consecutive user-agent lines share the rules that follow them.
+export function parseRobotsTxt(text: string, userAgent: string): RobotsRule[] {
+  const token = productToken(userAgent);
+  const groups: Array<{ agents: string[]; rules: RobotsRule[] }> = [];
+  let current: { agents: string[]; rules: RobotsRule[] } | undefined;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator < 0) continue;
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === "user-agent") {
+      if (!current || current.rules.length > 0) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+    } else if ((field === "allow" || field === "disallow") && current) {
+      // An empty Disallow allows everything and adds no rule
+      if (value) current.rules.push({ allow: field === "allow", pattern: value });
+    }
+  }
+
+  const named = groups.filter(group => group.agents.some(agent => agent && agent !== "*" && token.startsWith(agent)));
+  const selected = named.length > 0 ? named : groups.filter(group => group.agents.includes("*"));
+  return selected.flatMap(group => group.rules);
+}
+
+function robotsPatternMatches(pattern: string, target: string): boolean {
+  const anchored = pattern.endsWith("$");
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`).test(target);
+}
+
+// The longest matching rule wins; Allow wins ties
+export function isAllowedByRobots(rules: RobotsRules, url: URL): boolean {
+  if (!rules) return true;
+  const target = `${url.pathname}${url.search}`;
+  let best: RobotsRule | undefined;
+  for (const rule of rules) {
+    if (!robotsPatternMatches(rule.pattern, target)) continue;
+    if (!best || rule.pattern.length > best.pattern.length || (rule.pattern.length === best.pattern.length && rule.allow)) {
+      best = rule;
+    }
+  }
+  return best?.allow ?? true;
+}
+
+// A missing robots.txt (4xx) allows everything; an unreachable one (5xx, network
+// error) disallows everything until the cache expires
+async function loadRobotsRules(origin: string, options: RequestOptions): Promise<RobotsRules> {
+  try {
+    const url = new URL("/robots.txt", origin);
+    return await withDeadline(options.timeoutMs, url.href, async signal => {
+      const { response } = await fetchFollowingRedirects(url, ROBOTS_MAX_REDIRECTS, options, signal);
+      if (response.status >= 400 && response.status < 500) {
+        await response.body?.cancel();
+        return null;
+      }
+      if (!response.ok) {
+        await response.body?.cancel();
+        return [{ allow: false, pattern: "/" }];
+      }
+      const body = await readBody(response, ROBOTS_MAX_BYTES, url.href);
+      return parseRobotsTxt(body.toString("utf-8"), options.userAgent);
+    });
+  } catch {
+    return [{ allow: false, pattern: "/" }];
+  }
+}
+
+async function getRobotsRules(origin: string, options: RequestOptions): Promise<RobotsRules> {
+  const cached = robotsCache.get(origin);
+  if (cached && cached.expiresAt > Date.now()) return cached.rules;
+
+  const rules = loadRobotsRules(origin, options);
+  robotsCache.set(origin, { rules, expiresAt: Date.now() + ROBOTS_CACHE_MS });
+  return rules;
+}
+
+export function clearRobotsCache(): void {
+  robotsCache.clear();
+}
+
+// --- Fetching ---
+
+// Run a request under one deadline that covers every redirect hop and the whole body, so
+// a server that trickles its response cannot hold the fetch open. An abort while waiting
+// for headers or reading the body is reported as a timeout.
+async function withDeadline<T>(timeoutMs: number, url: string, request: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await request(controller.signal);
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new Error(`Timed out after ${timeoutMs}ms fetching ${url}`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Read the body, giving up as soon as it exceeds maxBytes
+async function readBody(response: Response, maxBytes: number, url: string): Promise<Buffer> {
+  const declared = Number(response.headers.get("content-length"));
+  if (declared > maxBytes) {
+    await response.body?.cancel();
+    throw new Error(`${url} is ${declared} bytes, over the ${maxBytes} byte limit`);
+  }
+  if (!response.body) return Buffer.alloc(0);
+
+  const reader = response.body.getReader();
+  const parts: Buffer[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new Error(`${url} exceeds the ${maxBytes} byte limit`);
+    }
+    parts.push(Buffer.from(value));
+  }
+  return Buffer.concat(parts);
+}
+
+// Follow redirects by hand, so that every hop is checked before it is requested: its
+// scheme, its host, and whatever else checkHop adds
+async function fetchFollowingRedirects(
+  url: URL,
+  maxRedirects: number,
+  { userAgent, allowPrivateHosts }: RequestOptions,
+  signal: AbortSignal,
+  checkHop?: (url: URL) => Promise<void>
+): Promise<{ url: URL; response: Response }> {
+  let current = url;
+
+  for (let redirects = 0; ; redirects++) {
+    if (current.protocol !== "http:" && current.protocol !== "https:") {
+      throw new Error(`Only http and https URLs can be fetched: ${current.href}`);
+    }
+    if (!allowPrivateHosts) await assertPublicHost(current);
+    await checkHop?.(current);
+
+    const response = await fetch(current.href, {
+      redirect: "manual",
+      signal,
+      headers: { "User-Agent": userAgent, Accept: "text/html,application/xhtml+xml,text/plain;q=0.9,*/*;q=0.8" },
+    });
+    const location = response.headers.get("location");
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel();
+      if (redirects >= maxRedirects) {
+        throw new Error(`Too many redirects fetching ${url.href}`);
+      }
+      current = new URL(location, current);
+      continue;
+    }
+    return { url: current, response };
+  }
+}
+
+// Fetch one page. Every redirect hop is also checked against robots.txt.
+export async function fetchPage(
+  url: string,
+  {
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    maxBytes = DEFAULT_MAX_BYTES,
+    userAgent = DEFAULT_USER_AGENT,
+    respectRobots = true,
+    maxRedirects = 5,
+    allowPrivateHosts = DEFAULT_ALLOW_PRIVATE_HOSTS,
+  }: FetchPageOptions = {}
+): Promise<FetchedPage> {
+  const options = { timeoutMs, userAgent, allowPrivateHosts };
+  return withDeadline(timeoutMs, url, async signal => {
+    const { url: fetched, response } = await fetchFollowingRedirects(new URL(url), maxRedirects, options, signal, async hop => {
+      if (respectRobots && !isAllowedByRobots(await getRobotsRules(hop.origin, options), hop)) {
+        throw new Error(`Fetching ${hop.href} is disallowed by robots.txt`);
+      }
+    });
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new Error(`HTTP ${response.status} fetching ${fetched.href}`);
+    }
+
+    const body = await readBody(response, maxBytes, fetched.href);
+    return {
+      url: fetched.href,
+      requestedUrl: url,
+      status: response.status,
+      contentType: response.headers.get("content-type") || undefined,
+      contentLength: body.length,
+      lastModified: response.headers.get("last-modified") || undefined,
+      etag: response.headers.get("etag") || undefined,
+      fetchedAt: new Date().toISOString(),
+      body,
+    };
+  });
+}
+
+// --- Readable content ---
+
+// Elements that are page chrome wherever they appear
+const boilerplateSelector = [
+  "script", "style", "noscript", "template", "svg", "iframe", "form", "button", "nav", "header", "footer", "aside",
+  "[role=navigation]", "[role=banner]", "[role=contentinfo]", "[role=complementary]", "[role=search]", "[role=dialog]",
+  "[aria-hidden=true]", "[hidden]",
+].join(", ");
+
+// Class or id words of navigation, ads, cookie banners, share bars, comments and the like
+const boilerplatePattern =
+  /(^|[\s_-])(nav|navbar|navigation|menu|breadcrumbs?|masthead|footer|sidebar|cookies?|consent|banner|ads?|advert|advertisement|promo|sponsored|share|sharing|social|related|comments?|newsletter|subscribe|popup|modal|skip-link)($|[\s_-])/i;
+
+const keptTags = new Set(["html", "body", "main", "article"]);
+
+function isBoilerplate(element: HTMLElement): boolean {
+  if (keptTags.has(element.tagName?.toLowerCase() || "")) return false;
+  const names = `${element.getAttribute("class") || ""} ${element.getAttribute("id") || ""}`;
+  return boilerplatePattern.test(names);
+}
+
+function textLength(element: HTMLElement): number {
+  return element.text.replace(/\s+/g, " ").trim().length;
+}
+
+// Share of the text that sits inside links: high for menus and link lists
+function linkDensity(element: HTMLElement): number {
+  const total = textLength(element);
+  if (total === 0) return 1;
+  const linked = element.querySelectorAll("a").reduce((sum, link) => sum + textLength(link), 0);
+  return Math.min(1, linked / total);
+}
+
+// The element holding the main content: a single <article> or <main> when the page
+// marks it, otherwise the block whose paragraphs carry the most non-link text
+function findMainContent(body: HTMLElement): HTMLElement {
+  const marked = body.querySelectorAll("article, main, [role=main]");
+  if (marked.length > 0) {
+    return marked.reduce((best, element) => (textLength(element) > textLength(best) ? element : best));
+  }
+
+  let best: { element: HTMLElement; score: number } | undefined;
+  for (const element of body.querySelectorAll("div, section, td")) {
+    const paragraphs = element.querySelectorAll("p, pre, li, blockquote")
+      .filter(paragraph => textLength(paragraph) >= 25);
+    const paragraphText = paragraphs.reduce((sum, paragraph) => sum + textLength(paragraph), 0);
+    const score = paragraphText * (1 - linkDensity(element));
+    if (!best || score > best.score) best = { element, score };
+  }
+  return best && best.score >= 140 ? best.element : body;
+}
+
+function pageTitle(root: HTMLElement): string | undefined {
+  const candidates = [
+    root.querySelector('meta[property="og:title"]')?.getAttribute("content"),
+    root.querySelector("title")?.text,
+    root.querySelector("h1")?.text,
+  ];
+  return candidates.map(candidate => candidate?.replace(/\s+/g, " ").trim()).find(Boolean);
+}
+
+// Reduce a page to its title and the HTML of its main content
+export function extractReadableHtml(html: string): { title?: string; html: string } {
+  const root = parseHtml(html, { blockTextElements: { pre: true } });
+  const title = pageTitle(root);
+  const body = root.querySelector("body") || root;
+
+  body.querySelectorAll(boilerplateSelector).forEach(element => element.remove());
+  body.querySelectorAll("[class], [id]").filter(isBoilerplate).forEach(element => element.remove());
+
+  const content = findMainContent(body);
+  return { title, html: `<html><body>${content.outerHTML}</body></html>` };
+}
+
+function decodeBody(body: Buffer, contentType?: string): string {
+  const charset = /charset=["']?([\w-]+)/i.exec(contentType || "")?.[1];
+  try {
+    return new TextDecoder(charset || "utf-8").decode(body);
+  } catch {
+    return body.toString("utf-8");
+  }
+}
+
+function isHtml(contentType?: string): boolean {
+  return /text\/html|application\/xhtml\+xml/i.test(contentType || "");
+}
+
+// Fetch a page and chunk its readable content. HTML is extracted first; other formats
+// (PDF, plain text, markdown, ...) go through the document parsers as they are.
+export async function fetchWebDocument(
+  url: string,
+  { chunkSize, overlap, ...fetchOptions }: FetchPageOptions & { chunkSize?: number; overlap?: number } = {}
+): Promise<WebDocument> {
+  const { body, ...page } = await fetchPage(url, fetchOptions);
+  const mimeType = page.contentType?.split(";")[0].trim();
+  const fileName = path.posix.basename(new URL(page.url).pathname) || "index.html";
+
+  let document: ChunkedDocument;
+  if (isHtml(page.contentType)) {
+    const readable = extractReadableHtml(decodeBody(body, page.contentType));
+    document = await chunkDocument(readable.html, { fileName, contentType: "html", chunkSize, overlap });
+    document.title = readable.title ?? document.title;
+  } else {
+    document = await chunkDocument(body, { fileName, mimeType, chunkSize, overlap });
+  }
+
+  return {
+    page,
+    document,
+    metadata: {
+      url: page.url,
+      ...(page.requestedUrl !== page.url ? { requestedUrl: page.requestedUrl } : {}),
+      ...(document.title ? { title: document.title } : {}),
+      contentType: document.contentType,
+      fetchedAt: page.fetchedAt,
+      httpStatus: page.status,
+      ...(page.contentType ? { httpContentType: page.contentType } : {}),
+      ...(page.lastModified ? { lastModified: page.lastModified } : {}),
+      ...(page.etag ? { etag: page.etag } : {}),
+    },
+  };
+}
@@ -0,0 +1,287 @@
+// Web results in the knowledge base. Results fetched automatically, without anyone
+// asking for them, are not mixed into the collection: they wait in the collection's
+// quarantine index, which is only searched when explicitly allowed, until they are
+// approved (moved into the collection) or rejected (deleted).
+
+import { deleteChunks, scanChunks, type StoredChunk } from "./chunk-store.js";
+import type { DocumentChunk } from "./documents.js";
+import type { EmbeddingProvider } from "./embeddings.js";
+import { matchesFilter } from "./in-memory-vector.js";
+import { removeIndexCatalogEntry } from "./index-catalog.js";
+import { hashContent, ingestSource } from "./ingestion.js";
+import { deleteDocuments, getSourceKey, listSources, type SourceSummary } from "./knowledge-base.js";
+import { forgetTextSearchIndex } from "./lexical-search.js";
+import type { VectorFilter } from "./metadata-filter.js";
+import { getProvenance, provenanceMetadata, type ProvenanceLevel } from "./provenance.js";
+import { getSourceManifest, removeManifestChunks } from "./source-manifest.js";
+import { fetchWebDocument, type FetchPageOptions } from "./web-fetcher.js";
+
+export interface WebResult {
+  title?: string;
+  url?: string;
+  // The search engine's snippet or extract
+  content: string;
+  // Chunks of the fetched page; without them the content is stored as a single chunk
+  chunks?: DocumentChunk[];
+  // Stored on every chunk of the result, e.g. fetch time and HTTP headers
+  metadata?: Record<string, any>;
+}
+
+export interface FetchWebResultsOptions extends FetchPageOptions {
+  chunkSize?: number;
+  overlap?: number;
+}
+
+export interface WebResultFetch {
+  url: string;
+  status: "fetched" | "snippet";
+  chunks: number;
+  // Why the snippet was kept instead of the page
+  error?: string;
+}
+
+export interface StoreWebResultsOptions {
+  indexName: string;
+  embeddingProvider: EmbeddingProvider;
+  provenance: Exclude<ProvenanceLevel, "user-upload">;
+  originalQuery?: string;
+}
+
+// Collection indexes are "embeddings" or "collection_<name>", so this cannot collide with one
+export function getQuarantineIndexName(indexName: string): string {
+  return `quarantine_${indexName}`;
+}
+
+// Stored as the source of every web result chunk; the URL is its source key
+const WEB_SOURCE = "web_search";
+
+// Metadata fields that differ from one web result to the next
+const webResultFields = ["title", "url", "domain", "searchProvider", "searchRank", "publishedDate"];
+
+// Web results fetched automatically that sit in the collection itself: stored before
+// automatic results were quarantined, as "auto-web" or without any provenance
+const unreviewedWebResultFilter = {
+  $or: [{ provenance: "auto-web" }, { source: WEB_SOURCE, provenance: { $exists: false } }],
+};
+
+async function indexExists(vectorStore: any, indexName: string): Promise<boolean> {
+  const indexes: string[] = await vectorStore.listIndexes();
+  return indexes.includes(indexName);
+}
+
+export async function hasQuarantine(vectorStore: any, indexName: string): Promise<boolean> {
+  return indexExists(vectorStore, getQuarantineIndexName(indexName));
+}
+
+export function isUnreviewedWebResult(metadata: Record<string, any>): boolean {
+  return getProvenance(metadata) === "auto-web";
+}
+
+// Leave unreviewed web results out of a search of the collection. Stores cannot express
+// the exclusion, so it is applied with the exact filter on a deeper candidate list.
+export function excludeUnreviewedWebResults(filter: VectorFilter): VectorFilter {
+  const exclusion = { $nor: [unreviewedWebResultFilter] };
+  return {
+    native: filter.native,
+    exact: filter.exact ? { $and: [filter.exact, exclusion] } : exclusion,
+    approximate: true,
+  };
+}
+
+// Whether web results quarantined now could pass an exact filter. Only the metadata every
+// quarantined chunk is stored with is checked; clauses on the fields of single results
+// (url, domain, ...) are left to the search of the quarantine.
+export function quarantinedResultsMayMatch(filter: Record<string, any> | undefined, originalQuery?: string): boolean {
+  if (!filter) return true;
+
+  const metadata = {
+    source: WEB_SOURCE,
+    ...(originalQuery ? { originalQuery } : {}),
+    storedAt: Date.now(),
+    ...provenanceMetadata("auto-web"),
+  };
+  const clauses = (clause: Record<string, any>): Record<string, any>[] =>
+    Object.keys(clause).length === 1 && Array.isArray(clause.$and) ? clause.$and.flatMap(clauses) : [clause];
+
+  return clauses(filter)
+    .filter(clause => !Object.keys(clause).some(field => webResultFields.includes(field)))
+    .every(clause => matchesFilter(metadata, clause));
+}
+
+// Replace each result's snippet with the readable content of its page. Results whose
+// page cannot be fetched (robots.txt, timeouts, size limit, HTTP errors) keep the snippet.
+export async function fetchWebResults(
+  results: WebResult[],
+  options: FetchWebResultsOptions = {}
+): Promise<{ results: WebResult[]; fetches: WebResultFetch[] }> {
+  const fetched = await Promise.all(results.map(async result => {
+    if (!result.url) return { result, fetch: undefined };
+    try {
+      const { document, metadata } = await fetchWebDocument(result.url, options);
+      if (document.chunks.length === 0) {
+        throw new Error(`No readable content at ${result.url}`);
+      }
+      return {
+        result: {
+          ...result,
+          title: document.title || result.title,
+          chunks: document.chunks,
+          metadata: { ...result.metadata, ...metadata, url: result.url },
+        },
+        fetch: { url: result.url, status: "fetched" as const, chunks: document.chunks.length },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`⚠️ Keeping the snippet of ${result.url}: ${message}`);
+      return { result, fetch: { url: result.url, status: "snippet" as const, chunks: 1, error: message } };
+    }
+  }));
+
+  return {
+    results: fetched.map(({ result }) => result),
+    fetches: fetched.flatMap(({ fetch }) => (fetch ? [fetch] : [])),
+  };
+}
+
+// Embed and store web results, keyed by URL like any other source: storing a page again
+// only embeds the chunks that changed and removes the ones that disappeared.
+export async function storeWebResults(
+  vectorStore: any,
+  results: WebResult[],
+  { indexName, embeddingProvider, provenance, originalQuery }: StoreWebResultsOptions
+): Promise<string[]> {
+  const timestamp = new Date().toISOString();
+  const chunkIds: string[] = [];
+
+  for (const result of results) {
+    const chunks = result.chunks ?? (result.content.trim() ? [{ text: result.content, metadata: {} }] : []);
+    if (chunks.length === 0) continue;
+
+    const ingested = await ingestSource(vectorStore, {
+      indexName,
+      embeddingProvider,
+      source: result.url || `${WEB_SOURCE}#${hashContent(result.content).slice(0, 16)}`,
+      storedSource: WEB_SOURCE,
+      chunks,
+      metadata: {
+        title: result.title || "Web Search Result",
+        url: result.url || "#",
+        ...(originalQuery ? { originalQuery } : {}),
+        timestamp,
+        ...result.metadata,
+      },
+      provenance,
+    });
+    chunkIds.push(...ingested.chunkIds);
+  }
+
+  return chunkIds;
+}
+
+// Web results found automatically go to the quarantine index of the collection
+export async function quarantineWebResults(
+  vectorStore: any,
+  results: WebResult[],
+  { indexName, ...options }: Omit<StoreWebResultsOptions, "provenance">
+): Promise<string[]> {
+  return storeWebResults(vectorStore, results, {
+    ...options,
+    indexName: getQuarantineIndexName(indexName),
+    provenance: "auto-web",
+  });
+}
+
+export async function listQuarantinedSources(vectorStore: any, indexName: string): Promise<SourceSummary[]> {
+  if (!(await hasQuarantine(vectorStore, indexName))) return [];
+  return listSources(vectorStore, getQuarantineIndexName(indexName));
+}
+
+// Quarantined chunks of the given source keys (URLs); all of them when none are given
+async function findQuarantinedChunks(vectorStore: any, indexName: string, sources?: string[]): Promise<StoredChunk[]> {
+  if (!(await hasQuarantine(vectorStore, indexName))) return [];
+  const chunks = await scanChunks(vectorStore, getQuarantineIndexName(indexName));
+  return sources ? chunks.filter(chunk => sources.includes(getSourceKey(chunk.metadata))) : chunks;
+}
+
+// Move quarantined results into the collection as user-approved web content.
+// They are embedded again: vectors cannot be read back from every store. With
+// fetchPages, each page is fetched in full first; pages that cannot be fetched are
+// approved with the content they were quarantined with.
+export async function approveQuarantinedSources(
+  vectorStore: any,
+  {
+    indexName,
+    embeddingProvider,
+    sources,
+    fetchPages = false,
+    fetchOptions,
+  }: {
+    indexName: string;
+    embeddingProvider: EmbeddingProvider;
+    sources?: string[];
+    fetchPages?: boolean;
+    fetchOptions?: FetchWebResultsOptions;
+  }
+): Promise<number> {
+  const chunks = await findQuarantinedChunks(vectorStore, indexName, sources);
+  if (chunks.length === 0) return 0;
+
+  const bySource = new Map<string, StoredChunk[]>();
+  for (const chunk of chunks) {
+    const source = getSourceKey(chunk.metadata);
+    bySource.set(source, [...(bySource.get(source) || []), chunk]);
+  }
+
+  const quarantineIndex = getQuarantineIndexName(indexName);
+  for (const [source, group] of bySource) {
+    // Chunks in page order: manifest order, or text offsets for results quarantined
+    // before pages were chunked
+    const manifest = await getSourceManifest(vectorStore, quarantineIndex, source);
+    const ordinals = new Map(manifest.map(chunk => [chunk.chunkId, chunk.ordinal]));
+    const ordered = [...group].sort((a, b) =>
+      (ordinals.get(a.id) ?? Infinity) - (ordinals.get(b.id) ?? Infinity) ||
+      (a.metadata.startOffset ?? 0) - (b.metadata.startOffset ?? 0)
+    );
+
+    const { metadata } = ordered[0];
+    const quarantined: WebResult = {
+      title: metadata.title,
+      url: metadata.url,
+      content: ordered.map(chunk => chunk.metadata.text || "").join("\n\n"),
+      chunks: ordered.map(chunk => ({ text: chunk.metadata.text || "", metadata: chunk.metadata })),
+    };
+    const [result] = fetchPages && metadata.url && metadata.url !== "#"
+      ? (await fetchWebResults([{ ...quarantined, chunks: undefined }], fetchOptions)).results
+      : [quarantined];
+
+    // A page that could not be fetched falls back to its quarantined chunks
+    await storeWebResults(vectorStore, [result.chunks ? result : quarantined], {
+      indexName,
+      embeddingProvider,
+      provenance: "user-approved-web",
+      originalQuery: metadata.originalQuery,
+    });
+  }
+
+  await deleteDocuments(vectorStore, quarantineIndex, chunks);
+  return chunks.length;
+}
+
+// Delete quarantined results without keeping them
+export async function rejectQuarantinedSources(vectorStore: any, indexName: string, sources?: string[]): Promise<number> {
+  const chunks = await findQuarantinedChunks(vectorStore, indexName, sources);
+  return deleteDocuments(vectorStore, getQuarantineIndexName(indexName), chunks);
+}
+
+// Drop the whole quarantine index of a collection, e.g. when the collection is dropped
+export async function dropQuarantine(vectorStore: any, indexName: string): Promise<void> {
+  const quarantineIndex = getQuarantineIndexName(indexName);
+  if (await indexExists(vectorStore, quarantineIndex)) {
+    const chunkIds = (await scanChunks(vectorStore, quarantineIndex)).map(chunk => chunk.id);
+    await deleteChunks(vectorStore, quarantineIndex, chunkIds);
+    await removeManifestChunks(vectorStore, quarantineIndex, chunkIds);
+    await vectorStore.deleteIndex({ indexName: quarantineIndex });
+  }
+  forgetTextSearchIndex(vectorStore, quarantineIndex);
+  await removeIndexCatalogEntry(vectorStore, quarantineIndex);
+}
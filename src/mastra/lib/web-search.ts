@@ -0,0 +1,312 @@
+import { promises as fs } from "fs";
+import { z } from "zod";
+import { getMcpTools } from "../mcp.js";
+
+// Pluggable web search. One provider is configured explicitly with WEB_SEARCH_PROVIDER;
+// every provider's results are normalized into one schema, filtered by the domain allow
+// and deny lists, and each provider is held to its own rate limit.
+
+export const webSearchResultSchema = z.object({
+  rank: z.number().describe("1-based position in the provider's ranking, after domain filtering"),
+  title: z.string(),
+  url: z.string(),
+  domain: z.string().describe("Host name without www."),
+  snippet: z.string(),
+  content: z.string().optional().describe("Page text, when the provider returns more than a snippet"),
+  publishedDate: z.string().optional().describe("ISO date the page was published, when known"),
+  provider: z.string(),
+});
+
+export type WebSearchResult = z.infer<typeof webSearchResultSchema>;
+
+// A result as a provider returns it, before ranking, filtering and normalization
+export interface RawWebResult {
+  title?: string;
+  url?: string;
+  snippet?: string;
+  content?: string;
+  publishedDate?: string;
+}
+
+export interface WebSearchProvider {
+  name: string;
+  // Searches allowed per rate-limit window
+  rateLimit: { requests: number; windowMs: number };
+  search(query: string, options: { maxResults: number }): Promise<RawWebResult[]>;
+}
+
+export type WebSearchProviderName = "exa-mcp" | "searxng" | "brave" | "bing" | "fixture";
+
+const MINUTE = 60_000;
+
+// Per-minute override of every provider's default rate limit
+function rateLimit(requestsPerMinute: number): WebSearchProvider["rateLimit"] {
+  return { requests: Number(process.env.WEB_SEARCH_RATE_LIMIT) || requestsPerMinute, windowMs: MINUTE };
+}
+
+async function getJson(url: string, headers: Record<string, string> = {}): Promise<any> {
+  const response = await fetch(url, { headers: { Accept: "application/json", ...headers } });
+  if (!response.ok) {
+    throw new Error(`Web search request failed: ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+}
+
+// Exa returns JSON in a text block, or plain text with one "Title:/URL:/Published Date:/Text:" record per result
+function parseExaText(text: string): RawWebResult[] {
+  try {
+    const parsed = JSON.parse(text);
+    return (parsed.results || []).map((result: any) => ({
+      title: result.title,
+      url: result.url,
+      snippet: result.summary || result.highlights?.[0],
+      content: result.text,
+      publishedDate: result.publishedDate,
+    }));
+  } catch {
+    return text.split(/\n(?=Title:)/).flatMap(block => {
+      const field = (name: string) => new RegExp(`^${name}:[ \\t]*(.*)$`, "m").exec(block)?.[1].trim();
+      const url = field("URL");
+      if (!url) return [];
+      const content = /^Text:[ \t]*([\s\S]*)$/m.exec(block)?.[1].trim();
+      return [{ title: field("Title"), url, content, publishedDate: field("Published Date") }];
+    });
+  }
+}
+
+// Exa through its MCP server; the tool is named explicitly instead of guessed
+export function createExaMcpProvider({
+  tool = process.env.WEB_SEARCH_MCP_TOOL || "exa_web_search_exa",
+}: { tool?: string } = {}): WebSearchProvider {
+  return {
+    name: "exa-mcp",
+    rateLimit: rateLimit(30),
+    search: async (query, { maxResults }) => {
+      const tools = await getMcpTools();
+      const searchTool: any = tools[tool];
+      if (!searchTool) {
+        throw new Error(`MCP tool "${tool}" is not available. Available tools: ${Object.keys(tools).join(", ")}`);
+      }
+
+      const result = await searchTool.execute({ context: { query, numResults: maxResults } });
+      const text = (result.content || [])
+        .filter((block: any) => block.type === "text")
+        .map((block: any) => block.text)
+        .join("\n");
+      if (result.isError) {
+        throw new Error(`MCP tool "${tool}" failed: ${text}`);
+      }
+      return parseExaText(text);
+    },
+  };
+}
+
+// A SearxNG instance with the JSON output format enabled
+export function createSearxngProvider({
+  baseUrl = process.env.WEB_SEARCH_BASE_URL,
+}: { baseUrl?: string } = {}): WebSearchProvider {
+  return {
+    name: "searxng",
+    rateLimit: rateLimit(30),
+    search: async (query, { maxResults }) => {
+      if (!baseUrl) {
+        throw new Error("WEB_SEARCH_BASE_URL is required for the searxng web search provider");
+      }
+      const body = await getJson(`${baseUrl.replace(/\/$/, "")}/search?${new URLSearchParams({ q: query, format: "json" })}`);
+      // SearxNG has no result count parameter, so the page is cut here
+      return (body.results || []).slice(0, maxResults).map((result: any) => ({
+        title: result.title,
+        url: result.url,
+        snippet: result.content,
+        publishedDate: result.publishedDate,
+      }));
+    },
+  };
+}
+
+export function createBraveProvider({
+  apiKey = process.env.WEB_SEARCH_API_KEY,
+  baseUrl = process.env.WEB_SEARCH_BASE_URL || "https://api.search.brave.com/res/v1",
+}: { apiKey?: string; baseUrl?: string } = {}): WebSearchProvider {
+  return {
+    name: "brave",
+    rateLimit: rateLimit(60),
+    search: async (query, { maxResults }) => {
+      if (!apiKey) {
+        throw new Error("WEB_SEARCH_API_KEY is required for the brave web search provider");
+      }
+      const body = await getJson(
+        `${baseUrl.replace(/\/$/, "")}/web/search?${new URLSearchParams({ q: query, count: String(Math.min(maxResults, 20)) })}`,
+        { "X-Subscription-Token": apiKey }
+      );
+      return (body.web?.results || []).map((result: any) => ({
+        title: result.title,
+        url: result.url,
+        snippet: result.description,
+        content: result.extra_snippets?.join("\n"),
+        publishedDate: result.page_age,
+      }));
+    },
+  };
+}
+
+export function createBingProvider({
+  apiKey = process.env.WEB_SEARCH_API_KEY,
+  baseUrl = process.env.WEB_SEARCH_BASE_URL || "https://api.bing.microsoft.com/v7.0",
+}: { apiKey?: string; baseUrl?: string } = {}): WebSearchProvider {
+  return {
+    name: "bing",
+    rateLimit: rateLimit(180),
+    search: async (query, { maxResults }) => {
+      if (!apiKey) {
+        throw new Error("WEB_SEARCH_API_KEY is required for the bing web search provider");
+      }
+      const body = await getJson(
+        `${baseUrl.replace(/\/$/, "")}/search?${new URLSearchParams({ q: query, count: String(Math.min(maxResults, 50)) })}`,
+        { "Ocp-Apim-Subscription-Key": apiKey }
+      );
+      return (body.webPages?.value || []).map((result: any) => ({
+        title: result.name,
+        url: result.url,
+        snippet: result.snippet,
+        publishedDate: result.datePublished,
+      }));
+    },
+  };
+}
+
+// Canned results for offline runs and evaluations: a list returned for every query, or
+// results by query with "*" as the fallback. Given inline or as a JSON file.
+export type WebSearchFixture = RawWebResult[] | Record<string, RawWebResult[]>;
+
+export function createFixtureProvider(
+  fixture: WebSearchFixture | string | undefined = process.env.WEB_SEARCH_FIXTURE
+): WebSearchProvider {
+  let loaded: Promise<WebSearchFixture> | undefined;
+  return {
+    name: "fixture",
+    rateLimit: { requests: Infinity, windowMs: MINUTE },
+    search: async (query) => {
+      if (!fixture) {
+        throw new Error("WEB_SEARCH_FIXTURE is required for the fixture web search provider");
+      }
+      loaded ??= typeof fixture === "string"
+        ? fs.readFile(fixture, "utf-8").then(text => JSON.parse(text))
+        : Promise.resolve(fixture);
+      const results = await loaded;
+      return Array.isArray(results) ? results : results[query] || results["*"] || [];
+    },
+  };
+}
+
+// Resolve a provider by name, falling back to WEB_SEARCH_PROVIDER and then exa-mcp
+export function getWebSearchProvider(name?: string): WebSearchProvider {
+  const selected = (name || process.env.WEB_SEARCH_PROVIDER || "exa-mcp") as WebSearchProviderName;
+  switch (selected) {
+    case "exa-mcp":
+      return createExaMcpProvider();
+    case "searxng":
+      return createSearxngProvider();
+    case "brave":
+      return createBraveProvider();
+    case "bing":
+      return createBingProvider();
+    case "fixture":
+      return createFixtureProvider();
+    default:
+      throw new Error(`Unknown web search provider "${selected}". Use one of: exa-mcp, searxng, brave, bing, fixture`);
+  }
+}
+
+// --- Rate limits ---
+
+// Start times of recent searches by provider name
+const recentSearches = new Map<string, number[]>();
+
+// Count a search against the provider's sliding window, or fail when the window is full
+function acquireSearchSlot({ name, rateLimit: { requests, windowMs } }: WebSearchProvider): void {
+  const now = Date.now();
+  const recent = (recentSearches.get(name) || []).filter(start => start > now - windowMs);
+  if (recent.length >= requests) {
+    const retryInSeconds = Math.ceil((recent[0] + windowMs - now) / 1000);
+    throw new Error(`Rate limit of ${requests} searches per ${windowMs / 1000}s reached for ${name}; retry in ${retryInSeconds}s`);
+  }
+  recent.push(now);
+  recentSearches.set(name, recent);
+}
+
+// --- Domains ---
+
+function parseDomainList(value?: string): string[] {
+  return (value || "").split(",").map(domain => domain.trim()).filter(Boolean);
+}
+
+export function getDomain(url: string): string | undefined {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return undefined;
+  }
+}
+
+// "example.com" covers its subdomains, e.g. docs.example.com
+function matchesDomain(domain: string, listed: string): boolean {
+  const normalized = listed.toLowerCase().replace(/^\*?\.|^www\./, "");
+  return domain === normalized || domain.endsWith(`.${normalized}`);
+}
+
+export interface SearchWebOptions {
+  provider?: WebSearchProvider | string;
+  maxResults?: number;
+  // Only keep results from these domains; applied on top of WEB_SEARCH_ALLOW_DOMAINS
+  allowDomains?: string[];
+  // Drop results from these domains, in addition to WEB_SEARCH_DENY_DOMAINS
+  denyDomains?: string[];
+}
+
+function normalizeDate(value?: string): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+// Search with the configured provider and return normalized, filtered, ranked results
+export async function searchWeb(
+  query: string,
+  { provider = getWebSearchProvider(), maxResults = 5, allowDomains = [], denyDomains = [] }: SearchWebOptions = {}
+): Promise<{ provider: string; results: WebSearchResult[] }> {
+  const searchProvider = typeof provider === "string" ? getWebSearchProvider(provider) : provider;
+  const allowLists = [parseDomainList(process.env.WEB_SEARCH_ALLOW_DOMAINS), allowDomains].filter(list => list.length > 0);
+  const deny = [...parseDomainList(process.env.WEB_SEARCH_DENY_DOMAINS), ...denyDomains];
+  const filtered = allowLists.length > 0 || deny.length > 0;
+
+  acquireSearchSlot(searchProvider);
+  // Ask for more when filtering may drop some
+  const raw = await searchProvider.search(query, { maxResults: filtered ? maxResults * 2 : maxResults });
+
+  const seen = new Set<string>();
+  const results: WebSearchResult[] = [];
+  for (const result of raw) {
+    const domain = result.url ? getDomain(result.url) : undefined;
+    if (!result.url || !domain || seen.has(result.url)) continue;
+    if (deny.some(listed => matchesDomain(domain, listed))) continue;
+    if (!allowLists.every(list => list.some(listed => matchesDomain(domain, listed)))) continue;
+    seen.add(result.url);
+
+    const content = result.content?.trim() || undefined;
+    const publishedDate = normalizeDate(result.publishedDate);
+    results.push({
+      rank: results.length + 1,
+      title: result.title?.trim() || domain,
+      url: result.url,
+      domain,
+      snippet: result.snippet?.trim() || content?.slice(0, 300) || "",
+      ...(content ? { content } : {}),
+      ...(publishedDate ? { publishedDate } : {}),
+      provider: searchProvider.name,
+    });
+    if (results.length >= maxResults) break;
+  }
+
+  return { provider: searchProvider.name, results };
+}
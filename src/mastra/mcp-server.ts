@@ -0,0 +1,414 @@
+import { randomUUID } from 'node:crypto';
+import http from 'node:http';
+import { RuntimeContext } from '@mastra/core/runtime-context';
+import { createTool } from '@mastra/core/tools';
+import { MCPServer } from '@mastra/mcp';
+import type { Mastra } from '@mastra/core/mastra';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import {
+  COLLECTION_CONTEXT_KEY,
+  ensureCollection,
+  getCollection,
+  getCollectionEmbeddingProvider,
+  listCollections,
+} from './lib/collections.js';
+import { contextExpansionModes } from './lib/context-expansion.js';
+import { chunkDocument, documentContentTypes } from './lib/documents.js';
+import { ingestSource } from './lib/ingestion.js';
+import { findChunks, listSources } from './lib/knowledge-base.js';
+import {
+  authenticateMcpClient,
+  canAccessCollection,
+  getClientDefaultCollection,
+  resolveClientCollection,
+  type McpClient,
+} from './lib/mcp-server-config.js';
+import { metadataFilterSchema } from './lib/metadata-filter.js';
+import { queryTransformModes } from './lib/query-transform.js';
+import { getSourceManifest } from './lib/source-manifest.js';
+import { getVectorStore } from './lib/vector-store.js';
+import { deleteDocumentsTool } from './tools/delete-documents-tool.js';
+import { enhancedVectorRagTool } from './tools/enhanced-vector-rag-tool.js';
+import { listSourcesTool } from './tools/list-sources-tool.js';
+
+// The knowledge base published as an MCP server, so editors and other agents can search
+// and feed it without the chat agent. Every client gets its own server instance scoped to
+// its collections; read-only clients get no ingestion or deletion tools. Indexed sources
+// are MCP resources at kb://<collection>/<source>.
+
+const RESOURCE_SCHEME = 'kb://';
+
+export function getSourceResourceUri(collection: string, source: string): string {
+  return `${RESOURCE_SCHEME}${encodeURIComponent(collection)}/${encodeURIComponent(source)}`;
+}
+
+function parseSourceResourceUri(uri: string): { collection: string; source: string } {
+  const match = /^kb:\/\/([^/]+)\/(.+)$/.exec(uri);
+  if (!match) {
+    throw new Error(`Not a knowledge base resource: ${uri}`);
+  }
+  return { collection: decodeURIComponent(match[1]), source: decodeURIComponent(match[2]) };
+}
+
+// Runs a knowledge base tool as the client: its default collection fills in for the conversation's
+function runAsClient(tool: any, mastra: Mastra, client: McpClient, context: Record<string, any>) {
+  const runtimeContext = new RuntimeContext();
+  runtimeContext.set(COLLECTION_CONTEXT_KEY, getClientDefaultCollection(client));
+  return tool.execute({ context, mastra, runtimeContext });
+}
+
+// Failures, including requests outside the client's collections, are returned as { error }
+async function reportErrors<T>(action: () => Promise<T>): Promise<T | { error: string }> {
+  try {
+    return await action();
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// Servers with a connected client: the stdio server, each client's server while an SSE
+// stream is open, and the server of every Streamable HTTP session
+const liveServers = new Set<MCPServer>();
+
+// MCPServer caches the resource list until notifyListChanged(), which also sends the client
+// a list_changed notification. Collections are shared between clients, so every live server
+// is notified, not only the one whose client changed a source.
+async function notifyResourceListChanged(): Promise<void> {
+  await Promise.all(Array.from(liveServers, server =>
+    server.resources.notifyListChanged().catch(error => {
+      console.warn('⚠️ Could not notify an MCP client of changed resources:', error instanceof Error ? error.message : error);
+    })
+  ));
+}
+
+// The text of a source, its chunks joined in document order
+async function readSource(mastra: Mastra, collectionName: string, source: string): Promise<string> {
+  const vectorStore = getVectorStore(mastra);
+  const { indexName } = await getCollection(vectorStore, collectionName);
+  const chunks = await findChunks(vectorStore, indexName, { source });
+  const manifest = await getSourceManifest(vectorStore, indexName, source);
+  const ordinals = new Map(manifest.map(chunk => [chunk.chunkId, chunk.ordinal]));
+
+  return chunks
+    .sort((a, b) =>
+      (ordinals.get(a.id) ?? Infinity) - (ordinals.get(b.id) ?? Infinity) ||
+      (a.metadata.startOffset ?? 0) - (b.metadata.startOffset ?? 0)
+    )
+    .map(chunk => chunk.metadata.text || '')
+    .join('\n\n');
+}
+
+export function createKnowledgeBaseMcpServer(mastra: Mastra, client: McpClient): MCPServer {
+  const collectionScope = client.collections === '*'
+    ? 'any collection'
+    : `the collections ${client.collections.map(name => `"${name}"`).join(', ')}`;
+
+  const searchTool = createTool({
+    id: 'search',
+    description: `Search the knowledge base with entity-enhanced hybrid retrieval. Returns passages with [n] citations and their sources. Searches ${collectionScope}; defaults to "${getClientDefaultCollection(client)}".`,
+    inputSchema: z.object({
+      query: z.string(),
+      collections: z.array(z.string()).optional(),
+      topK: z.number().default(10),
+      retrievalMode: z.enum(['vector', 'lexical', 'hybrid']).default('hybrid'),
+      queryTransform: z.enum(queryTransformModes).optional(),
+      contextExpansion: z.enum(contextExpansionModes).optional(),
+      tokenBudget: z.number().int().positive().optional(),
+      filter: metadataFilterSchema.optional(),
+    }),
+    execute: async ({ context }) => reportErrors(async () => {
+      const collections = (context.collections?.length ? context.collections : [undefined])
+        .map(collection => resolveClientCollection(client, collection));
+      const result = await runAsClient(enhancedVectorRagTool, mastra, client, {
+        ...context,
+        collections,
+        // Only the knowledge base: no web search, nothing unreviewed
+        webSearch: false,
+        includeQuarantined: false,
+      });
+      if (result.error) throw new Error(result.error);
+      return {
+        relevantContext: result.relevantContext,
+        sources: result.sources,
+        entities: result.entities,
+        queryVariants: result.queryVariants,
+      };
+    }),
+  });
+
+  const listCollectionsTool = createTool({
+    id: 'list_collections',
+    description: 'List the knowledge base collections this client can use',
+    inputSchema: z.object({}),
+    execute: async () => {
+      const vectorStore = getVectorStore(mastra);
+      const collections = (await listCollections(vectorStore)).filter(collection => canAccessCollection(client, collection.name));
+      return {
+        defaultCollection: getClientDefaultCollection(client),
+        collections: collections.map(({ name, description, chunkSize, overlap }) => ({ name, description, chunkSize, overlap })),
+      };
+    },
+  });
+
+  const listSourcesMcpTool = createTool({
+    id: 'list_sources',
+    description: 'List the documents of a collection with their chunk counts and provenance',
+    inputSchema: z.object({
+      collection: z.string().optional(),
+      kind: z.enum(['all', 'file', 'chat', 'web']).default('all'),
+    }),
+    execute: async ({ context }) => reportErrors(() =>
+      runAsClient(listSourcesTool, mastra, client, { ...context, collection: resolveClientCollection(client, context.collection) })
+    ),
+  });
+
+  const ingestDocumentTool = createTool({
+    id: 'ingest_document',
+    description: 'Add a document to the knowledge base, or update it when a document with the same name exists. Only new or changed chunks are embedded.',
+    inputSchema: z.object({
+      name: z.string().describe('Source key of the document, e.g. its path in the repository'),
+      content: z.string(),
+      encoding: z.enum(['utf-8', 'base64']).default('utf-8').describe('Use base64 for binary formats such as PDF and DOCX'),
+      contentType: z.enum(['auto', ...documentContentTypes]).default('auto'),
+      mimeType: z.string().optional(),
+      collection: z.string().optional(),
+    }),
+    execute: async ({ context }) => reportErrors(async () => {
+      const { name, content, encoding, contentType, mimeType } = context;
+      const vectorStore = getVectorStore(mastra);
+      const collection = await ensureCollection(vectorStore, resolveClientCollection(client, context.collection));
+      const { chunkSize, overlap } = collection;
+
+      const document = await chunkDocument(Buffer.from(content, encoding === 'base64' ? 'base64' : 'utf-8'), {
+        fileName: name,
+        contentType,
+        mimeType,
+        chunkSize,
+        overlap,
+      });
+      const ingested = await ingestSource(vectorStore, {
+        indexName: collection.indexName,
+        embeddingProvider: getCollectionEmbeddingProvider(collection),
+        source: name,
+        chunks: document.chunks,
+        metadata: {
+          contentType: document.contentType,
+          ...(document.title ? { title: document.title } : {}),
+          chunkSize,
+          overlap,
+          uploadedVia: 'mcp',
+          uploadedBy: client.name,
+        },
+      });
+      console.log(`📥 MCP client ${client.name} ingested ${name}: ${ingested.added} added, ${ingested.updated} updated, ${ingested.unchanged} unchanged, ${ingested.removed} removed`);
+
+      await notifyResourceListChanged();
+      return {
+        collection: collection.name,
+        contentType: document.contentType,
+        chunks: document.chunks.length,
+        added: ingested.added,
+        updated: ingested.updated,
+        unchanged: ingested.unchanged,
+        removed: ingested.removed,
+      };
+    }),
+  });
+
+  const deleteDocumentsMcpTool = createTool({
+    id: 'delete_documents',
+    description: 'Delete documents by source, URL or the query that stored them. Without confirm: true it only previews what would be deleted.',
+    inputSchema: z.object({
+      source: z.string().optional(),
+      url: z.string().optional(),
+      originalQuery: z.string().optional(),
+      confirm: z.boolean().default(false),
+      collection: z.string().optional(),
+    }),
+    execute: async ({ context }) => reportErrors(async () => {
+      const result = await runAsClient(deleteDocumentsTool, mastra, client, {
+        ...context,
+        collection: resolveClientCollection(client, context.collection),
+      });
+      if (result.deleted) await notifyResourceListChanged();
+      return result;
+    }),
+  });
+
+  const server: MCPServer = new MCPServer({
+    id: `knowledge-base-${client.name}`,
+    name: 'Enhanced Vector RAG knowledge base',
+    version: '1.0.0',
+    description: `Search${client.access === 'read-write' ? ', ingest and delete' : ''} documents in ${collectionScope}`,
+    tools: {
+      search: searchTool,
+      list_collections: listCollectionsTool,
+      list_sources: listSourcesMcpTool,
+      ...(client.access === 'read-write'
+        ? { ingest_document: ingestDocumentTool, delete_documents: deleteDocumentsMcpTool }
+        : {}),
+    },
+    resources: {
+      listResources: async () => {
+        const vectorStore = getVectorStore(mastra);
+        const collections = (await listCollections(vectorStore)).filter(collection => canAccessCollection(client, collection.name));
+        const resources = [];
+        for (const { name, indexName } of collections) {
+          for (const source of await listSources(vectorStore, indexName)) {
+            resources.push({
+              uri: getSourceResourceUri(name, source.source),
+              name: source.title || source.source,
+              description: `${source.kind} source in collection "${name}", ${source.chunkCount} chunks, ${source.provenance}`,
+              mimeType: 'text/plain',
+            });
+          }
+        }
+        return resources;
+      },
+      getResourceContent: async ({ uri }) => {
+        const { collection, source } = parseSourceResourceUri(uri);
+        return { text: await readSource(mastra, resolveClientCollection(client, collection), source) };
+      },
+    },
+  });
+
+  return server;
+}
+
+// Serve one client over stdin/stdout
+export async function startKnowledgeBaseMcpStdio(mastra: Mastra, client: McpClient): Promise<MCPServer> {
+  const server = createKnowledgeBaseMcpServer(mastra, client);
+  await server.startStdio();
+  liveServers.add(server);
+  return server;
+}
+
+interface HttpSession {
+  client: string;
+  server: MCPServer;
+  transport: StreamableHTTPServerTransport;
+}
+
+function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', chunk => (data += chunk));
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(data));
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function sendJsonRpcError(res: http.ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+    .end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+}
+
+// A Streamable HTTP request: an initialize request opens a session with a server of its
+// own, connected directly so that it can be notified; later requests carry the session id
+async function handleStreamableHttp(
+  mastra: Mastra,
+  client: McpClient,
+  sessions: Map<string, HttpSession>,
+  req: http.IncomingMessage,
+  res: http.ServerResponse
+): Promise<void> {
+  const sessionId = req.headers['mcp-session-id'];
+  if (typeof sessionId === 'string') {
+    const session = sessions.get(sessionId);
+    // Sessions are only resumed by the client that opened them
+    if (!session || session.client !== client.name) {
+      sendJsonRpcError(res, 404, 'Session not found');
+      return;
+    }
+    await session.transport.handleRequest(req, res);
+    return;
+  }
+
+  const body = req.method === 'POST' ? await readJsonBody(req).catch(() => undefined) : undefined;
+  if (!isInitializeRequest(body)) {
+    sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided for non-initialize request');
+    return;
+  }
+
+  const server = createKnowledgeBaseMcpServer(mastra, client);
+  const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    onsessioninitialized: id => {
+      sessions.set(id, { client: client.name, server, transport });
+      liveServers.add(server);
+    },
+  });
+  transport.onclose = () => {
+    if (transport.sessionId) sessions.delete(transport.sessionId);
+    liveServers.delete(server);
+  };
+  await server.getServer().connect(transport);
+  await transport.handleRequest(req, res, body);
+}
+
+// Serve every client over HTTP: Streamable HTTP at /mcp, SSE at /sse with messages
+// posted to /messages. Requests are routed by bearer token to the client's own server,
+// and each Streamable HTTP session gets a server of its own.
+export function startKnowledgeBaseMcpHttp(
+  mastra: Mastra,
+  clients: McpClient[],
+  { port = 3333, host = '127.0.0.1' }: { port?: number; host?: string } = {}
+): Promise<http.Server> {
+  const withTokens = clients.filter(client => client.token);
+  if (withTokens.length === 0) {
+    throw new Error('The HTTP transport needs at least one client with a token in mcp-server.config.json');
+  }
+  // SSE servers by client; MCPServer keeps one SSE connection per server
+  const sseServers = new Map(withTokens.map(client => [client.name, createKnowledgeBaseMcpServer(mastra, client)]));
+  const sessions = new Map<string, HttpSession>();
+
+  const httpServer = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || host}`);
+    try {
+      if (url.pathname === '/health') {
+        res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ status: 'ok' }));
+        return;
+      }
+
+      const client = authenticateMcpClient(withTokens, req.headers.authorization);
+      if (!client) {
+        res.writeHead(401, { 'WWW-Authenticate': 'Bearer', 'Content-Type': 'application/json' })
+          .end(JSON.stringify({ error: 'A valid bearer token is required' }));
+        return;
+      }
+
+      if (url.pathname === '/mcp') {
+        await handleStreamableHttp(mastra, client, sessions, req, res);
+      } else if (url.pathname === '/sse' || url.pathname === '/messages') {
+        const server = sseServers.get(client.name)!;
+        if (url.pathname === '/sse') {
+          // Live while the event stream is open
+          liveServers.add(server);
+          res.on('close', () => liveServers.delete(server));
+        }
+        await server.startSSE({ url, ssePath: '/sse', messagePath: '/messages', req, res });
+      } else {
+        res.writeHead(404).end();
+      }
+    } catch (error) {
+      console.error('❌ MCP request failed:', error);
+      if (!res.headersSent) res.writeHead(500).end();
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(port, host, () => {
+      console.log(`🔌 Knowledge base MCP server on http://${host}:${port}/mcp (SSE: /sse) for ${withTokens.map(client => client.name).join(', ')}`);
+      resolve(httpServer);
+    });
+  });
+}
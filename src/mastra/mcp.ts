@@ -1,37 +1,143 @@
 import path from 'node:path';
-import { MCPClient } from '@mastra/mcp';
+import { MCPClient, type MastraMCPServerDefinition } from '@mastra/mcp';
+import { isToolAllowed, loadMcpConfig, resolveServerSecrets, type McpServerConfig } from './lib/mcp-config.js';
 
-// Singleton MCP client to avoid multiple instantiations
-let mcpClient: MCPClient | null = null;
+// MCP servers from mcp.config.json, each with its own client so one unreachable server
+// cannot take the others down. Servers are connected once per process; the health report
+// is logged on the first connection.
 
-export async function buildMcp(): Promise<MCPClient> {
-  if (mcpClient) {
-    return mcpClient;
-  }
+export interface McpServerHealth {
+  name: string;
+  status: 'available' | 'unreachable' | 'skipped' | 'disabled';
+  // Tools the agent can use, as <server>_<tool>
+  tools: string[];
+  // Tools the server offers that the allowlist, denylist or read-only mode hides
+  hiddenTools: string[];
+  readOnly: boolean;
+  error?: string;
+}
+
+interface ConnectedServer {
+  health: McpServerHealth;
+  client?: MCPClient;
+  tools: Record<string, any>;
+}
 
-  const servers: Record<string, any> = {
-    // Filesystem server for project access
-    textEditor: {
-      command: 'npx',
-      args: ['-y', '@modelcontextprotocol/server-filesystem', path.join(process.cwd(), '..', '..')],
-    },
-
-    // Web search server for self-learning RAG
-    "exa": {
-      "command": "npx",
-      "args": [
-        "-y",
-        "@smithery/cli@latest",
-        "run",
-        "exa",
-        "--key",
-        "2e85e642-0d6e-4a2c-bea8-c883988d2e56",
-        "--profile",
-        "technical-rodent-tWaQXw"
-      ]
-    },
+const CONNECT_TIMEOUT_MS = Number(process.env.MCP_CONNECT_TIMEOUT_MS) || 60_000;
+
+let connecting: Promise<ConnectedServer[]> | null = null;
+
+function toServerDefinition(server: McpServerConfig): MastraMCPServerDefinition {
+  const timeout = server.timeoutMs ? { timeout: server.timeoutMs } : {};
+  if (server.url) {
+    return {
+      url: new URL(server.url),
+      ...(server.headers ? { requestInit: { headers: server.headers } } : {}),
+      ...timeout,
+    };
+  }
+  return {
+    command: server.command!,
+    args: server.args,
+    // Servers inherit PATH and the like; configured variables are added on top
+    env: { ...(process.env as Record<string, string>), ...server.env },
+    ...timeout,
   };
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: NodeJS.Timeout;
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(message)), ms);
+    }),
+  ]).finally(() => clearTimeout(timer));
+}
+
+async function connectServer(name: string, config: McpServerConfig, configDir: string): Promise<ConnectedServer> {
+  const health: McpServerHealth = { name, status: 'available', tools: [], hiddenTools: [], readOnly: config.readOnly };
+  if (!config.enabled) {
+    return { health: { ...health, status: 'disabled' }, tools: {} };
+  }
+
+  const { server, missing } = resolveServerSecrets(config, { ...process.env, CONFIG_DIR: configDir });
+  if (missing.length > 0) {
+    return { health: { ...health, status: 'skipped', error: `Missing environment variables: ${missing.join(', ')}` }, tools: {} };
+  }
+
+  const client = new MCPClient({ id: `rag-mcp-${name}`, servers: { [name]: toServerDefinition(server) } });
+  try {
+    const allTools = await withTimeout(client.getTools(), CONNECT_TIMEOUT_MS, `No response within ${CONNECT_TIMEOUT_MS}ms`);
+    const tools: Record<string, any> = {};
+    for (const [key, tool] of Object.entries(allTools)) {
+      if (isToolAllowed(server, key.slice(name.length + 1))) {
+        tools[key] = tool;
+      } else {
+        health.hiddenTools.push(key);
+      }
+    }
+    health.tools = Object.keys(tools);
+    return { health, client, tools };
+  } catch (error) {
+    await client.disconnect().catch(() => {});
+    const cause = (error as any)?.cause;
+    const message = cause instanceof Error ? cause.message : error instanceof Error ? error.message : String(error);
+    // The first line only: connection errors carry the stack of the transport
+    return { health: { ...health, status: 'unreachable', error: message.split('\n')[0] }, tools: {} };
+  }
+}
+
+function logHealth(servers: McpServerHealth[], configPath?: string): void {
+  if (!configPath) {
+    console.log('🔌 No mcp.config.json found; no MCP servers configured');
+    return;
+  }
+  console.log(`🔌 MCP servers from ${configPath}:`);
+  for (const server of servers) {
+    const icon = server.status === 'available' ? '✅' : server.status === 'disabled' ? '⏸️' : '⚠️';
+    const detail = server.status === 'available'
+      ? `${server.tools.length} tool${server.tools.length === 1 ? '' : 's'}${server.readOnly ? ' (read-only)' : ''}${server.hiddenTools.length ? `, ${server.hiddenTools.length} hidden` : ''}`
+      : `${server.status}${server.error ? `: ${server.error}` : ''}`;
+    console.log(`   ${icon} ${server.name}: ${detail}`);
+  }
+}
+
+async function connectServers(): Promise<ConnectedServer[]> {
+  const config = await loadMcpConfig();
+  const configDir = config.path ? path.dirname(config.path) : process.cwd();
+  const servers = await Promise.all(
+    Object.entries(config.servers).map(([name, server]) => connectServer(name, server, configDir))
+  );
+  logHealth(servers.map(server => server.health), config.path);
+  return servers;
+}
+
+function getServers(): Promise<ConnectedServer[]> {
+  if (!connecting) {
+    connecting = connectServers().catch(error => {
+      // A broken config disables MCP tools instead of failing the agent
+      console.error('❌ MCP configuration failed:', error instanceof Error ? error.message : error);
+      return [];
+    });
+  }
+  return connecting;
+}
+
+// Allowed tools of every reachable server, keyed <server>_<tool>
+export async function getMcpTools(): Promise<Record<string, any>> {
+  const servers = await getServers();
+  return Object.assign({}, ...servers.map(server => server.tools));
+}
+
+// Which servers are reachable and which of their tools are exposed
+export async function checkMcpHealth(): Promise<McpServerHealth[]> {
+  return (await getServers()).map(server => server.health);
+}
 
-  mcpClient = new MCPClient({ id: 'self-learning-rag-mcp', servers });
-  return mcpClient;
+// Disconnect every server; the next call connects again with the current config
+export async function disconnectMcp(): Promise<void> {
+  const servers = connecting ? await connecting : [];
+  connecting = null;
+  await Promise.all(servers.map(server => server.client?.disconnect().catch(() => {})));
 }
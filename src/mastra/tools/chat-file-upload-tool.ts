@@ -1,8 +1,11 @@
 import { createTool } from "@mastra/core/tools";
 import { z } from "zod";
-import { embedMany } from "ai";
-import { openai } from "@ai-sdk/openai";
-import { MDocument } from "@mastra/rag";
+import { ensureCollection, getCollectionEmbeddingProvider, resolveCollectionName } from "../lib/collections.js";
+import { chunkDocument, documentContentTypes } from "../lib/documents.js";
+import { ingestSource } from "../lib/ingestion.js";
+import { getVectorStore } from "../lib/vector-store.js";
+
+const emptyIngestCounts = { added: 0, updated: 0, unchanged: 0, removed: 0 };
 
 export const chatFileUploadTool = createTool({
   id: "chatFileUpload",
@@ -10,124 +13,83 @@ export const chatFileUploadTool = createTool({
   inputSchema: z.object({
     fileContent: z.string().describe("The content of the uploaded file"),
     fileName: z.string().describe("Name of the uploaded file"),
-    chunkSize: z.number().default(512).describe("Size of each chunk in characters"),
-    overlap: z.number().default(50).describe("Overlap between chunks in characters"),
-    contentType: z.enum(["auto", "text", "markdown", "json"]).default("auto").describe("Type of content (auto-detect if not specified)"),
+    encoding: z.enum(["utf-8", "base64"]).default("utf-8").describe("How fileContent is encoded; use base64 for binary files such as PDF or DOCX"),
+    mimeType: z.string().optional().describe("MIME type reported by the chat client, used to pick a parser"),
+    chunkSize: z.number().optional().describe("Size of each chunk in characters (defaults to the collection's setting)"),
+    overlap: z.number().optional().describe("Overlap between chunks in characters (defaults to the collection's setting)"),
+    contentType: z.enum(["auto", ...documentContentTypes]).default("auto").describe("Type of content (auto-detect if not specified)"),
+    collection: z.string().optional().describe("Collection to add the file to (defaults to the conversation's collection); created if it does not exist"),
   }),
   outputSchema: z.object({
     success: z.boolean().describe("Whether the upload was successful"),
     chunksCreated: z.number().describe("Number of chunks created"),
     embeddingsGenerated: z.number().describe("Number of embeddings generated"),
     entitiesExtracted: z.number().describe("Number of entities extracted"),
+    added: z.number().describe("Chunks new to the knowledge base"),
+    updated: z.number().describe("Chunks that replaced a changed chunk of the same source"),
+    unchanged: z.number().describe("Chunks already stored, skipped"),
+    removed: z.number().describe("Stale chunks of the source that were deleted"),
     message: z.string().describe("Status message"),
   }),
-  execute: async ({ context, mastra }: any) => {
-    const { fileContent, fileName, chunkSize = 512, overlap = 50, contentType = "auto" } = context;
+  execute: async ({ context, mastra, runtimeContext }: any) => {
+    const { fileContent, fileName, encoding = "utf-8", mimeType, contentType = "auto" } = context;
 
     try {
       console.log(`📁 Processing uploaded file: ${fileName}`);
 
-      // Determine content type based on file extension
-      let detectedContentType = contentType;
-      if (contentType === "auto") {
-        const fileExtension = fileName.toLowerCase().split('.').pop();
-        if (fileExtension === 'md' || fileExtension === 'markdown') {
-          detectedContentType = "markdown";
-        } else if (fileExtension === 'json') {
-          detectedContentType = "json";
-        } else {
-          detectedContentType = "text";
-        }
-      }
-
-      console.log(`📄 Content type detected: ${detectedContentType}`);
-
-      // Create document based on content type
-      let doc: MDocument;
-      switch (detectedContentType) {
-        case "markdown":
-          doc = MDocument.fromMarkdown(fileContent);
-          break;
-        case "json":
-          doc = MDocument.fromJSON(fileContent);
-          break;
-        default:
-          doc = MDocument.fromText(fileContent);
-      }
-
-      // Chunk the document
-      const chunks = await doc.chunk({
-        strategy: "recursive",
-        size: chunkSize,
-        overlap: overlap,
-        separator: "\n",
-      });
-
-      console.log(`✅ Created ${chunks.length} chunks`);
-
-      // Generate embeddings
-      const { embeddings } = await embedMany({
-        model: openai.embedding("text-embedding-3-small"),
-        values: chunks.map(chunk => chunk.text),
-      });
-
-      console.log(`✅ Generated ${embeddings.length} embeddings`);
-
-      // Extract entities from chunks
-      const allEntities = new Set<string>();
-      chunks.forEach(chunk => {
-        const entities = extractSimpleEntities(chunk.text);
-        entities.forEach(entity => allEntities.add(entity));
-      });
-
-      console.log(`✅ Extracted ${allEntities.size} unique entities`);
-
       // Get vector store
-      const vectorStore = mastra?.getVector("pgVector");
+      const vectorStore = getVectorStore(mastra);
       if (!vectorStore) {
         return {
           success: false,
-          chunksCreated: chunks.length,
-          embeddingsGenerated: embeddings.length,
-          entitiesExtracted: allEntities.size,
+          chunksCreated: 0,
+          embeddingsGenerated: 0,
+          entitiesExtracted: 0,
+          ...emptyIngestCounts,
           message: "Vector store not found"
         };
       }
 
-      // Create index if it doesn't exist
-      try {
-        await vectorStore.createIndex({
-          indexName: "embeddings",
-          dimension: 1536,
-        });
-      } catch (error) {
-        // Index might already exist, continue
-        console.log("Index already exists or creation failed, continuing...");
-      }
+      // Chunking defaults and embedding model come from the target collection
+      const collection = await ensureCollection(vectorStore, resolveCollectionName(context.collection, runtimeContext));
+      const { chunkSize = collection.chunkSize, overlap = collection.overlap } = context;
+
+      // Parse the document into sections and chunk each one
+      const content = Buffer.from(fileContent, encoding === "base64" ? "base64" : "utf-8");
+      const document = await chunkDocument(content, { fileName, contentType, mimeType, chunkSize, overlap });
+      const chunks = document.chunks;
+
+      console.log(`📄 Content type detected: ${document.contentType}`);
+
+      console.log(`✅ Created ${chunks.length} chunks`);
 
-      // Store embeddings with metadata
-      await vectorStore.upsert({
-        indexName: "embeddings",
-        vectors: embeddings,
-        metadata: chunks.map(chunk => ({
-          text: chunk.text,
-          entities: extractSimpleEntities(chunk.text),
-          source: fileName,
-          contentType: detectedContentType,
+      // Embed and store only new or changed chunks, and drop chunks the source no longer has
+      const ingested = await ingestSource(vectorStore, {
+        indexName: collection.indexName,
+        embeddingProvider: getCollectionEmbeddingProvider(collection),
+        source: fileName,
+        chunks,
+        metadata: {
+          contentType: document.contentType,
+          ...(document.title ? { title: document.title } : {}),
           chunkSize,
           overlap,
-          uploadedVia: "chat"
-        })),
+          uploadedVia: "chat",
+        },
       });
 
-      console.log(`✅ Stored ${embeddings.length} embeddings in vector store`);
+      console.log(`✅ ${ingested.added} added, ${ingested.updated} updated, ${ingested.unchanged} unchanged, ${ingested.removed} removed`);
 
       return {
         success: true,
         chunksCreated: chunks.length,
-        embeddingsGenerated: embeddings.length,
-        entitiesExtracted: allEntities.size,
-        message: `Successfully uploaded ${fileName} to knowledge base via chat interface`
+        embeddingsGenerated: ingested.embeddingsGenerated,
+        entitiesExtracted: ingested.entitiesExtracted,
+        added: ingested.added,
+        updated: ingested.updated,
+        unchanged: ingested.unchanged,
+        removed: ingested.removed,
+        message: `Successfully uploaded ${fileName} to collection "${collection.name}" via chat interface`
       };
 
     } catch (error) {
@@ -138,30 +100,9 @@ export const chatFileUploadTool = createTool({
         chunksCreated: 0,
         embeddingsGenerated: 0,
         entitiesExtracted: 0,
+        ...emptyIngestCounts,
         message: `Upload failed: ${errorMessage}`
       };
     }
   },
 });
-
-// Simple entity extraction
-function extractSimpleEntities(text: string): string[] {
-  const entities: string[] = [];
-
-  // Extract potential entities (simple approach)
-  const words = text.toLowerCase().split(/\s+/);
-  const potentialEntities = words.filter(word =>
-    word.length > 3 && /^[a-zA-Z]+$/.test(word)
-  );
-
-  // Remove duplicates and common words
-  const commonWords = ['the', 'and', 'with', 'that', 'this', 'have', 'from', 'they', 'will', 'would', 'there', 'their', 'what', 'said', 'each', 'which', 'she', 'do', 'how', 'her', 'if', 'will', 'up', 'one', 'about', 'many', 'then', 'them', 'these', 'so', 'some', 'her', 'would', 'make', 'like', 'into', 'him', 'time', 'two', 'more', 'go', 'no', 'way', 'could', 'my', 'than', 'first', 'been', 'call', 'who', 'its', 'now', 'find', 'long', 'down', 'day', 'did', 'get', 'come', 'made', 'may', 'part'];
-
-  potentialEntities.forEach(word => {
-    if (!commonWords.includes(word) && !entities.includes(word)) {
-      entities.push(word);
-    }
-  });
-
-  return entities.slice(0, 10); // Limit to 10 entities
-}
@@ -0,0 +1,75 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import { createCollection } from "../lib/collections.js";
+import { getVectorStore } from "../lib/vector-store.js";
+
+const collectionSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  embeddingProvider: z.string(),
+  embeddingModel: z.string(),
+  chunkSize: z.number(),
+  overlap: z.number(),
+  createdAt: z.string().optional(),
+});
+
+export const createCollectionTool = createTool({
+  id: "createCollection",
+  description: "Create a named collection: a separate knowledge base with its own embedding model and chunking defaults",
+  inputSchema: z.object({
+    name: z.string().describe("Collection name: lowercase letters, digits and underscores, e.g. \"project_alpha\""),
+    description: z.string().optional().describe("What the collection contains"),
+    embeddingProvider: z.enum(["openai", "openai-compatible", "local"]).optional().describe("Embedding provider (defaults to the EMBEDDING_PROVIDER setting)"),
+    embeddingModel: z.string().optional().describe("Embedding model, e.g. \"text-embedding-3-large\" or \"Xenova/bge-small-en-v1.5\""),
+    embeddingDimension: z.number().optional().describe("Vector size, for models that support shortened embeddings or are not known in advance"),
+    embeddingBaseUrl: z.string().optional().describe("Base URL of an OpenAI-compatible embedding server"),
+    chunkSize: z.number().default(512).describe("Default chunk size in characters for documents added to the collection"),
+    overlap: z.number().default(50).describe("Default overlap between chunks in characters"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    collection: collectionSchema.optional(),
+    message: z.string(),
+  }),
+  execute: async ({ context, mastra }: any) => {
+    const { name, description, embeddingProvider, embeddingModel, embeddingDimension, embeddingBaseUrl, chunkSize = 512, overlap = 50 } = context;
+
+    try {
+      const vectorStore = getVectorStore(mastra);
+      const collection = await createCollection(vectorStore, {
+        name,
+        description,
+        embedding: {
+          provider: embeddingProvider,
+          model: embeddingModel,
+          dimension: embeddingDimension,
+          baseUrl: embeddingBaseUrl,
+        },
+        chunkSize,
+        overlap,
+      });
+
+      console.log(`🗂️ Created collection "${name}" (${collection.embedding.provider}:${collection.embedding.model})`);
+
+      return {
+        success: true,
+        collection: {
+          name: collection.name,
+          description: collection.description,
+          embeddingProvider: collection.embedding.provider,
+          embeddingModel: collection.embedding.model,
+          chunkSize: collection.chunkSize,
+          overlap: collection.overlap,
+          createdAt: collection.createdAt,
+        },
+        message: `Created collection "${name}" using ${collection.embedding.provider}:${collection.embedding.model}`,
+      };
+    } catch (error) {
+      console.error("Error creating collection:", error);
+      return {
+        success: false,
+        message: `Creating collection failed: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  },
+});
@@ -0,0 +1,74 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import { getCollection, resolveCollectionName } from "../lib/collections.js";
+import { deleteDocuments, findChunks, getSourceKey } from "../lib/knowledge-base.js";
+import { getVectorStore } from "../lib/vector-store.js";
+
+export const deleteDocumentsTool = createTool({
+  id: "deleteDocuments",
+  description: "Delete documents from the knowledge base by source, URL or the query that stored them. Without confirm it only previews what would be deleted.",
+  inputSchema: z.object({
+    source: z.string().optional().describe("Source key as returned by listSources"),
+    url: z.string().optional().describe("URL of a stored web result"),
+    originalQuery: z.string().optional().describe("Query whose stored web results should be deleted"),
+    confirm: z.boolean().default(false).describe("Must be true to actually delete; only set it when the user explicitly confirmed"),
+    collection: z.string().optional().describe("Collection to delete from (defaults to the conversation's collection)"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    deleted: z.boolean().describe("Whether anything was deleted, false for a preview"),
+    matchedChunks: z.number(),
+    sources: z.array(z.string()).describe("Sources of the matched chunks"),
+    message: z.string(),
+  }),
+  execute: async ({ context, mastra, runtimeContext }: any) => {
+    const { source, url, originalQuery, confirm = false } = context;
+
+    try {
+      const vectorStore = getVectorStore(mastra);
+      const { indexName } = await getCollection(vectorStore, resolveCollectionName(context.collection, runtimeContext));
+      const chunks = await findChunks(vectorStore, indexName, { source, url, originalQuery });
+      const sources = Array.from(new Set(chunks.map(chunk => getSourceKey(chunk.metadata))));
+
+      if (chunks.length === 0) {
+        return {
+          success: true,
+          deleted: false,
+          matchedChunks: 0,
+          sources: [],
+          message: "No matching documents found",
+        };
+      }
+
+      if (!confirm) {
+        return {
+          success: true,
+          deleted: false,
+          matchedChunks: chunks.length,
+          sources,
+          message: `Would delete ${chunks.length} chunks from ${sources.length} sources. Ask the user to confirm, then call again with confirm: true`,
+        };
+      }
+
+      const deletedCount = await deleteDocuments(vectorStore, indexName, chunks);
+      console.log(`🗑️ Deleted ${deletedCount} chunks from ${sources.length} sources`);
+
+      return {
+        success: true,
+        deleted: true,
+        matchedChunks: deletedCount,
+        sources,
+        message: `Deleted ${deletedCount} chunks from ${sources.length} sources`,
+      };
+    } catch (error) {
+      console.error("Error deleting documents:", error);
+      return {
+        success: false,
+        deleted: false,
+        matchedChunks: 0,
+        sources: [],
+        message: `Delete failed: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  },
+});
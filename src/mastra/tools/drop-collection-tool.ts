@@ -0,0 +1,56 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import { DEFAULT_COLLECTION, dropCollection, getCollection } from "../lib/collections.js";
+import { getVectorStore } from "../lib/vector-store.js";
+
+export const dropCollectionTool = createTool({
+  id: "dropCollection",
+  description: "Drop a collection with all of its documents. Without confirm it only previews what would be deleted.",
+  inputSchema: z.object({
+    name: z.string().describe("Collection to drop, as returned by listCollections"),
+    confirm: z.boolean().default(false).describe("Must be true to actually drop; only set it when the user explicitly confirmed"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    dropped: z.boolean().describe("Whether the collection was dropped, false for a preview"),
+    chunkCount: z.number().describe("Chunks stored in the collection"),
+    message: z.string(),
+  }),
+  execute: async ({ context, mastra }: any) => {
+    const { name, confirm = false } = context;
+
+    try {
+      const vectorStore = getVectorStore(mastra);
+
+      if (!confirm && name !== DEFAULT_COLLECTION) {
+        const { indexName } = await getCollection(vectorStore, name);
+        const indexes: string[] = await vectorStore.listIndexes();
+        const chunkCount = indexes.includes(indexName) ? (await vectorStore.describeIndex({ indexName })).count : 0;
+        return {
+          success: true,
+          dropped: false,
+          chunkCount,
+          message: `Would drop collection "${name}" with ${chunkCount} chunks. Ask the user to confirm, then call again with confirm: true`,
+        };
+      }
+
+      const chunkCount = await dropCollection(vectorStore, name);
+      console.log(`🗑️ Dropped collection "${name}" (${chunkCount} chunks)`);
+
+      return {
+        success: true,
+        dropped: true,
+        chunkCount,
+        message: `Dropped collection "${name}" with ${chunkCount} chunks`,
+      };
+    } catch (error) {
+      console.error("Error dropping collection:", error);
+      return {
+        success: false,
+        dropped: false,
+        chunkCount: 0,
+        message: `Dropping collection failed: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  },
+});
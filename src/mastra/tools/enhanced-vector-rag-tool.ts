@@ -1,136 +1,243 @@
 import { createTool } from "@mastra/core/tools";
 import { z } from "zod";
-import { embedMany } from "ai";
-import { openai } from "@ai-sdk/openai";
-import { buildMcp } from "../mcp.js";
-import { MDocument } from "@mastra/rag";
+import { getEntityExtractor } from "../lib/entities.js";
+import type { EmbeddingProvider } from "../lib/embeddings.js";
+import { getCollection, getCollectionEmbeddingProvider, resolveCollectionName, type Collection } from "../lib/collections.js";
+import { assertIndexEmbeddingModel } from "../lib/index-catalog.js";
+import { fuseQueryVariants, mergeCollectionResults, retrieve } from "../lib/retrieval.js";
+import { boostCitedSources, condenseQuery, loadConversation, type Conversation } from "../lib/conversation.js";
+import { getQueryTransformer, queryTransformModes, queryVariantSchema, transformQuery, type QueryVariant } from "../lib/query-transform.js";
+import { entityOverlapReranker, getReranker, rerankResults } from "../lib/rerankers.js";
+import { traverseEntityGraph, type EntityGraphHop } from "../lib/entity-graph.js";
+import { fetchChunks } from "../lib/chunk-store.js";
+import { buildCodeFilter, codeLanguages } from "../lib/code-chunker.js";
+import { sourceRecordSchema, toSourceRecords } from "../lib/citations.js";
+import { assembleContext, contextExclusionSchema } from "../lib/context-assembly.js";
+import { contextExpansionModes, expandResults } from "../lib/context-expansion.js";
+import { matchesFilter } from "../lib/in-memory-vector.js";
+import { compileMetadataFilter, metadataFilterSchema, type VectorFilter } from "../lib/metadata-filter.js";
+import { weightByTrust } from "../lib/provenance.js";
+import { getVectorStore } from "../lib/vector-store.js";
+import {
+  excludeUnreviewedWebResults,
+  getQuarantineIndexName,
+  hasQuarantine,
+  isUnreviewedWebResult,
+  quarantinedResultsMayMatch,
+  quarantineWebResults,
+} from "../lib/web-quarantine.js";
+import { searchWeb, webSearchResultSchema } from "../lib/web-search.js";
+
+// Inputs of enhancedVectorRag; callers outside the agent parse theirs with it to get the defaults
+export const enhancedVectorRagInputSchema = z.object({
+  query: z.string().describe("The question or query to search for in the knowledge base"),
+  topK: z.number().default(10).describe("Number of top results to retrieve"),
+  entityDepth: z.number().default(2).describe("Number of hops to walk through the entity graph from the query entities"),
+  useEntityEnhancement: z.boolean().default(true).describe("Whether to use entity-based enhancement for retrieval"),
+  retrievalMode: z.enum(["vector", "lexical", "hybrid"]).default("hybrid").describe("Dense vector search, lexical full-text search, or both fused with reciprocal-rank fusion"),
+  reranker: z.enum(["entity-overlap", "llm", "cross-encoder", "none"]).optional().describe("Reranking stage (defaults to the RERANKER setting)"),
+  queryTransform: z.enum(queryTransformModes).optional().describe("Transform the query before retrieval: rewrite it into a standalone search query, add paraphrases (multi-query), embed a hypothetical answer (hyde) or split it into sub-questions (decompose). Defaults to the QUERY_TRANSFORM setting"),
+  queryVariants: z.number().default(3).describe("Number of paraphrases or sub-questions for multi-query and decompose"),
+  useConversation: z.boolean().default(true).describe("Condense the conversation so far and the query into a standalone search query, and boost sources cited earlier in the conversation. Only applies when called within a memory thread"),
+  symbol: z.string().optional().describe("Only search code chunks defining this symbol, e.g. \"parseConfig\" or \"Parser.parse\"; use for \"where is X defined\" questions"),
+  path: z.string().optional().describe("Only search code chunks whose file path contains this text, e.g. \"src/auth\""),
+  language: z.enum(codeLanguages).optional().describe("Only search code chunks in this programming language"),
+  filter: metadataFilterSchema.optional(),
+  collections: z.array(z.string()).optional().describe("Collections to search (defaults to the conversation's collection); results of several collections are merged by rank"),
+  sufficiencyThreshold: z.number().default(0.7).describe("Vector similarity a local result needs for the web not to be searched"),
+  webSearch: z.boolean().default(true).describe("Search the web when local results are insufficient; results are quarantined until approved"),
+  contextExpansion: z.enum(contextExpansionModes).optional().describe("Match on small chunks but return more around each match: neighborChunks chunks on either side (neighbors) or the whole parent section (section), with overlapping passages merged. Use when answers need complete steps or paragraphs. Defaults to the CONTEXT_EXPANSION setting"),
+  neighborChunks: z.number().int().min(0).default(1).describe("Chunks added before and after each match when contextExpansion is neighbors"),
+  tokenBudget: z.number().int().positive().optional().describe("Maximum tokens of relevantContext, counted with the target model's tokenizer (defaults to the CONTEXT_TOKEN_BUDGET setting)"),
+  includeQuarantined: z.boolean().default(false).describe("Also search web results that were fetched automatically and not approved yet. Only when the user allows unreviewed web content"),
+});
 
 // Enhanced Vector RAG with entity-based retrieval
 export const enhancedVectorRagTool = createTool({
   id: "enhancedVectorRag",
   description: "Query the knowledge base using multi-stage retrieval with entity relationships and entity-based enhancement",
-  inputSchema: z.object({
-    query: z.string().describe("The question or query to search for in the knowledge base"),
-    topK: z.number().default(10).describe("Number of top results to retrieve"),
-    entityDepth: z.number().default(2).describe("Depth of entity-based search"),
-    useEntityEnhancement: z.boolean().default(true).describe("Whether to use entity-based enhancement for retrieval"),
-  }),
+  inputSchema: enhancedVectorRagInputSchema,
   outputSchema: z.object({
-    relevantContext: z.string().describe("Combined text from the most relevant document chunks"),
-    sources: z.array(z.any()).describe("Array of source documents with metadata and scores"),
+    relevantContext: z.string().describe("The most relevant, non-redundant passages that fit the token budget, grouped by source in document order, each prefixed with its [n] citation"),
+    contextTokens: z.number().optional().describe("Tokens relevantContext takes for the target model"),
+    excludedSources: z.array(contextExclusionSchema).optional().describe("Retrieved sources left out of relevantContext and why: empty, near-duplicate of another passage, or over the token budget"),
+    sources: z.array(sourceRecordSchema).describe("Retrieved chunks in rank order; cite them with the [n] of their citation number"),
     entityPath: z.array(z.any()).describe("Entity-based search path showing relationships"),
     entities: z.array(z.string()).describe("Entities found in the query and results"),
     webSearchUsed: z.boolean().describe("Whether web search was used to supplement local knowledge"),
-    webSearchResults: z.array(z.any()).optional().describe("Web search results that were stored"),
+    webSearchResults: z.array(webSearchResultSchema).optional().describe("Web search results that were quarantined"),
+    quarantinedSources: z.array(z.string()).optional().describe("URLs of the web results quarantined by this search; ask the user before approving them with reviewQuarantine"),
+    condensedQuery: z.string().optional().describe("The standalone query searched instead of the given one, condensed from the conversation"),
+    queryVariants: z.array(queryVariantSchema).optional().describe("The original query and the variants generated from it, in the order results record them in metadata.queryVariants"),
+    error: z.string().optional().describe("Why retrieval failed"),
   }),
-  execute: async ({ context, mastra }: any) => {
-    const { query, topK = 10, entityDepth = 2, useEntityEnhancement = true } = context;
+  execute: async ({ context, mastra, runtimeContext, threadId, resourceId, memory }: any) => {
+    const {
+      query,
+      topK = 10,
+      entityDepth = 2,
+      useEntityEnhancement = true,
+      retrievalMode = "hybrid",
+      reranker,
+      queryTransform,
+      queryVariants: variantCount = 3,
+      useConversation = true,
+      symbol,
+      path,
+      language,
+      sufficiencyThreshold = 0.7,
+      webSearch = true,
+      includeQuarantined = false,
+      contextExpansion,
+      neighborChunks = 1,
+      tokenBudget,
+    } = context;
 
     try {
       // Get the vector store
-      const vectorStore = mastra?.getVector("pgVector");
+      const vectorStore = getVectorStore(mastra);
       if (!vectorStore) {
-        throw new Error("Vector store not found. Please ensure pgVector is configured.");
+        throw new Error("Vector store not found. Please ensure a vector store is configured.");
       }
 
-      // Generate embedding for the query
-      const { embeddings } = await embedMany({
-        model: openai.embedding("text-embedding-3-small"),
-        values: [query],
-      });
+      // One filter for the initial search, the entity expansion and the re-query after web search
+      const filter = compileMetadataFilter(vectorStore, context.filter, buildCodeFilter({ symbol, path, language }));
+      // Web results stored in a collection before quarantine existed are unreviewed too
+      const collectionFilter = includeQuarantined ? filter : excludeUnreviewedWebResults(filter);
+
+      // Web results found for this query are stored in the first collection
+      const collectionNames: string[] = context.collections?.length
+        ? Array.from(new Set(context.collections))
+        : [resolveCollectionName(undefined, runtimeContext)];
+      const collections = await Promise.all(collectionNames.map(name => getCollection(vectorStore, name)));
+
+      // Step 0: Condense a follow-up with the thread it belongs to, then transform it into
+      // the variants to search (just the query itself by default)
+      const conversation = useConversation && memory && threadId
+        ? await loadThreadConversation(memory, threadId, resourceId)
+        : undefined;
+      const condensedQuery = conversation ? await condenseQuery(conversation.turns, query) : query;
+      if (condensedQuery !== query) {
+        console.log(`💬 Condensed follow-up "${query}" to "${condensedQuery}"`);
+      }
 
-      const queryEmbedding = embeddings[0];
+      const variants = await transformQuery(condensedQuery, getQueryTransformer(queryTransform), { count: variantCount });
+      if (variants.length > 1) {
+        console.log(`🔀 Searching ${variants.length} query variants: ${variants.slice(1).map(variant => `${variant.kind} "${variant.query}"`).join(", ")}`);
+      }
+      // A rewrite is what the user meant; it drives web search, entities and reranking
+      const primaryQuery = variants.find(variant => variant.kind === "rewrite")?.query ?? condensedQuery;
+
+      // Generate the variant embeddings with the model that built each collection's index
+      const variantEmbeddings = await embedQuery(vectorStore, collections, variants.map(variant => variant.embedText));
+      const queryEmbeddings = new Map(Array.from(variantEmbeddings, ([name, embeddings]) => [name, embeddings[0]]));
+
+      // Search every collection for one variant, plus its quarantined web results when allowed, and merge the ranked lists
+      const searchVariant = async (variant: QueryVariant, variantIndex: number, k: number) => {
+        const search = (indexName: string, collection: Collection, indexFilter: VectorFilter) => retrieve(vectorStore, {
+          indexName,
+          query: variant.query,
+          queryVector: variantEmbeddings.get(collection.name)![variantIndex],
+          topK: k,
+          mode: retrievalMode,
+          filter: indexFilter,
+        });
+        const retrievals = await Promise.all(collections.map(async collection => ({
+          collection: collection.name,
+          retrieval: await search(collection.indexName, collection, collectionFilter),
+        })));
+
+        // Quarantined results are ranked with the rest but never count as sufficient local results
+        const quarantined = includeQuarantined
+          ? await Promise.all(collections.map(async collection => ({
+              collection: collection.name,
+              results: (await hasQuarantine(vectorStore, collection.indexName))
+                ? (await search(getQuarantineIndexName(collection.indexName), collection, filter)).results
+                    .map((result: any) => ({ ...result, metadata: { ...result.metadata, quarantined: true } }))
+                : [],
+            })))
+          : [];
 
-      // Step 1: Initial vector similarity search
-      let initialResults = await vectorStore.query({
-        indexName: "embeddings",
-        queryVector: queryEmbedding,
-        topK: topK,
-        includeVector: false,
-      });
+        return {
+          retrievals,
+          results: mergeCollectionResults(
+            [
+              ...retrievals.map(({ collection, retrieval }) => ({ collection, results: retrieval.results })),
+              ...quarantined.filter(({ results }) => results.length > 0),
+            ],
+            k
+          ),
+        };
+      };
+
+      // Search every variant and fuse their results
+      const searchCollections = async (k: number) => {
+        const searches = await Promise.all(variants.map((variant, index) => searchVariant(variant, index, k)));
+        return {
+          retrievals: searches.flatMap(search => search.retrievals),
+          results: fuseQueryVariants(searches.map(search => search.results), k),
+        };
+      };
+
+      // Step 1: Initial retrieval (vector, lexical or hybrid)
+      const initialSearch = await searchCollections(topK);
+      let initialResults = initialSearch.results;
 
       let webSearchUsed = false;
       let webSearchResults: any[] = [];
+      let quarantinedSources: string[] = [];
 
-      // Check if we have sufficient local results
-      const hasSufficientLocalResults = initialResults && initialResults.length > 0 &&
-        initialResults.some((result: any) => (result.score || 0) > 0.7);
+      // Check if we have sufficient local results. Similarity scores are only
+      // comparable to the threshold on the vector channel.
+      const hasSufficientLocalResults = initialSearch.retrievals.some(({ retrieval }) => retrievalMode === "lexical"
+        ? retrieval.channels.lexical.length > 0
+        : retrieval.channels.vector.some((result: any) =>
+            (result.score || 0) > sufficiencyThreshold && !isUnreviewedWebResult(result.metadata || {})));
 
-            if (!hasSufficientLocalResults) {
-        console.log(`🔍 Insufficient local results for query: "${query}". Initiating web search...`);
+      // Only search the web when the results it stores could pass the filter
+      // (e.g. "web results from this week", but not "only the Q3 runbook")
+      const webResultsMatchFilter = quarantinedResultsMayMatch(filter.exact, condensedQuery);
 
-        try {
-          // Perform web search using Exa Search MCP server via stdio
-          const mcp = await buildMcp();
-          const tools = await mcp.getTools();
-
-          // Log available tools to see correct IDs
-          console.log('Available MCP tools:', Object.keys(tools).map(key => ({
-            key,
-            id: tools[key]?.id,
-            description: tools[key]?.description
-          })));
-
-          // Use Exa Search's web search tool directly
-          const exaWebSearchTool = Object.values(tools).find((tool: any) =>
-            tool.id?.includes('search') || tool.id?.includes('web')
-          );
-
-          if (!exaWebSearchTool) {
-            console.log('Available tool IDs:', Object.values(tools).map((tool: any) => tool.id));
-            throw new Error('Exa Search web search tool not available');
-          }
+      if (webSearch && !hasSufficientLocalResults && webResultsMatchFilter) {
+        console.log(`🔍 Insufficient local results for query: "${primaryQuery}". Initiating web search...`);
 
-          const searchResult = await exaWebSearchTool.execute({
-            query,
-            numResults: 5
-          });
+        try {
+          // Search with the configured provider (WEB_SEARCH_PROVIDER)
+          const searchResult = await searchWeb(primaryQuery, { maxResults: 5 });
 
-          if (searchResult.results && searchResult.results.length > 0) {
+          if (searchResult.results.length > 0) {
             webSearchUsed = true;
             webSearchResults = searchResult.results;
 
-            // Store web search results in vector database
-            const documents: MDocument[] = searchResult.results.map((result: any) => ({
-              id: `web_${Date.now()}_${Math.random()}`,
-              content: result.content || result.snippet || result.description || '',
+            // Nobody asked for these results: they wait in quarantine until the user approves them
+            const [targetCollection] = collections;
+            const quarantinedIds = await quarantineWebResults(vectorStore, searchResult.results.map(result => ({
+              title: result.title,
+              url: result.url,
+              content: result.content || result.snippet,
               metadata: {
-                title: result.title || result.name || 'Web Search Result',
-                url: result.url || result.link || '#',
-                source: 'web_search',
-                originalQuery: query,
-                timestamp: new Date().toISOString(),
+                domain: result.domain,
+                searchProvider: result.provider,
+                searchRank: result.rank,
+                ...(result.publishedDate ? { publishedDate: result.publishedDate } : {}),
               },
-            }));
-
-            // Generate embeddings for web search results
-            const { embeddings } = await embedMany({
-              model: openai.embedding("text-embedding-3-small"),
-              values: documents.map(doc => (doc as any).content || ''),
-            });
-
-            // Store in vector database
-            await vectorStore.upsert({
-              indexName: "embeddings",
-              documents: documents.map((doc, i) => ({
-                ...doc,
-                vector: embeddings[i],
-              })),
+            })), {
+              indexName: targetCollection.indexName,
+              embeddingProvider: getCollectionEmbeddingProvider(targetCollection),
+              originalQuery: condensedQuery,
             });
+            quarantinedSources = searchResult.results.map(result => result.url);
 
-            console.log(`💾 Stored ${documents.length} web search results in vector database`);
+            console.log(`🧪 Quarantined ${quarantinedIds.length} web search results in collection "${targetCollection.name}"`);
 
-            // Re-query the vector store to include newly stored content
-            const updatedResults = await vectorStore.query({
-              indexName: "embeddings",
-              queryVector: queryEmbedding,
-              topK: topK + 5, // Get more results to include new content
-              includeVector: false,
-            });
+            // Re-query to include the new content, when quarantined content may be used
+            if (includeQuarantined) {
+              const { results: updatedResults } = await searchCollections(topK + 5); // Get more results to include new content
 
-            if (updatedResults && updatedResults.length > 0) {
-              initialResults = updatedResults;
-              console.log(`✅ Found ${updatedResults.length} results after web search enhancement`);
+              if (updatedResults && updatedResults.length > 0) {
+                initialResults = updatedResults;
+                console.log(`✅ Found ${updatedResults.length} results after web search enhancement`);
+              }
             }
           }
         } catch (webSearchError) {
@@ -145,103 +252,102 @@ export const enhancedVectorRagTool = createTool({
           entityPath: [],
           entities: [],
           webSearchUsed,
-          webSearchResults: webSearchUsed ? webSearchResults : undefined
+          webSearchResults: webSearchUsed ? webSearchResults : undefined,
+          quarantinedSources: webSearchUsed ? quarantinedSources : undefined,
+          condensedQuery: condensedQuery !== query ? condensedQuery : undefined,
+          queryVariants: variants.length > 1 ? variants : undefined
         };
       }
 
       // Step 2: Extract entities from query and results
-      const entities = await extractEntities(query, initialResults);
+      const queryEntities = await getEntityExtractor().extract(primaryQuery);
+      const entities = extractEntities(queryEntities, initialResults);
 
       // Step 3: Entity-based enhancement (if enabled and data available)
       let enhancedResults = initialResults;
       let entityPath: any[] = [];
 
       if (useEntityEnhancement && entities.length > 0) {
-        const entityResults = await performEntitySearch(
-          entities,
+        const entitySearch = await performEntitySearch(
+          queryEntities,
           initialResults,
           entityDepth,
-          vectorStore
+          vectorStore,
+          collections,
+          queryEmbeddings,
+          topK,
+          collectionFilter
         );
 
-        if (entityResults.length > 0) {
-          enhancedResults = [...initialResults, ...entityResults];
-          entityPath = entityResults.map((result: any) => ({
+        if (entitySearch.results.length > 0) {
+          enhancedResults = [...initialResults, ...entitySearch.results];
+        }
+
+        entityPath = [
+          ...entitySearch.path.map(hop => ({
+            from: hop.from,
+            to: hop.to,
+            relationship: "co_occurrence",
+            hop: hop.hop,
+            weight: hop.weight
+          })),
+          ...entitySearch.results.map((result: any) => ({
             nodeId: result.id,
-            relationship: "entity_search",
+            relationship: "mentions",
+            entity: result.metadata?.entity,
+            hop: result.metadata?.hop,
             score: result.score,
             text: result.metadata?.text?.substring(0, 100) + "..."
-          }));
-        }
+          }))
+        ];
       }
 
-            // Step 4: Rerank results based on entity overlap
-      const rerankedResults = await rerankByEntityOverlap(enhancedResults, entities);
+      // Step 4: Rerank results with the configured reranker
+      const rerankInput = { query: primaryQuery, entities, results: enhancedResults };
+      let rerankedResults: any[];
+      try {
+        rerankedResults = await rerankResults(getReranker(reranker), rerankInput);
+      } catch (rerankError) {
+        console.warn("Reranker failed, falling back to entity overlap:", rerankError);
+        rerankedResults = await rerankResults(entityOverlapReranker, rerankInput);
+      }
 
-      // Step 5: Deduplicate and filter results
-      const seenIds = new Set<string>();
-      const uniqueResults = rerankedResults.filter((result: any) => {
-        if (seenIds.has(result.id)) return false;
-        seenIds.add(result.id);
-        return true;
-      });
+      // Less trusted results rank below trusted ones about as relevant
+      rerankedResults = weightByTrust(rerankedResults);
 
-      // Step 6: Extract and combine relevant text (with better filtering)
-      const maxContextLength = 6000; // Reduced for more focused responses
-      let relevantTexts = "";
-      let currentLength = 0;
-      let addedCount = 0;
-      const maxResults = 15; // Limit number of results
-
-      for (const result of uniqueResults) {
-        if (addedCount >= maxResults) break;
-
-        if (result.metadata && result.metadata.text) {
-          const text = result.metadata.text;
-
-          // Skip very short or irrelevant content
-          if (text.length < 50) continue;
-
-          // Skip content that doesn't contain query-related entities
-          const textLower = text.toLowerCase();
-          const hasRelevantContent = entities.some(entity =>
-            textLower.includes(entity.toLowerCase())
-          );
-          if (!hasRelevantContent) continue;
-
-          if (currentLength + text.length > maxContextLength) {
-            const remainingSpace = maxContextLength - currentLength;
-            if (remainingSpace > 200) { // Only add if we have meaningful space
-              relevantTexts += "\n\n" + text.substring(0, remainingSpace - 200) + "...";
-            }
-            break;
-          }
-          relevantTexts += (relevantTexts ? "\n\n" : "") + text;
-          currentLength += text.length;
-          addedCount++;
-        }
+      // Sources the assistant already cited in this thread are boosted
+      if (conversation) {
+        rerankedResults = boostCitedSources(rerankedResults, conversation.citedSources);
       }
 
-      // Step 6: Format sources for response
-      const sources = rerankedResults.map((result: any, index: number) => ({
-        id: `result-${index}`,
-        score: result.score || 0,
-        document: result.metadata?.text || "No text available",
-        metadata: {
-          ...result.metadata,
-          score: result.score,
-          id: result.id,
-          retrievalMethod: index < initialResults.length ? "vector_similarity" : "entity_search"
-        }
-      }));
+      // Step 5: Widen the matched chunks to their neighbours or parent section
+      const expandedResults = await expandResults(vectorStore, rerankedResults, (result: any) => {
+        const name = result.collection ?? result.metadata?.collection;
+        const collection = collections.find(candidate => candidate.name === name) ?? collections[0];
+        return result.metadata?.quarantined ? getQuarantineIndexName(collection.indexName) : collection.indexName;
+      }, { mode: contextExpansion, neighbors: neighborChunks });
+
+      // Step 6: Deduplicate into numbered source records
+      const sources = toSourceRecords(expandedResults);
+
+      // Step 7: Pack the most relevant, non-redundant passages into the token budget
+      const assembled = await assembleContext(sources, { tokenBudget });
+      if (assembled.excluded.length > 0) {
+        console.log(`📦 Context: ${assembled.included.length} passages, ${assembled.tokensUsed}/${assembled.tokenBudget} tokens; left out ${assembled.excluded.map(exclusion => `[${exclusion.citation}] (${exclusion.reason})`).join(", ")}`);
+      }
 
       return {
-        relevantContext: relevantTexts || `No text content found for query: "${query}"`,
+        relevantContext: assembled.context || `No text content found for query: "${query}"`,
         sources: sources,
+        contextTokens: assembled.tokensUsed,
+        excludedSources: assembled.excluded,
         entityPath: entityPath,
         entities: entities,
         webSearchUsed,
-        webSearchResults: webSearchUsed ? webSearchResults : undefined
+        webSearchResults: webSearchUsed ? webSearchResults : undefined,
+        quarantinedSources: webSearchUsed ? quarantinedSources : undefined,
+        condensedQuery: condensedQuery !== query ? condensedQuery : undefined,
+        queryVariants: variants.length > 1 ? variants : undefined
       };
 
     } catch (error) {
@@ -249,32 +355,30 @@ export const enhancedVectorRagTool = createTool({
       const errorMessage = error instanceof Error ? error.message : String(error);
       return {
         relevantContext: `Error retrieving information for query: "${query}". Please check if the vector store is properly configured and contains data.`,
-        sources: [{
-          id: "error",
-          score: 0,
-          document: "Error occurred during retrieval",
-          metadata: { error: errorMessage }
-        }],
+        sources: [],
         entityPath: [],
         entities: [],
         webSearchUsed: false,
-        webSearchResults: undefined
+        webSearchResults: undefined,
+        error: errorMessage
       };
     }
   },
 });
 
-// Extract entities from text using simple NLP techniques
-async function extractEntities(query: string, results: any[]): Promise<string[]> {
-  const entities = new Set<string>();
-
-  // Extract potential entities from query (simple approach)
-  const queryWords = query.toLowerCase().split(/\s+/);
-  const potentialEntities = queryWords.filter(word =>
-    word.length > 3 && /^[a-zA-Z]+$/.test(word)
-  );
+// The thread a call belongs to; searching goes on without it when memory cannot be read
+async function loadThreadConversation(memory: any, threadId: string, resourceId?: string): Promise<Conversation | undefined> {
+  try {
+    return await loadConversation(memory, { threadId, resourceId });
+  } catch (error) {
+    console.warn("Could not read the conversation thread, searching the query as given:", error instanceof Error ? error.message : error);
+    return undefined;
+  }
+}
 
-  potentialEntities.forEach(entity => entities.add(entity));
+// Combine query entities with the entities stored on the results
+function extractEntities(queryEntities: string[], results: any[]): string[] {
+  const entities = new Set<string>(queryEntities);
 
   // Extract entities from results (if metadata contains entity information)
   results.forEach((result: any) => {
@@ -286,87 +390,74 @@ async function extractEntities(query: string, results: any[]): Promise<string[]>
   return Array.from(entities);
 }
 
-// Perform entity-based search to find related nodes
-async function performEntitySearch(
-  entities: string[],
-  initialResults: any[],
-  depth: number,
-  vectorStore: any
-): Promise<any[]> {
-  const relatedResults: any[] = [];
-
-  try {
-    // Focus on the most relevant entities (limit to top 3)
-    const topEntities = entities.slice(0, 3);
-
-    for (const entity of topEntities) {
-      // Skip very common words that don't add value
-      const commonWords = ['the', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by'];
-      if (commonWords.includes(entity.toLowerCase())) continue;
-
-      const entityEmbedding = await embedMany({
-        model: openai.embedding("text-embedding-3-small"),
-        values: [entity],
-      });
-
-      const entityResults = await vectorStore.query({
-        indexName: "embeddings",
-        queryVector: entityEmbedding.embeddings[0],
-        topK: Math.min(5, depth * 2), // Limit results per entity
-        includeVector: false,
-      });
+// Embed the query texts once per embedding model, after checking each index was built by it
+async function embedQuery(vectorStore: any, collections: Collection[], texts: string[]): Promise<Map<string, number[][]>> {
+  const embeddings = new Map<string, number[][]>();
+  const byModel = new Map<string, Promise<number[][]>>();
 
-      // Add results that aren't already in initial results and have good scores
-      entityResults.forEach((result: any) => {
-        if (!initialResults.find((initial: any) => initial.id === result.id) &&
-            result.score > 0.7) { // Only add high-quality matches
-          relatedResults.push({
-            ...result,
-            score: result.score * 0.7, // Lower score for entity search results
-            metadata: {
-              ...result.metadata,
-              entitySearch: true,
-              entity: entity
-            }
-          });
-        }
-      });
+  for (const collection of collections) {
+    const provider: EmbeddingProvider = getCollectionEmbeddingProvider(collection);
+    await assertIndexEmbeddingModel(vectorStore, collection.indexName, provider);
+    if (!byModel.has(provider.id)) {
+      byModel.set(provider.id, provider.embed(texts));
     }
-  } catch (error) {
-    console.warn("Entity search failed, falling back to vector search:", error);
+    embeddings.set(collection.name, await byModel.get(provider.id)!);
   }
 
-  return relatedResults;
+  return embeddings;
 }
 
-// Rerank results based on entity overlap
-async function rerankByEntityOverlap(results: any[], entities: string[]): Promise<any[]> {
-  if (entities.length === 0) return results;
+// Walk each collection's persisted entity graph from the query entities and pull in linked chunks
+async function performEntitySearch(
+  queryEntities: string[],
+  initialResults: any[],
+  depth: number,
+  vectorStore: any,
+  collections: Collection[],
+  queryEmbeddings: Map<string, number[]>,
+  limit: number,
+  filter: VectorFilter
+): Promise<{ results: any[]; path: EntityGraphHop[] }> {
+  try {
+    const searches = await Promise.all(collections.map(async collection => {
+      const traversal = await traverseEntityGraph(vectorStore, {
+        indexName: collection.indexName,
+        seeds: queryEntities,
+        depth,
+      });
 
-  return results.map((result: any) => {
-    let entityScore = 0;
-    const text = result.metadata?.text?.toLowerCase() || "";
+      const initialIds = new Set(initialResults
+        .filter((result: any) => result.collection === collection.name)
+        .map((result: any) => result.id));
+      const linkedIds = Array.from(traversal.chunks.keys()).filter(id => !initialIds.has(id));
+      const linkedChunks = (await fetchChunks(vectorStore, collection.indexName, linkedIds, queryEmbeddings.get(collection.name)!))
+        .filter((chunk: any) => matchesFilter(chunk.metadata || {}, filter.exact));
 
-    // Count entity occurrences
-    entities.forEach(entity => {
-      const regex = new RegExp(`\\b${entity}\\b`, 'gi');
-      const matches = text.match(regex);
-      if (matches) {
-        entityScore += matches.length;
-      }
-    });
+      const results = linkedChunks.map((chunk: any) => {
+        const link = traversal.chunks.get(chunk.id)!;
+        return {
+          ...chunk,
+          collection: collection.name,
+          score: chunk.score * Math.pow(0.7, link.hop + 1), // Decay with every hop away from the query
+          metadata: {
+            ...chunk.metadata,
+            collection: collection.name,
+            entitySearch: true,
+            entity: link.entity,
+            hop: link.hop
+          }
+        };
+      });
 
-    // Boost score based on entity overlap
-    const boostedScore = result.score + (entityScore * 0.1);
+      return { results, path: traversal.path };
+    }));
 
     return {
-      ...result,
-      score: boostedScore,
-      metadata: {
-        ...result.metadata,
-        entityScore,
-        boostedScore
-      }
+      results: searches.flatMap(search => search.results).sort((a: any, b: any) => b.score - a.score).slice(0, limit),
+      path: searches.flatMap(search => search.path),
     };
-  }).sort((a: any, b: any) => (b.score || 0) - (a.score || 0));
+  } catch (error) {
+    console.warn("Entity graph search failed, falling back to vector search:", error);
+    return { results: [], path: [] };
+  }
 }
@@ -0,0 +1,81 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import { ensureCollection, getCollectionEmbeddingProvider, resolveCollectionName } from "../lib/collections.js";
+import { syncDirectories } from "../lib/directory-sync.js";
+import { getVectorStore } from "../lib/vector-store.js";
+
+const chunkCountsSchema = z.object({
+  added: z.number(),
+  updated: z.number(),
+  unchanged: z.number(),
+  removed: z.number(),
+});
+
+const fileSyncReportSchema = z.object({
+  path: z.string(),
+  status: z.enum(["added", "updated", "unchanged", "removed", "failed"]),
+  chunks: chunkCountsSchema,
+  error: z.string().optional(),
+});
+
+export const ingestDirectoryTool = createTool({
+  id: "ingestDirectory",
+  description: "Ingest or re-sync whole directories into the knowledge base. Only new or changed files are processed and files deleted from disk are removed.",
+  inputSchema: z.object({
+    roots: z.array(z.string()).min(1).describe("Directories (or single files) to ingest"),
+    include: z.array(z.string()).optional().describe("Glob patterns relative to each root, e.g. [\"docs/**/*.md\"] (defaults to all supported file types)"),
+    exclude: z.array(z.string()).default([]).describe("Glob patterns to skip"),
+    respectGitignore: z.boolean().default(true).describe("Skip files ignored by .gitignore files under the roots"),
+    chunkSize: z.number().optional().describe("Size of each chunk in characters (defaults to the collection's setting)"),
+    overlap: z.number().optional().describe("Overlap between chunks in characters (defaults to the collection's setting)"),
+    collection: z.string().optional().describe("Collection to sync into (defaults to the conversation's collection); created if it does not exist"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean().describe("False only if the batch could not run at all"),
+    summary: z.object({
+      added: z.number(),
+      updated: z.number(),
+      unchanged: z.number(),
+      removed: z.number(),
+      failed: z.number(),
+    }),
+    files: z.array(fileSyncReportSchema),
+    message: z.string(),
+  }),
+  execute: async ({ context, mastra, runtimeContext }: any) => {
+    const { roots, include, exclude = [], respectGitignore = true } = context;
+
+    try {
+      const vectorStore = getVectorStore(mastra);
+      const collection = await ensureCollection(vectorStore, resolveCollectionName(context.collection, runtimeContext));
+      const { chunkSize = collection.chunkSize, overlap = collection.overlap } = context;
+      console.log(`📂 Syncing ${roots.join(", ")} into collection "${collection.name}"`);
+
+      const { files, summary } = await syncDirectories(vectorStore, {
+        roots,
+        include,
+        exclude,
+        respectGitignore,
+        chunkSize,
+        overlap,
+        indexName: collection.indexName,
+        embeddingProvider: getCollectionEmbeddingProvider(collection),
+      });
+
+      return {
+        success: true,
+        summary,
+        files,
+        message: `Synced ${files.length} files: ${summary.added} added, ${summary.updated} updated, ${summary.unchanged} unchanged, ${summary.removed} removed, ${summary.failed} failed`,
+      };
+    } catch (error) {
+      console.error("Error ingesting directory:", error);
+      return {
+        success: false,
+        summary: { added: 0, updated: 0, unchanged: 0, removed: 0, failed: 0 },
+        files: [],
+        message: `Directory ingestion failed: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  },
+});
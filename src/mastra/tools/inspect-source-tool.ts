@@ -0,0 +1,59 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import { getCollection, resolveCollectionName } from "../lib/collections.js";
+import { findChunks } from "../lib/knowledge-base.js";
+import { getVectorStore } from "../lib/vector-store.js";
+
+export const inspectSourceTool = createTool({
+  id: "inspectSource",
+  description: "Show the stored chunks of one knowledge base source, with their entities and metadata",
+  inputSchema: z.object({
+    source: z.string().describe("Source key as returned by listSources (file path, file name or URL)"),
+    limit: z.number().default(20).describe("Maximum number of chunks to return"),
+    offset: z.number().default(0).describe("Number of chunks to skip"),
+    collection: z.string().optional().describe("Collection the source is stored in (defaults to the conversation's collection)"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    source: z.string(),
+    totalChunks: z.number(),
+    chunks: z.array(z.object({
+      id: z.string(),
+      text: z.string(),
+      entities: z.array(z.string()),
+      metadata: z.record(z.any()),
+    })),
+    message: z.string(),
+  }),
+  execute: async ({ context, mastra, runtimeContext }: any) => {
+    const { source, limit = 20, offset = 0 } = context;
+
+    try {
+      const vectorStore = getVectorStore(mastra);
+      const { indexName } = await getCollection(vectorStore, resolveCollectionName(context.collection, runtimeContext));
+      const chunks = await findChunks(vectorStore, indexName, { source });
+
+      return {
+        success: true,
+        source,
+        totalChunks: chunks.length,
+        chunks: chunks.slice(offset, offset + limit).map(({ id, metadata }) => {
+          const { text, entities, ...rest } = metadata;
+          return { id, text: text || "", entities: entities || [], metadata: rest };
+        }),
+        message: chunks.length > 0
+          ? `Source ${source} has ${chunks.length} chunks`
+          : `No chunks found for source ${source}`,
+      };
+    } catch (error) {
+      console.error("Error inspecting source:", error);
+      return {
+        success: false,
+        source,
+        totalChunks: 0,
+        chunks: [],
+        message: `Inspecting source failed: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  },
+});
@@ -0,0 +1,64 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import { listCollections, resolveCollectionName } from "../lib/collections.js";
+import { getVectorStore } from "../lib/vector-store.js";
+
+export const listCollectionsTool = createTool({
+  id: "listCollections",
+  description: "List the knowledge base collections with their embedding models, chunking defaults and chunk counts",
+  inputSchema: z.object({}),
+  outputSchema: z.object({
+    success: z.boolean(),
+    currentCollection: z.string().describe("Collection this conversation uses by default"),
+    collections: z.array(z.object({
+      name: z.string(),
+      description: z.string().optional(),
+      embeddingProvider: z.string(),
+      embeddingModel: z.string(),
+      chunkSize: z.number(),
+      overlap: z.number(),
+      chunkCount: z.number(),
+      createdAt: z.string().optional(),
+    })),
+    message: z.string(),
+  }),
+  execute: async ({ mastra, runtimeContext }: any) => {
+    const currentCollection = resolveCollectionName(undefined, runtimeContext);
+
+    try {
+      const vectorStore = getVectorStore(mastra);
+      const indexes: string[] = await vectorStore.listIndexes();
+
+      const collections = await Promise.all((await listCollections(vectorStore)).map(async collection => ({
+        name: collection.name,
+        description: collection.description,
+        embeddingProvider: collection.embedding.provider,
+        embeddingModel: collection.embedding.model,
+        chunkSize: collection.chunkSize,
+        overlap: collection.overlap,
+        // The default collection has no index until something is stored in it
+        chunkCount: indexes.includes(collection.indexName)
+          ? (await vectorStore.describeIndex({ indexName: collection.indexName })).count
+          : 0,
+        createdAt: collection.createdAt,
+      })));
+
+      console.log(`🗂️ Listed ${collections.length} collections`);
+
+      return {
+        success: true,
+        currentCollection,
+        collections,
+        message: `Found ${collections.length} collections; this conversation uses "${currentCollection}"`,
+      };
+    } catch (error) {
+      console.error("Error listing collections:", error);
+      return {
+        success: false,
+        currentCollection,
+        collections: [],
+        message: `Listing collections failed: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  },
+});
@@ -0,0 +1,57 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import { getCollection, resolveCollectionName } from "../lib/collections.js";
+import { getVectorStore } from "../lib/vector-store.js";
+import { listQuarantinedSources } from "../lib/web-quarantine.js";
+
+export const listQuarantineTool = createTool({
+  id: "listQuarantine",
+  description: "List web results that were fetched automatically and wait in quarantine for the user to approve or reject them",
+  inputSchema: z.object({
+    collection: z.string().optional().describe("Collection whose quarantine to list (defaults to the conversation's collection)"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    totalSources: z.number(),
+    sources: z.array(z.object({
+      source: z.string().describe("URL of the web result; pass it to reviewQuarantine"),
+      chunkCount: z.number(),
+      title: z.string().optional(),
+      originalQuery: z.string().optional().describe("Query that fetched the result"),
+      lastIngestedAt: z.string().optional(),
+    })),
+    message: z.string(),
+  }),
+  execute: async ({ context, mastra, runtimeContext }: any) => {
+    try {
+      const vectorStore = getVectorStore(mastra);
+      const { indexName } = await getCollection(vectorStore, resolveCollectionName(context.collection, runtimeContext));
+      const sources = (await listQuarantinedSources(vectorStore, indexName)).map(source => ({
+        source: source.source,
+        chunkCount: source.chunkCount,
+        title: source.title,
+        originalQuery: source.originalQuery,
+        lastIngestedAt: source.lastIngestedAt,
+      }));
+
+      console.log(`🧪 Listed ${sources.length} quarantined web results`);
+
+      return {
+        success: true,
+        totalSources: sources.length,
+        sources,
+        message: sources.length > 0
+          ? `${sources.length} web results wait for review`
+          : "No web results in quarantine",
+      };
+    } catch (error) {
+      console.error("Error listing quarantine:", error);
+      return {
+        success: false,
+        totalSources: 0,
+        sources: [],
+        message: `Listing quarantine failed: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  },
+});
@@ -0,0 +1,63 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import { getCollection, resolveCollectionName } from "../lib/collections.js";
+import { listSources } from "../lib/knowledge-base.js";
+import { provenanceLevels } from "../lib/provenance.js";
+import { getVectorStore } from "../lib/vector-store.js";
+
+export const listSourcesTool = createTool({
+  id: "listSources",
+  description: "List the documents in the knowledge base with their chunk counts and upload metadata",
+  inputSchema: z.object({
+    kind: z.enum(["all", "file", "chat", "web"]).default("all").describe("Only list sources added this way"),
+    collection: z.string().optional().describe("Collection to list (defaults to the conversation's collection)"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    totalSources: z.number(),
+    totalChunks: z.number(),
+    sources: z.array(z.object({
+      source: z.string().describe("Source key: file path, uploaded file name or web result URL"),
+      kind: z.enum(["file", "chat", "web"]),
+      chunkCount: z.number(),
+      contentType: z.string().optional(),
+      title: z.string().optional(),
+      url: z.string().optional(),
+      originalQuery: z.string().optional(),
+      entityExtractor: z.string().optional(),
+      provenance: z.enum(provenanceLevels).describe("How the source entered the knowledge base"),
+      lastIngestedAt: z.string().optional(),
+    })),
+    message: z.string(),
+  }),
+  execute: async ({ context, mastra, runtimeContext }: any) => {
+    const { kind = "all" } = context;
+
+    try {
+      const vectorStore = getVectorStore(mastra);
+      const { indexName } = await getCollection(vectorStore, resolveCollectionName(context.collection, runtimeContext));
+      const sources = (await listSources(vectorStore, indexName))
+        .filter(source => kind === "all" || source.kind === kind);
+      const totalChunks = sources.reduce((sum, source) => sum + source.chunkCount, 0);
+
+      console.log(`📚 Listed ${sources.length} sources (${totalChunks} chunks)`);
+
+      return {
+        success: true,
+        totalSources: sources.length,
+        totalChunks,
+        sources,
+        message: `Found ${sources.length} sources with ${totalChunks} chunks`,
+      };
+    } catch (error) {
+      console.error("Error listing sources:", error);
+      return {
+        success: false,
+        totalSources: 0,
+        totalChunks: 0,
+        sources: [],
+        message: `Listing sources failed: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  },
+});
@@ -0,0 +1,48 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import { getCollection, resolveCollectionName } from "../lib/collections.js";
+import { findChunks, retagDocuments } from "../lib/knowledge-base.js";
+import { getVectorStore } from "../lib/vector-store.js";
+
+export const retagDocumentsTool = createTool({
+  id: "retagDocuments",
+  description: "Add, change or remove metadata tags on knowledge base documents selected by source, URL or the query that stored them",
+  inputSchema: z.object({
+    source: z.string().optional().describe("Source key as returned by listSources"),
+    url: z.string().optional().describe("URL of a stored web result"),
+    originalQuery: z.string().optional().describe("Query whose stored web results should be re-tagged"),
+    set: z.record(z.any()).default({}).describe("Metadata fields to add or overwrite, e.g. { \"topic\": \"billing\" }"),
+    unset: z.array(z.string()).default([]).describe("Metadata fields to remove"),
+    collection: z.string().optional().describe("Collection the documents are stored in (defaults to the conversation's collection)"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    updatedChunks: z.number(),
+    message: z.string(),
+  }),
+  execute: async ({ context, mastra, runtimeContext }: any) => {
+    const { source, url, originalQuery, set = {}, unset = [] } = context;
+
+    try {
+      const vectorStore = getVectorStore(mastra);
+      const { indexName } = await getCollection(vectorStore, resolveCollectionName(context.collection, runtimeContext));
+      const chunks = await findChunks(vectorStore, indexName, { source, url, originalQuery });
+      const updatedChunks = await retagDocuments(vectorStore, indexName, chunks, { set, unset });
+
+      console.log(`🏷️ Re-tagged ${updatedChunks} chunks`);
+
+      return {
+        success: true,
+        updatedChunks,
+        message: updatedChunks > 0 ? `Updated metadata on ${updatedChunks} chunks` : "No matching documents found",
+      };
+    } catch (error) {
+      console.error("Error re-tagging documents:", error);
+      return {
+        success: false,
+        updatedChunks: 0,
+        message: `Re-tagging failed: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  },
+});
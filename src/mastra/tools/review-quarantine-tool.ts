@@ -0,0 +1,64 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import { getCollection, getCollectionEmbeddingProvider, resolveCollectionName } from "../lib/collections.js";
+import { getVectorStore } from "../lib/vector-store.js";
+import { approveQuarantinedSources, rejectQuarantinedSources } from "../lib/web-quarantine.js";
+
+export const reviewQuarantineTool = createTool({
+  id: "reviewQuarantine",
+  description: "Approve quarantined web results, which moves them into the knowledge base as user-approved web content, or reject them, which deletes them",
+  inputSchema: z.object({
+    decision: z.enum(["approve", "reject"]),
+    sources: z.array(z.string()).optional().describe("URLs as returned by listQuarantine or enhancedVectorRag's quarantinedSources"),
+    all: z.boolean().default(false).describe("Review every quarantined web result instead of the listed sources"),
+    collection: z.string().optional().describe("Collection whose quarantine to review (defaults to the conversation's collection)"),
+    fetchFullPage: z.boolean().default(true).describe("When approving, fetch each page and store its readable content instead of the snippet"),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    reviewedChunks: z.number(),
+    message: z.string(),
+  }),
+  execute: async ({ context, mastra, runtimeContext }: any) => {
+    const { decision, sources, all = false, fetchFullPage = true } = context;
+
+    try {
+      if (!all && !sources?.length) {
+        throw new Error("Specify the sources to review, or all: true");
+      }
+
+      const vectorStore = getVectorStore(mastra);
+      const collection = await getCollection(vectorStore, resolveCollectionName(context.collection, runtimeContext));
+      const selected = all ? undefined : sources;
+
+      const reviewedChunks = decision === "approve"
+        ? await approveQuarantinedSources(vectorStore, {
+            indexName: collection.indexName,
+            embeddingProvider: getCollectionEmbeddingProvider(collection),
+            sources: selected,
+            fetchPages: fetchFullPage,
+            fetchOptions: { chunkSize: collection.chunkSize, overlap: collection.overlap },
+          })
+        : await rejectQuarantinedSources(vectorStore, collection.indexName, selected);
+
+      console.log(`🧪 ${decision === "approve" ? "Approved" : "Rejected"} ${reviewedChunks} quarantined chunks`);
+
+      return {
+        success: true,
+        reviewedChunks,
+        message: reviewedChunks === 0
+          ? "No matching web results in quarantine"
+          : decision === "approve"
+            ? `Added ${reviewedChunks} web results to collection "${collection.name}"`
+            : `Deleted ${reviewedChunks} quarantined web results`,
+      };
+    } catch (error) {
+      console.error("Error reviewing quarantine:", error);
+      return {
+        success: false,
+        reviewedChunks: 0,
+        message: `Review failed: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  },
+});
@@ -1,8 +1,9 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
-import { embedMany } from 'ai';
-import { openai } from '@ai-sdk/openai';
-import { MDocument } from '@mastra/rag';
+import { ensureCollection, getCollectionEmbeddingProvider, resolveCollectionName } from '../lib/collections.js';
+import { getVectorStore } from '../lib/vector-store.js';
+import { fetchWebResults, rejectQuarantinedSources, storeWebResults } from '../lib/web-quarantine.js';
+import { getDomain } from '../lib/web-search.js';
 
 export const storeWebResultsTool = createTool({
   id: 'store-web-results',
@@ -13,17 +14,26 @@ export const storeWebResultsTool = createTool({
       url: z.string(),
       snippet: z.string(),
       content: z.string().optional(),
+      publishedDate: z.string().optional(),
     })).describe('Web search results to store'),
     originalQuery: z.string().describe('The original query that led to these results'),
     userRequested: z.boolean().default(true).describe('Whether the user explicitly requested to store these results'),
+    collection: z.string().optional().describe("Collection to store the results in (defaults to the conversation's collection)"),
+    fetchFullPage: z.boolean().default(true).describe('Fetch each page and store its readable content instead of the snippet'),
   }),
   outputSchema: z.object({
     message: z.string().describe('Confirmation message about stored results'),
-    storedCount: z.number().describe('Number of results stored'),
+    storedCount: z.number().describe('Number of chunks stored'),
     documentIds: z.array(z.string()).describe('IDs of stored documents'),
+    pages: z.array(z.object({
+      url: z.string(),
+      status: z.enum(['fetched', 'snippet']),
+      chunks: z.number(),
+      error: z.string().optional(),
+    })).describe('Whether each page was fetched in full or stored as its snippet, and why'),
   }),
-  execute: async ({ context, mastra }) => {
-    const { searchResults, originalQuery, userRequested } = context;
+  execute: async ({ context, mastra, runtimeContext }) => {
+    const { searchResults, originalQuery, userRequested, fetchFullPage = true } = context;
 
     try {
       if (!userRequested) {
@@ -31,48 +41,47 @@ export const storeWebResultsTool = createTool({
           message: 'Web search results not stored - user did not request storage',
           storedCount: 0,
           documentIds: [],
+          pages: [],
         };
       }
 
-      const vectorStore = mastra?.getVector("pgVector");
+      const vectorStore = getVectorStore(mastra);
       if (!vectorStore) {
         throw new Error('Vector store not available');
       }
+      const collection = await ensureCollection(vectorStore, resolveCollectionName(context.collection, runtimeContext));
 
-      // Convert web search results to documents
-      const documents = searchResults.map((result, index) => ({
-        id: `web_${Date.now()}_${index}`,
-        text: result.content || result.snippet || '',
+      const snippets = searchResults.map(result => ({
+        title: result.title,
+        url: result.url,
+        content: result.content || result.snippet || '',
         metadata: {
-          title: result.title || 'Web Search Result',
-          url: result.url || '#',
-          source: 'web_search',
-          originalQuery: originalQuery,
-          timestamp: new Date().toISOString(),
-          userRequested: true,
+          ...(getDomain(result.url) ? { domain: getDomain(result.url) } : {}),
+          ...(result.publishedDate ? { publishedDate: result.publishedDate } : {}),
         },
       }));
+      const { results, fetches } = fetchFullPage
+        ? await fetchWebResults(snippets, { chunkSize: collection.chunkSize, overlap: collection.overlap })
+        : { results: snippets, fetches: [] };
 
-      // Generate embeddings
-      const { embeddings } = await embedMany({
-        model: openai.embedding("text-embedding-3-small"),
-        values: documents.map(doc => doc.text),
+      // Stored as user-approved web content: the user asked for these results
+      const documentIds = await storeWebResults(vectorStore, results, {
+        indexName: collection.indexName,
+        embeddingProvider: getCollectionEmbeddingProvider(collection),
+        provenance: 'user-approved-web',
+        originalQuery,
       });
 
-      // Store in vector database
-      await vectorStore.upsert({
-        indexName: "embeddings",
-        vectors: embeddings,
-        metadata: documents.map((doc, i) => ({
-          text: doc.text,
-          ...doc.metadata,
-        })),
-      });
+      // Quarantined copies of the same pages are superseded by the stored ones
+      await rejectQuarantinedSources(vectorStore, collection.indexName, searchResults.map(result => result.url));
 
+      const fetched = fetches.filter(page => page.status === 'fetched').length;
       return {
-        message: `✅ Successfully stored ${documents.length} web search results in knowledge base`,
-        storedCount: documents.length,
-        documentIds: documents.map(doc => doc.id),
+        message: `✅ Successfully stored ${searchResults.length} web search results (${documentIds.length} chunks) in collection "${collection.name}"` +
+          (fetchFullPage ? `; ${fetched} of ${searchResults.length} pages fetched in full` : ''),
+        storedCount: documentIds.length,
+        documentIds,
+        pages: fetches,
       };
 
     } catch (error) {
@@ -81,6 +90,7 @@ export const storeWebResultsTool = createTool({
         message: `❌ Failed to store web search results: ${error instanceof Error ? error.message : String(error)}`,
         storedCount: 0,
         documentIds: [],
+        pages: [],
       };
     }
   },
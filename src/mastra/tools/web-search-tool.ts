@@ -1,5 +1,6 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
+import { searchWeb, webSearchResultSchema } from '../lib/web-search.js';
 
 export const webSearchTool = createTool({
   id: 'web-search',
@@ -7,59 +8,28 @@ export const webSearchTool = createTool({
   inputSchema: z.object({
     query: z.string().describe('The search query to find information on the web'),
     maxResults: z.number().default(5).describe('Maximum number of search results to return'),
-    mcp: z.any().optional().describe('MCP client for web search'),
+    provider: z.enum(['exa-mcp', 'searxng', 'brave', 'bing', 'fixture']).optional().describe('Web search provider (defaults to the WEB_SEARCH_PROVIDER setting)'),
+    allowDomains: z.array(z.string()).optional().describe('Only return results from these domains, e.g. ["python.org"]; subdomains included'),
+    denyDomains: z.array(z.string()).optional().describe('Never return results from these domains'),
   }),
   outputSchema: z.object({
-    results: z.array(z.object({
-      title: z.string(),
-      url: z.string(),
-      snippet: z.string(),
-      content: z.string().optional(),
-    })),
+    results: z.array(webSearchResultSchema),
     searchQuery: z.string(),
     totalResults: z.number(),
+    provider: z.string().optional(),
+    error: z.string().optional().describe('Why the search failed'),
   }),
   execute: async ({ context }) => {
-    const { query, maxResults = 5, mcp } = context;
+    const { query, maxResults = 5, provider, allowDomains, denyDomains } = context;
 
     try {
-      if (!mcp) {
-        throw new Error('MCP client not available');
-      }
-
-      // Get web search tools from MCP server
-      const tools = await mcp.getTools();
-      const webSearchTools = Object.values(tools).filter((tool: any) =>
-        tool.id?.includes('search') || tool.id?.includes('web')
-      );
-
-      if (webSearchTools.length === 0) {
-        throw new Error('No web search tools available in MCP servers');
-      }
-
-      // Use the first available web search tool
-      const searchTool = webSearchTools[0] as any;
-
-      // Execute web search
-      const searchResult = await searchTool.execute({
-        query,
-        maxResults,
-      });
-
-      // Process and format results
-      const results = Array.isArray(searchResult.results)
-        ? searchResult.results.slice(0, maxResults)
-        : [];
+      const search = await searchWeb(query, { provider, maxResults, allowDomains, denyDomains });
 
       return {
-        results: results.map((result: any) => ({
-          title: result.title || result.name || 'No title',
-          url: result.url || result.link || '#',
-          snippet: result.snippet || result.description || result.content || 'No description',
-          content: result.content || result.text,
-        })),
+        results: search.results,
         searchQuery: query,
-        totalResults: results.length,
+        totalResults: search.results.length,
+        provider: search.provider,
       };
 
     } catch (error) {
@@ -68,6 +38,7 @@ export const webSearchTool = createTool({
         results: [],
         searchQuery: query,
         totalResults: 0,
+        error: error instanceof Error ? error.message : String(error),
       };
     }
   },
@@ -0,0 +1,108 @@
+import type { ToolExecutionContext } from "@mastra/core/tools";
+import { createWorkflow, createStep } from "@mastra/core/workflows";
+import { z } from "zod";
+import {
+  claimSchema,
+  collectToolSources,
+  composeCitedAnswer,
+  sourceRecordSchema,
+  type SourceRecord,
+} from "../lib/citations.js";
+import { enhancedVectorRagInputSchema, enhancedVectorRagTool } from "../tools/enhanced-vector-rag-tool.js";
+
+// Retrieve first, then let the agent answer from the retrieved passages. The agent can
+// still search again with its tools; the answer cites the chunks of both.
+
+const AGENT_NAME = "enhancedVectorRagAgent";
+
+// Define schemas for the workflow steps
+const queryInputSchema = z.object({
+  query: z.string(),
+  collections: z.array(z.string()).optional(), // Defaults to the collection in the runtime context
+  topK: z.number().default(10),
+  unsupportedClaims: z.enum(["drop", "flag"]).default("flag"), // Sentences no retrieved chunk supports
+  // Memory thread to answer in; both are needed for the agent to remember the exchange
+  threadId: z.string().optional(),
+  resourceId: z.string().optional(),
+});
+
+const retrievedContextSchema = queryInputSchema.extend({
+  relevantContext: z.string(),
+  sources: z.array(sourceRecordSchema),
+});
+
+const answerSchema = z.object({
+  response: z.string(), // With inline [n] citations
+  citations: z.array(sourceRecordSchema),
+  claims: z.array(claimSchema),
+});
+
+const retrieveContextStep = createStep({
+  id: "retrieveContext",
+  description: "Search the knowledge base for passages relevant to the query",
+  inputSchema: queryInputSchema,
+  outputSchema: retrievedContextSchema,
+  execute: async (context) => {
+    const { query, collections, topK, threadId, resourceId } = context.inputData;
+    // In a thread, follow-ups are condensed with the agent's memory of it
+    const toolContext: ToolExecutionContext<typeof enhancedVectorRagInputSchema> = {
+      context: enhancedVectorRagInputSchema.parse({ query, collections, topK }),
+      mastra: context.mastra,
+      runtimeContext: context.runtimeContext,
+      ...(threadId ? {
+        threadId,
+        resourceId,
+        memory: await context.mastra.getAgent(AGENT_NAME).getMemory({ runtimeContext: context.runtimeContext }),
+      } : {}),
+    };
+    const retrieved = await enhancedVectorRagTool.execute!(toolContext);
+
+    if (retrieved.error) {
+      throw new Error(`Retrieval failed: ${retrieved.error}`);
+    }
+
+    return { ...context.inputData, relevantContext: retrieved.relevantContext, sources: retrieved.sources };
+  },
+});
+
+const generateAnswerStep = createStep({
+  id: "generateAnswer",
+  description: "Answer the query from the retrieved passages and cite them",
+  inputSchema: retrievedContextSchema,
+  outputSchema: answerSchema,
+  execute: async (context) => {
+    const { query, relevantContext, sources, unsupportedClaims, threadId, resourceId } = context.inputData;
+    const agent = context.mastra.getAgent(AGENT_NAME);
+
+    const prompt = sources.length > 0
+      ? `${query}\n\nPassages retrieved from the knowledge base, cite them with their [n]:\n\n${relevantContext}`
+      : query;
+    const response: any = await agent.generate(prompt, {
+      runtimeContext: context.runtimeContext,
+      ...(threadId && resourceId ? { memory: { thread: threadId, resource: resourceId } } : {}),
+    });
+
+    // Passages the agent found with its own searches are numbered after the retrieved ones
+    const allSources = new Map<string, SourceRecord>();
+    for (const source of [...sources, ...collectToolSources(response)]) {
+      if (!allSources.has(source.citationId)) allSources.set(source.citationId, source);
+    }
+
+    const { answer, citations, claims } = composeCitedAnswer(
+      response.text || "",
+      Array.from(allSources.values()),
+      { unsupportedClaims }
+    );
+    return { response: answer, citations, claims };
+  },
+});
+
+export const answerQueryWorkflow = createWorkflow({
+  id: "answerQueryWorkflow",
+  description: "Answer a question from the knowledge base with entity-enhanced retrieval and cited sources",
+  inputSchema: queryInputSchema,
+  outputSchema: answerSchema,
+})
+  .then(retrieveContextStep)
+  .then(generateAnswerStep)
+  .commit();
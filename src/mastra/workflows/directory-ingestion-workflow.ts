@@ -0,0 +1,117 @@
+import { createWorkflow, createStep } from "@mastra/core/workflows";
+import { z } from "zod";
+import { ensureCollection, getCollectionEmbeddingProvider, resolveCollectionName } from "../lib/collections.js";
+import {
+  discoverFiles,
+  findMissingFiles,
+  getSyncedFiles,
+  removeMissingFile,
+  summarizeSync,
+  syncFile,
+} from "../lib/directory-sync.js";
+import { getVectorStore } from "../lib/vector-store.js";
+
+// Define schemas for the workflow steps
+const syncOptionsSchema = z.object({
+  roots: z.array(z.string()).min(1),
+  include: z.array(z.string()).optional(),
+  exclude: z.array(z.string()).default([]),
+  respectGitignore: z.boolean().default(true),
+  // Defaults come from the collection
+  chunkSize: z.number().optional(),
+  overlap: z.number().optional(),
+  collection: z.string().optional(),
+});
+
+const discoveredFilesSchema = syncOptionsSchema.extend({
+  collection: z.string(),
+  files: z.array(z.string()),
+  missing: z.array(z.string()),
+});
+
+const fileReportSchema = z.object({
+  path: z.string(),
+  status: z.enum(["added", "updated", "unchanged", "removed", "failed"]),
+  chunks: z.object({
+    added: z.number(),
+    updated: z.number(),
+    unchanged: z.number(),
+    removed: z.number(),
+  }),
+  error: z.string().optional(),
+});
+
+const syncReportSchema = z.object({
+  files: z.array(fileReportSchema),
+  summary: z.object({
+    added: z.number(),
+    updated: z.number(),
+    unchanged: z.number(),
+    removed: z.number(),
+    failed: z.number(),
+  }),
+});
+
+// Index, embedding model and chunking defaults of the collection being synced
+async function getCollectionSyncOptions(vectorStore: any, name: string, { chunkSize, overlap }: { chunkSize?: number; overlap?: number }) {
+  const collection = await ensureCollection(vectorStore, name);
+  return {
+    indexName: collection.indexName,
+    embeddingProvider: getCollectionEmbeddingProvider(collection),
+    chunkSize: chunkSize ?? collection.chunkSize,
+    overlap: overlap ?? collection.overlap,
+  };
+}
+
+const discoverFilesStep = createStep({
+  id: "discoverFiles",
+  description: "Find the files to ingest under the roots and the synced files that disappeared",
+  inputSchema: syncOptionsSchema,
+  outputSchema: discoveredFilesSchema,
+  execute: async (context) => {
+    const options = context.inputData;
+    const vectorStore = getVectorStore(context.mastra);
+    const collection = resolveCollectionName(options.collection, context.runtimeContext);
+    const { indexName } = await getCollectionSyncOptions(vectorStore, collection, options);
+
+    const files = await discoverFiles(options);
+    const missing = await findMissingFiles(vectorStore, { ...options, indexName });
+    console.log(`📂 Found ${files.length} files, ${missing.length} removed from disk`);
+
+    return { ...options, collection, files, missing };
+  },
+});
+
+const syncFilesStep = createStep({
+  id: "syncFiles",
+  description: "Ingest new and changed files and delete chunks of removed files",
+  inputSchema: discoveredFilesSchema,
+  outputSchema: syncReportSchema,
+  execute: async (context) => {
+    const { files, missing, collection, ...syncOptions } = context.inputData;
+    const vectorStore = getVectorStore(context.mastra);
+    const options = { ...syncOptions, ...(await getCollectionSyncOptions(vectorStore, collection, syncOptions)) };
+    const previous = await getSyncedFiles(vectorStore, options);
+
+    // Files are processed one by one; a failure is recorded in the report
+    const reports = [];
+    for (const file of files) {
+      reports.push(await syncFile(vectorStore, file, previous.get(file), options));
+    }
+    for (const file of missing) {
+      reports.push(await removeMissingFile(vectorStore, file, options));
+    }
+
+    return summarizeSync(reports);
+  },
+});
+
+export const directoryIngestionWorkflow = createWorkflow({
+  id: "directoryIngestionWorkflow",
+  description: "Ingest directory trees into the knowledge base, re-processing only new or changed files",
+  inputSchema: syncOptionsSchema,
+  outputSchema: syncReportSchema,
+})
+  .then(discoverFilesStep)
+  .then(syncFilesStep)
+  .commit();
@@ -0,0 +1,106 @@
+// Suspend and resume of the ingestion workflow on the in-memory store. Embeddings come
+// from a local OpenAI-compatible fixture server that can be told to fail a request.
+
+import assert from "node:assert/strict";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+import { Mastra } from "@mastra/core/mastra";
+import { InMemoryVector } from "../lib/in-memory-vector.js";
+import { createStorage, VECTOR_STORE_KEY } from "../lib/vector-store.js";
+import { ingestDocumentsWorkflow } from "./ingest-documents-workflow.js";
+
+const DIMENSION = 8;
+
+// Requests whose input contains this text fail, once each
+const failOnce = new Set<string>();
+const embedded: string[] = [];
+
+function embed(req: http.IncomingMessage, res: http.ServerResponse): void {
+  let body = "";
+  req.on("data", chunk => (body += chunk));
+  req.on("end", () => {
+    const { input } = JSON.parse(body) as { input: string[] };
+    const failing = [...failOnce].find(text => input.some(value => value.includes(text)));
+    if (failing) {
+      failOnce.delete(failing);
+      // 400 is not retried by the AI SDK, so the batch fails at once
+      res.writeHead(400, { "Content-Type": "application/json" }).end(JSON.stringify({ error: { message: "Rejected by the fixture" } }));
+      return;
+    }
+
+    embedded.push(...input);
+    const data = input.map((value, index) => ({
+      object: "embedding",
+      index,
+      embedding: Array.from({ length: DIMENSION }, (_, i) => (value.charCodeAt(i % value.length) % 7) + 1),
+    }));
+    res.writeHead(200, { "Content-Type": "application/json" })
+      .end(JSON.stringify({ object: "list", data, model: "fixture", usage: { prompt_tokens: 1, total_tokens: 1 } }));
+  });
+}
+
+const onboarding = "Onboarding starts with a laptop and an account for the staging cluster.";
+const runbook = [
+  "Deployments go out every Tuesday after the change review.",
+  "",
+  "A failed canary is rolled back automatically within ten minutes.",
+].join("\n");
+
+describe("ingestDocumentsWorkflow", () => {
+  const server = http.createServer(embed);
+  let mastra: Mastra;
+
+  before(async () => {
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    Object.assign(process.env, {
+      EMBEDDING_PROVIDER: "openai-compatible",
+      EMBEDDING_BASE_URL: `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`,
+      EMBEDDING_API_KEY: "fixture",
+      EMBEDDING_DIMENSION: String(DIMENSION),
+      ENTITY_EXTRACTOR: "heuristic",
+    });
+    mastra = new Mastra({
+      vectors: { [VECTOR_STORE_KEY]: new InMemoryVector() },
+      storage: createStorage("memory"),
+      workflows: { ingestDocumentsWorkflow },
+      telemetry: { enabled: false },
+    });
+  });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it("suspends on a failed embedding batch and resumes without embedding stored chunks again", async () => {
+    // The second batch of the runbook fails; its first batch and the onboarding document are stored
+    failOnce.add("rolled back automatically");
+    const run = await mastra.getWorkflow("ingestDocumentsWorkflow").createRunAsync();
+    const started = await run.start({
+      inputData: {
+        documents: [{ name: "onboarding.md", content: onboarding }, { name: "runbook.md", content: runbook }],
+        chunkSize: 80,
+        overlap: 0,
+        batchSize: 1,
+      },
+    });
+
+    assert.equal(started.status, "suspended");
+    assert.deepEqual(embedded.sort(), [onboarding, runbook.split("\n")[0]].sort());
+
+    embedded.length = 0;
+    const resumed = await run.resume({ step: "storeDocument", resumeData: { skipFailed: false } });
+
+    assert.equal(resumed.status, "success");
+    if (resumed.status !== "success") return;
+    const reports = Object.fromEntries(resumed.result.documents.map((document: any) => [document.name, document]));
+
+    assert.equal(reports["onboarding.md"].status, "stored");
+    assert.equal(reports["onboarding.md"].embeddingsGenerated, 0);
+    assert.equal(reports["runbook.md"].status, "stored");
+    assert.equal(reports["runbook.md"].chunks, 2);
+    assert.equal(reports["runbook.md"].embeddingsGenerated, 1);
+    assert.deepEqual(embedded, [runbook.split("\n")[2]]);
+  });
+});
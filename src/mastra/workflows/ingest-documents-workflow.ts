@@ -0,0 +1,243 @@
+import { createWorkflow, createStep } from "@mastra/core/workflows";
+import { z } from "zod";
+import { ensureCollection, getCollection, getCollectionEmbeddingProvider, resolveCollectionName } from "../lib/collections.js";
+import { chunkDocument, documentContentTypes } from "../lib/documents.js";
+import { ingestSource } from "../lib/ingestion.js";
+import { getVectorStore } from "../lib/vector-store.js";
+
+// Documents are chunked, then embedded and stored, several at a time. A failed embedding
+// batch suspends the run instead of failing it: resuming retries the failed documents,
+// and ingestion is idempotent, so documents and batches already stored are not embedded again.
+
+const DOCUMENT_CONCURRENCY = 4;
+
+// Define schemas for the workflow steps
+const documentInputSchema = z.object({
+  name: z.string().describe("Source key of the document, e.g. its file name or URL"),
+  content: z.string(),
+  encoding: z.enum(["utf-8", "base64"]).default("utf-8").describe("Use base64 for binary formats such as PDF and DOCX"),
+  contentType: z.enum(["auto", ...documentContentTypes]).default("auto"),
+  mimeType: z.string().optional(),
+  metadata: z.record(z.any()).optional().describe("Stored on every chunk of the document"),
+});
+
+const ingestInputSchema = z.object({
+  documents: z.array(documentInputSchema).min(1),
+  collection: z.string().optional(), // Defaults to the collection in the runtime context
+  // Chunking defaults come from the collection
+  chunkSize: z.number().optional(),
+  overlap: z.number().optional(),
+  batchSize: z.number().default(100).describe("Chunks embedded per request"),
+});
+
+const documentJobSchema = documentInputSchema.extend({
+  collection: z.string(),
+  chunkSize: z.number(),
+  overlap: z.number(),
+  batchSize: z.number(),
+});
+
+const chunkedDocumentSchema = z.object({
+  name: z.string(),
+  collection: z.string(),
+  contentType: z.string().optional(),
+  title: z.string().optional(),
+  chunks: z.array(z.object({
+    text: z.string(),
+    metadata: z.record(z.any()),
+  })),
+  metadata: z.record(z.any()),
+  batchSize: z.number(),
+  error: z.string().optional(),
+});
+
+const documentReportSchema = z.object({
+  name: z.string(),
+  status: z.enum(["stored", "failed"]),
+  chunks: z.number(),
+  added: z.number(),
+  updated: z.number(),
+  unchanged: z.number(),
+  removed: z.number(),
+  embeddingsGenerated: z.number(),
+  entitiesExtracted: z.number(),
+  error: z.string().optional(),
+});
+
+const ingestReportSchema = z.object({
+  collection: z.string(),
+  documents: z.array(documentReportSchema),
+  summary: z.object({
+    stored: z.number(),
+    failed: z.number(),
+    chunks: z.number(),
+    embeddingsGenerated: z.number(),
+  }),
+});
+
+const failedDocument = (name: string, error: string) => ({
+  name,
+  status: "failed" as const,
+  chunks: 0,
+  added: 0,
+  updated: 0,
+  unchanged: 0,
+  removed: 0,
+  embeddingsGenerated: 0,
+  entitiesExtracted: 0,
+  error,
+});
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const prepareDocumentsStep = createStep({
+  id: "prepareDocuments",
+  description: "Resolve the target collection and its chunking defaults for every document",
+  inputSchema: ingestInputSchema,
+  outputSchema: z.array(documentJobSchema),
+  execute: async (context) => {
+    const { documents, batchSize } = context.inputData;
+    const collection = await ensureCollection(
+      getVectorStore(context.mastra),
+      resolveCollectionName(context.inputData.collection, context.runtimeContext)
+    );
+    const { chunkSize = collection.chunkSize, overlap = collection.overlap } = context.inputData;
+
+    const names = documents.map(document => document.name);
+    const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+    if (duplicate) {
+      throw new Error(`Document "${duplicate}" is listed more than once`);
+    }
+
+    console.log(`📚 Ingesting ${documents.length} documents into collection "${collection.name}"`);
+    return documents.map(document => ({ ...document, collection: collection.name, chunkSize, overlap, batchSize }));
+  },
+});
+
+const chunkDocumentStep = createStep({
+  id: "chunkDocument",
+  description: "Parse one document into sections and chunk each one",
+  inputSchema: documentJobSchema,
+  outputSchema: chunkedDocumentSchema,
+  execute: async (context) => {
+    const { name, content, encoding, contentType, mimeType, collection, chunkSize, overlap, batchSize } = context.inputData;
+    const chunked = { name, collection, chunks: [], metadata: {}, batchSize };
+
+    try {
+      const document = await chunkDocument(encoding === "base64" ? Buffer.from(content, "base64") : content, {
+        fileName: name,
+        contentType,
+        mimeType,
+        chunkSize,
+        overlap,
+      });
+
+      return {
+        ...chunked,
+        contentType: document.contentType,
+        ...(document.title ? { title: document.title } : {}),
+        chunks: document.chunks,
+        metadata: {
+          ...context.inputData.metadata,
+          contentType: document.contentType,
+          ...(document.title ? { title: document.title } : {}),
+          chunkSize,
+          overlap,
+        },
+      };
+    } catch (error) {
+      console.error(`Error chunking ${name}:`, error);
+      return { ...chunked, error: `Chunking failed: ${errorMessage(error)}` };
+    }
+  },
+});
+
+const storeDocumentStep = createStep({
+  id: "storeDocument",
+  description: "Embed and store the new or changed chunks of one document",
+  inputSchema: chunkedDocumentSchema,
+  outputSchema: documentReportSchema,
+  resumeSchema: z.object({
+    skipFailed: z.boolean().default(false).describe("Report documents that fail again as failed instead of suspending"),
+  }),
+  suspendSchema: z.object({
+    document: z.string(),
+    error: z.string(),
+  }),
+  execute: async (context) => {
+    const { name, collection: collectionName, chunks, metadata, batchSize, error } = context.inputData;
+    if (error) {
+      return failedDocument(name, error);
+    }
+
+    const vectorStore = getVectorStore(context.mastra);
+    const collection = await getCollection(vectorStore, collectionName);
+
+    try {
+      const ingested = await ingestSource(vectorStore, {
+        indexName: collection.indexName,
+        embeddingProvider: getCollectionEmbeddingProvider(collection),
+        source: name,
+        chunks,
+        metadata,
+        batchSize,
+      });
+
+      console.log(`✅ ${name}: ${ingested.added} added, ${ingested.updated} updated, ${ingested.unchanged} unchanged, ${ingested.removed} removed`);
+      return {
+        name,
+        status: "stored" as const,
+        chunks: chunks.length,
+        added: ingested.added,
+        updated: ingested.updated,
+        unchanged: ingested.unchanged,
+        removed: ingested.removed,
+        embeddingsGenerated: ingested.embeddingsGenerated,
+        entitiesExtracted: ingested.entitiesExtracted,
+      };
+    } catch (error) {
+      console.error(`Error storing ${name}:`, error);
+      if (context.resumeData?.skipFailed) {
+        return failedDocument(name, errorMessage(error));
+      }
+
+      // Resuming the run retries from the failed batch
+      await context.suspend({ document: name, error: errorMessage(error) });
+      return failedDocument(name, errorMessage(error));
+    }
+  },
+});
+
+const summarizeIngestionStep = createStep({
+  id: "summarizeIngestion",
+  description: "Report the status of every document",
+  inputSchema: z.array(documentReportSchema),
+  outputSchema: ingestReportSchema,
+  execute: async (context) => {
+    const documents = context.inputData;
+    const [{ collection }] = context.getStepResult(prepareDocumentsStep);
+
+    return {
+      collection,
+      documents,
+      summary: {
+        stored: documents.filter(document => document.status === "stored").length,
+        failed: documents.filter(document => document.status === "failed").length,
+        chunks: documents.reduce((total, document) => total + document.chunks, 0),
+        embeddingsGenerated: documents.reduce((total, document) => total + document.embeddingsGenerated, 0),
+      },
+    };
+  },
+});
+
+export const ingestDocumentsWorkflow = createWorkflow({
+  id: "ingestDocumentsWorkflow",
+  description: "Chunk, embed and store documents in a collection, reporting the status of each document",
+  inputSchema: ingestInputSchema,
+  outputSchema: ingestReportSchema,
+})
+  .then(prepareDocumentsStep)
+  .foreach(chunkDocumentStep, { concurrency: DOCUMENT_CONCURRENCY })
+  .foreach(storeDocumentStep, { concurrency: DOCUMENT_CONCURRENCY })
+  .then(summarizeIngestionStep)
+  .commit();